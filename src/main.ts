@@ -1,8 +1,8 @@
 #!/usr/bin/env node
 
 import { Logger } from 'tslog';
-import { ClaudeCode } from './model/claude/main.js';
-import { Gemini } from './model/gemini/main.js';
+import type { ExecuteOptions } from './model/agent.js';
+import { type AgentName, createAgent } from './model/registry.js';
 
 // Initialize logger
 const log = new Logger({
@@ -37,21 +37,27 @@ function getLogLevel(): number {
 }
 
 /**
- * Executes a prompt using Claude Code
+ * Executes a prompt using a registered agent backend
  *
- * @param prompt - The prompt text to send to Claude
+ * @param agentName - Name of the backend (e.g., 'claude', 'gemini')
+ * @param prompt - The prompt text to send to the agent
+ * @param options - Per-call options such as an AbortSignal
  * @returns Promise that resolves with the result string
  */
-async function useClaude(prompt: string): Promise<string> {
-  log.info('Processing prompt with Claude', { promptLength: prompt.length });
+async function useAgent(
+  agentName: AgentName,
+  prompt: string,
+  options: ExecuteOptions = {}
+): Promise<string> {
+  log.info(`Processing prompt with ${agentName}`, { promptLength: prompt.length });
 
-  const claude = new ClaudeCode({ timeoutMs: 600000 }); // 10 minutes timeout
+  const agent = createAgent(agentName, { timeoutMs: 600000, idleTimeoutMs: 180000 }); // 10 minutes total, 3 minutes idle
 
   const startTime = Date.now();
-  const result = await claude.execute(prompt);
+  const result = await agent.execute(prompt, options);
   const duration = Date.now() - startTime;
 
-  log.info('Claude execution completed', {
+  log.info(`${agentName} execution completed`, {
     duration,
     resultLength: result.length,
     success: true,
@@ -61,28 +67,10 @@ async function useClaude(prompt: string): Promise<string> {
 }
 
 /**
- * Executes a prompt using Gemini Code
- *
- * @param prompt - The prompt text to send to Gemini
- * @returns Promise that resolves with the result string
+ * Backends used for each phase; override with RESEARCH_AGENT / IMPLEMENTATION_AGENT
  */
-async function useGemini(prompt: string): Promise<string> {
-  log.info('Processing prompt with Gemini', { promptLength: prompt.length });
-
-  const gemini = new Gemini({ timeoutMs: 600000 }); // 10 minutes timeout
-
-  const startTime = Date.now();
-  const result = await gemini.execute(prompt);
-  const duration = Date.now() - startTime;
-
-  log.info('Gemini execution completed', {
-    duration,
-    resultLength: result.length,
-    success: true,
-  });
-
-  return result;
-}
+const researchAgent: AgentName = process.env['RESEARCH_AGENT'] || 'gemini';
+const implementationAgent: AgentName = process.env['IMPLEMENTATION_AGENT'] || 'claude';
 
 /**
  * Main function that always executes hardcoded multi-agent workflow
@@ -95,22 +83,30 @@ async function main(): Promise<void> {
   const researchPrompt =
     'Research the OCI Runtime Specification and identify all required fields in the config.json file. Provide the field names, their data types, and any validation requirements.';
 
+  // Agents run in their own process groups, so Ctrl-C has to be forwarded explicitly
+  const abortController = new AbortController();
+  process.once('SIGINT', () => {
+    log.warn('Received SIGINT, aborting running agents');
+    abortController.abort();
+  });
+  const executeOptions: ExecuteOptions = { signal: abortController.signal };
+
   try {
     // Multi-agent workflow implementation expanded inline
     log.info('Starting multi-agent workflow', {
       researchPromptLength: researchPrompt.length,
     });
 
-    // Phase 1: Research with Gemini
-    log.info('Phase 1: Using Gemini for research');
-    const researchResult = await useGemini(researchPrompt);
+    // Phase 1: Research (Gemini by default)
+    log.info(`Phase 1: Using ${researchAgent} for research`);
+    const researchResult = await useAgent(researchAgent, researchPrompt, executeOptions);
 
-    console.log('\n🔍 Research Results (Gemini):');
+    console.log(`\n🔍 Research Results (${researchAgent}):`);
     console.log('-'.repeat(50));
     console.log(researchResult);
     console.log('-'.repeat(50));
 
-    // Generate implementation prompt dynamically based on Gemini's research
+    // Generate implementation prompt dynamically based on the research
     const implementationPrompt = `Write ./dist/oci_config.go file with Go code for JSON config parsing. Based on the following research results:
 
 ${researchResult}
@@ -121,12 +117,16 @@ Create a Go package that implements parsing and validation for the above specifi
       implementationPromptLength: implementationPrompt.length,
     });
 
-    // Phase 2: Implementation with Claude Code
-    log.info('Phase 2: Using Claude Code for implementation');
+    // Phase 2: Implementation (Claude Code by default)
+    log.info(`Phase 2: Using ${implementationAgent} for implementation`);
 
-    const implementationResult = await useClaude(implementationPrompt);
+    const implementationResult = await useAgent(
+      implementationAgent,
+      implementationPrompt,
+      executeOptions
+    );
 
-    console.log('\n⚙️ Implementation Results (Claude Code):');
+    console.log(`\n⚙️ Implementation Results (${implementationAgent}):`);
     console.log('-'.repeat(50));
     console.log(implementationResult);
     console.log('-'.repeat(50));
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { getEventListeners } from 'node:events';
+import { describe, it } from 'node:test';
+import { setTimeout as delay } from 'node:timers/promises';
+import type { AgentExecution, AgentHeartbeat } from './agent.js';
+import { AgentIdleTimeoutError, AgentTerminatedError } from './errors.js';
+import type { AgentEvent } from './events.js';
+import { FakeAgent } from './fake/main.js';
+
+describe('CLIAgent executions', () => {
+  it('keeps the detailed result of each concurrent execution on its handle', async () => {
+    const agent = new FakeAgent({
+      responses: (prompt) =>
+        prompt === 'fail' ? { exitCode: 2 } : { stdout: `answer to ${prompt}` },
+    });
+
+    const first = agent.start('first');
+    const failing = agent.start('fail');
+    const last = agent.start('last');
+    assert.equal(first.getResult(), null);
+    await Promise.allSettled([first.result, failing.result, last.result]);
+
+    assert.equal(first.getResult()?.text, 'answer to first');
+    assert.equal(first.getResult()?.executionId, first.id);
+    assert.equal(failing.getResult()?.isError, true);
+    assert.equal(failing.getResult()?.exitCode, 2);
+    assert.equal(last.getResult()?.text, 'answer to last');
+    // The agent-wide result is that of whichever execution finished last
+    assert.equal(agent.getLastResult()?.executionId, last.id);
+  });
+
+  it('runs concurrent executions with separate output and terminates only the targeted one', async () => {
+    const agent = new FakeAgent({
+      responses: (prompt) => ({ stdout: [`${prompt}-1 `, `${prompt}-2`], durationMs: 300 }),
+    });
+    const deltas = new Map<string, string[]>();
+    const executions = ['a', 'b', 'c'].map((prompt) => {
+      const execution = agent.start(prompt);
+      deltas.set(execution.id, []);
+      execution.subscribe((event) => {
+        if (event.type === 'text_delta') deltas.get(execution.id)?.push(event.text);
+      });
+      return execution;
+    });
+    const [a, b, c] = executions as [AgentExecution, AgentExecution, AgentExecution];
+    assert.deepEqual(new Set(agent.getActiveExecutionIds()), new Set([a.id, b.id, c.id]));
+
+    // Terminate b once its CLI is running
+    b.subscribe((event) => event.type === 'text_delta' && agent.terminate(b.id));
+    const [resultA, resultB, resultC] = await Promise.allSettled([a.result, b.result, c.result]);
+
+    assert.deepEqual(resultA, { status: 'fulfilled', value: 'a-1 a-2' });
+    assert.equal(resultB.status, 'rejected');
+    assert.ok(resultB.status === 'rejected' && resultB.reason instanceof AgentTerminatedError);
+    assert.deepEqual(resultC, { status: 'fulfilled', value: 'c-1 c-2' });
+    assert.deepEqual(deltas.get(a.id), ['a-1 ', 'a-2']);
+    assert.deepEqual(deltas.get(b.id), ['b-1 ']);
+    assert.deepEqual(deltas.get(c.id), ['c-1 ', 'c-2']);
+    assert.deepEqual(agent.getActiveExecutionIds(), []);
+  });
+
+  it('does not start the process of an execution terminated while it was being prepared', async () => {
+    const agent = new FakeAgent({ responses: { stdout: 'done' } });
+
+    const execution = agent.start('prompt');
+    execution.terminate();
+
+    await assert.rejects(execution.result, AgentTerminatedError);
+    assert.deepEqual(agent.prompts, []);
+  });
+
+  it('terminates the execution when the stream consumer stops early', async () => {
+    const agent = new FakeAgent({
+      responses: { stdout: ['first', 'second', 'third'], durationMs: 1000 },
+    });
+    const controller = new AbortController();
+    const finished = new Promise<AgentEvent>((resolve) =>
+      agent.subscribe((event) => event.type === 'error' && resolve(event))
+    );
+
+    for await (const event of agent.executeStream('prompt', { signal: controller.signal })) {
+      if (event.type === 'text_delta') break;
+    }
+
+    const error = await finished;
+    assert.ok(error.type === 'error' && error.error instanceof AgentTerminatedError);
+    assert.equal(getEventListeners(controller.signal, 'abort').length, 0);
+  });
+});
+
+describe('CLIAgent liveness', () => {
+  it('fails an execution that produces no output within the idle timeout', async () => {
+    const agent = new FakeAgent({
+      responses: { stdout: 'too late', durationMs: 2000 },
+      idleTimeoutMs: 100,
+    });
+
+    const startedAt = Date.now();
+    const error = await agent.execute('prompt').catch((e: unknown) => e);
+    assert.ok(error instanceof AgentIdleTimeoutError);
+    assert.equal(error.timeoutMs, 100);
+    assert.ok(Date.now() - startedAt < 1000);
+  });
+
+  it('restarts the idle timeout on every output', async () => {
+    const agent = new FakeAgent({
+      // A chunk every 60 ms, for longer than the idle timeout in total
+      responses: { stdout: ['a', 'b', 'c', 'd', 'e'], durationMs: 360 },
+      idleTimeoutMs: 200,
+    });
+
+    assert.equal(await agent.execute('prompt'), 'abcde');
+  });
+
+  it('reports heartbeats while the CLI runs and stops when it exits', async () => {
+    const agent = new FakeAgent({
+      responses: { stdout: 'done', durationMs: 300 },
+      heartbeatIntervalMs: 40,
+    });
+    const heartbeats: AgentHeartbeat[] = [];
+
+    const execution = agent.start('prompt', { onHeartbeat: (beat) => heartbeats.push(beat) });
+    await execution.result;
+    const count = heartbeats.length;
+    await delay(150);
+
+    assert.ok(count >= 3, `expected at least 3 heartbeats, got ${count}`);
+    assert.equal(heartbeats.length, count);
+    assert.ok(heartbeats.every((beat) => beat.executionId === execution.id && beat.attempt === 1));
+    assert.equal(heartbeats[0]?.bytesReceived, 0);
+    assert.equal(heartbeats.at(-1)?.bytesReceived, 4);
+  });
+});
@@ -1,12 +1,216 @@
-import { type ChildProcess, spawn } from 'node:child_process';
+import { type SpawnOptions, spawn } from 'node:child_process';
+import { join, resolve as resolvePath } from 'node:path';
 import { type ILogObj, Logger } from 'tslog';
+import {
+  buildEnvironment,
+  type EnvironmentPolicy,
+  mergeEnvironmentPolicies,
+} from './environment.js';
+import {
+  AbortError,
+  AgentConfigError,
+  AgentError,
+  type AgentExitError,
+  AgentIdleTimeoutError,
+  AgentScopeError,
+  AgentSpawnError,
+  AgentTerminatedError,
+  AgentTimeoutError,
+  classifyExitError,
+} from './errors.js';
+import {
+  type AgentEvent,
+  type AgentEventInput,
+  type AgentEventListener,
+  EventChannel,
+} from './events.js';
+import { isProcessTreeAlive, killProcessTree, trackProcess } from './reaper.js';
+import {
+  type AgentProcess,
+  loadRecording,
+  type Recording,
+  ReplayProcess,
+  type ReplayTiming,
+  recordProcess,
+  saveRecording,
+} from './recording.js';
+import { type ExecutionResult, ExecutionResultCollector } from './result.js';
+import { type RetryPolicy, withRetry } from './retry.js';
+import type { OutputSchema } from './schema.js';
+import {
+  DEFAULT_SCOPE_IGNORE,
+  diffSnapshots,
+  type FileSnapshot,
+  findScopeViolations,
+  snapshotFiles,
+} from './scope.js';
+import {
+  MAX_ARG_PROMPT_BYTES,
+  type PromptDelivery,
+  type PromptTransport,
+  preparePrompt,
+} from './transport.js';
 
 /**
  * Base configuration options for CLI-based AI agents
  */
 export type CLIAgentConfig = {
   readonly additionalArgs?: string[];
+  /** Working directory of the CLI; defaults to the current directory */
+  readonly cwd?: string;
+  readonly env?: EnvironmentPolicy;
+  /**
+   * Files or directories (relative to `cwd`) the agent may modify. When set, a
+   * successful run that changed anything else below `cwd` fails with AgentScopeError.
+   */
+  readonly writableScope?: readonly string[];
+  /**
+   * Directories the writable scope check does not scan, as names matched at any depth
+   * or paths relative to `cwd`; defaults to `node_modules`. Changes below them are
+   * never reported.
+   */
+  readonly scopeIgnore?: readonly string[];
   readonly timeoutMs?: number;
+  /** Fails the run when the CLI produces no output or events for this long; disabled by default */
+  readonly idleTimeoutMs?: number;
+  /** Interval of `ExecuteOptions.onHeartbeat` callbacks */
+  readonly heartbeatIntervalMs?: number;
+  /** Time a terminated process group gets to exit after SIGTERM before it is sent SIGKILL */
+  readonly killGracePeriodMs?: number;
+  readonly promptTransport?: PromptTransport;
+  readonly retry?: RetryPolicy;
+  /** Directory to which the raw output of every run is written as a replayable fixture */
+  readonly recordDir?: string;
+  /** Recording (or path to one) to play back instead of spawning the CLI */
+  readonly replayFrom?: string | Recording;
+  readonly replayTiming?: ReplayTiming;
+};
+
+/**
+ * Settings of CLIAgentConfig that have no default
+ */
+type OptionalConfigKey =
+  | 'cwd'
+  | 'env'
+  | 'writableScope'
+  | 'recordDir'
+  | 'replayFrom'
+  | 'idleTimeoutMs';
+
+/**
+ * CLIAgentConfig with defaults applied
+ */
+export type ResolvedCLIAgentConfig = Required<Omit<CLIAgentConfig, OptionalConfigKey>> &
+  Pick<CLIAgentConfig, OptionalConfigKey>;
+
+/**
+ * Liveness snapshot passed to `ExecuteOptions.onHeartbeat`
+ */
+export type AgentHeartbeat = {
+  readonly executionId: string;
+  readonly attempt: number;
+  readonly elapsedMs: number;
+  /** Time since the last output or event */
+  readonly idleMs: number;
+  readonly bytesReceived: number;
+};
+
+/**
+ * Per-call options for a single execution
+ */
+export type ExecuteOptions = {
+  readonly signal?: AbortSignal;
+  /** Overrides `CLIAgentConfig.cwd` for this call */
+  readonly cwd?: string;
+  /** Merged over `CLIAgentConfig.env`; its allowlist replaces the agent's */
+  readonly env?: EnvironmentPolicy;
+  /** Overrides `CLIAgentConfig.writableScope` for this call */
+  readonly writableScope?: readonly string[];
+  /** Called every `heartbeatIntervalMs` while the CLI is running */
+  readonly onHeartbeat?: (heartbeat: AgentHeartbeat) => void;
+  /**
+   * Backend session to continue, or `'latest'` for the most recent session in
+   * the working directory; only for agents whose `supportsSessionResume()` is true
+   */
+  readonly resume?: string;
+  /**
+   * JSON Schema the answer must match, for agents whose `supportsOutputSchema()`
+   * is true; other agents ignore it, so the prompt should describe the format too
+   */
+  readonly outputSchema?: OutputSchema;
+};
+
+/**
+ * Mutable state of a single execution attempt
+ *
+ * Everything that belongs to one run of the CLI (process handle, timers, output
+ * buffers kept by subclasses in `state`) lives here, so that a single agent
+ * instance can serve several prompts concurrently. A retried execution gets a
+ * fresh context per attempt that shares the execution's id and listeners.
+ */
+export type ExecutionContext<TState> = {
+  readonly id: string;
+  readonly attempt: number;
+  readonly prompt: string;
+  readonly options: ExecuteOptions;
+  /** Absolute working directory of the process */
+  readonly cwd: string;
+  readonly state: TState;
+  readonly listeners: Set<AgentEventListener>;
+  process: AgentProcess | null;
+  timeoutId: NodeJS.Timeout | null;
+  idleTimer: NodeJS.Timeout | null;
+  heartbeatTimer: NodeJS.Timeout | null;
+  startedAt: number;
+  lastActivityAt: number;
+  bytesReceived: number;
+  killTimer: NodeJS.Timeout | null;
+  untrackProcess: (() => void) | null;
+  terminated: boolean;
+  /** Set once the process has exited, after which its pid must not be signalled */
+  closed: boolean;
+  stderrTail: string;
+  exitCode: number | null;
+  /** Files changed below `cwd`, when a writable scope was checked */
+  changedFiles: string[] | null;
+};
+
+/**
+ * Bookkeeping for an execution across all of its attempts
+ */
+type ExecutionRecord<TState> = {
+  readonly id: string;
+  readonly listeners: Set<AgentEventListener>;
+  readonly startedAt: number;
+  current: ExecutionContext<TState> | null;
+  terminated: boolean;
+  /** Aborted by `terminate()`, which also cuts short a pending retry delay */
+  readonly termination: AbortController;
+  /** Collects the events of the attempt that is currently running */
+  collector: ExecutionResultCollector;
+  collectedAttempt: number;
+  /** Detailed result, once the execution has finished or failed */
+  outcome: ExecutionResult | null;
+};
+
+/**
+ * Number of stderr characters kept per execution for error reporting
+ */
+const STDERR_TAIL_LENGTH = 4000;
+
+/**
+ * Handle for an execution started with `CLIAgent.start()`
+ */
+export type AgentExecution = {
+  readonly id: string;
+  readonly result: Promise<string>;
+  readonly subscribe: (listener: AgentEventListener) => () => void;
+  readonly terminate: () => void;
+  /**
+   * Detailed result of this execution once it has finished; failed executions
+   * are included, with `isError` set and an empty text
+   */
+  readonly getResult: () => ExecutionResult | null;
 };
 
 /**
@@ -14,14 +218,17 @@ export type CLIAgentConfig = {
  *
  * Provides common functionality for spawning and managing CLI processes,
  * including timeout handling, logging, and process lifecycle management.
+ * Each call runs in its own `ExecutionContext`; subclasses keep their per-run
+ * parsing state in the context's `state` object created by `createRunState()`.
  *
  * @abstract
  */
-export abstract class CLIAgent {
-  protected readonly config: Required<CLIAgentConfig>;
+export abstract class CLIAgent<TState extends object = object> {
+  protected readonly config: ResolvedCLIAgentConfig;
   protected readonly log: Logger<ILogObj>;
-  protected process: ChildProcess | null = null;
-  protected timeoutId: NodeJS.Timeout | null = null;
+  private readonly executions = new Map<string, ExecutionRecord<TState>>();
+  private readonly listeners = new Set<AgentEventListener>();
+  private lastResult: ExecutionResult | null = null;
 
   /**
    * Creates a new CLI agent instance
@@ -33,6 +240,18 @@ export abstract class CLIAgent {
     this.config = {
       additionalArgs: config.additionalArgs ?? [],
       timeoutMs: config.timeoutMs ?? 180000, // Default: 3 minutes
+      ...(config.idleTimeoutMs !== undefined && { idleTimeoutMs: config.idleTimeoutMs }),
+      heartbeatIntervalMs: config.heartbeatIntervalMs ?? 10000,
+      killGracePeriodMs: config.killGracePeriodMs ?? 5000,
+      promptTransport: config.promptTransport ?? this.getDefaultPromptTransport(),
+      retry: config.retry ?? {},
+      scopeIgnore: config.scopeIgnore ?? DEFAULT_SCOPE_IGNORE,
+      replayTiming: config.replayTiming ?? 'instant',
+      ...(config.cwd !== undefined && { cwd: config.cwd }),
+      ...(config.env !== undefined && { env: config.env }),
+      ...(config.writableScope !== undefined && { writableScope: config.writableScope }),
+      ...(config.recordDir !== undefined && { recordDir: config.recordDir }),
+      ...(config.replayFrom !== undefined && { replayFrom: config.replayFrom }),
     };
 
     // Initialize structured logger with log level based on environment variable
@@ -51,60 +270,788 @@ export abstract class CLIAgent {
    * Executes a prompt using the CLI agent
    *
    * @param prompt - The prompt text to send to the agent
+   * @param options - Per-call options such as an AbortSignal
    * @returns Promise that resolves with the result string
    */
-  async execute(prompt: string): Promise<string> {
+  execute(prompt: string, options: ExecuteOptions = {}): Promise<string> {
+    return this.start(prompt, options).result;
+  }
+
+  /**
+   * Starts an independent execution and returns a handle to it
+   *
+   * The handle can be used to subscribe to the execution's events or to
+   * terminate it without affecting other executions of the same agent.
+   *
+   * @param prompt - The prompt text to send to the agent
+   * @param options - Per-call options such as an AbortSignal
+   * @returns Handle for the running execution
+   */
+  start(prompt: string, options: ExecuteOptions = {}): AgentExecution {
+    return this.createExecution(prompt, options).execution;
+  }
+
+  /**
+   * Executes a prompt and returns the result together with execution metadata
+   *
+   * Cost, session and tool-call data come from the agent's event stream, so each
+   * backend fills in whatever its CLI reports.
+   *
+   * @param prompt - The prompt text to send to the agent
+   * @param options - Per-call options such as an AbortSignal
+   * @returns Promise that resolves with the detailed execution result
+   */
+  async executeDetailed(prompt: string, options: ExecuteOptions = {}): Promise<ExecutionResult> {
+    const { execution, record } = this.createExecution(prompt, options);
+    const text = await execution.result;
+    return record.outcome ?? this.buildResult(record, text);
+  }
+
+  /**
+   * Returns the detailed result of the most recently finished execution
+   *
+   * Also available after `execute()`, e.g. to audit the transcript of tool calls.
+   * Failed executions are included, with `isError` set and an empty text. With
+   * concurrent executions this is whichever finished last; use the handle's
+   * `getResult()` from `start()` to get the result of a specific execution.
+   */
+  getLastResult(): ExecutionResult | null {
+    return this.lastResult;
+  }
+
+  /**
+   * Builds the detailed result of an execution from its collected events
+   *
+   * @param record - Execution record
+   * @param text - Result text
+   */
+  private buildResult(record: ExecutionRecord<TState>, text: string): ExecutionResult {
+    return record.collector.build({
+      executionId: record.id,
+      text,
+      exitCode: record.current?.exitCode ?? null,
+      wallTimeMs: Date.now() - record.startedAt,
+      stderrTail: record.current?.stderrTail ?? '',
+      attempts: record.collectedAttempt,
+      ...(record.current?.changedFiles && { changedFiles: record.current.changedFiles }),
+    });
+  }
+
+  /**
+   * Creates the bookkeeping record for an execution and starts its first attempt
+   *
+   * @param prompt - The prompt text to send to the agent
+   * @param options - Per-call options such as an AbortSignal
+   * @returns Public handle together with the internal record
+   */
+  private createExecution(
+    prompt: string,
+    options: ExecuteOptions
+  ): { execution: AgentExecution; record: ExecutionRecord<TState> } {
+    const record: ExecutionRecord<TState> = {
+      id: this.generateExecutionId(),
+      listeners: new Set(),
+      startedAt: Date.now(),
+      current: null,
+      terminated: false,
+      termination: new AbortController(),
+      collector: new ExecutionResultCollector(this.getAgentName()),
+      collectedAttempt: 1,
+      outcome: null,
+    };
+
+    this.executions.set(record.id, record);
+
+    record.listeners.add((event) => {
+      // Only the attempt that produced the result is reported
+      const currentAttempt = record.current?.attempt ?? record.collectedAttempt;
+      if (currentAttempt !== record.collectedAttempt) {
+        record.collectedAttempt = currentAttempt;
+        record.collector = new ExecutionResultCollector(this.getAgentName());
+      }
+      record.collector.add(event);
+    });
+
+    const result = withRetry(
+      (attempt) => {
+        if (record.terminated) {
+          throw new AgentTerminatedError(this.getAgentName());
+        }
+
+        const context: ExecutionContext<TState> = {
+          id: record.id,
+          attempt,
+          prompt,
+          options,
+          cwd: resolvePath(options.cwd ?? this.config.cwd ?? process.cwd()),
+          state: this.createRunState(),
+          listeners: record.listeners,
+          process: null,
+          timeoutId: null,
+          idleTimer: null,
+          heartbeatTimer: null,
+          startedAt: Date.now(),
+          lastActivityAt: Date.now(),
+          bytesReceived: 0,
+          killTimer: null,
+          untrackProcess: null,
+          terminated: false,
+          closed: false,
+          stderrTail: '',
+          exitCode: null,
+          changedFiles: null,
+        };
+        record.current = context;
+
+        return this.run(context);
+      },
+      this.config.retry,
+      {
+        signal: options.signal
+          ? AbortSignal.any([options.signal, record.termination.signal])
+          : record.termination.signal,
+        onRetry: (error, attempt, delayMs) => {
+          this.log.warn(`${this.getAgentName()} execution failed, retrying`, {
+            executionId: record.id,
+            attempt,
+            delayMs,
+            error: error.message,
+          });
+          if (record.current) {
+            this.emit(record.current, {
+              type: 'progress',
+              message: 'Retrying after error',
+              data: { attempt, delayMs, error: error.message, errorName: error.name },
+            });
+          }
+        },
+      }
+    )
+      .then((text) => {
+        record.outcome = this.buildResult(record, text);
+        this.lastResult = record.outcome;
+        return text;
+      })
+      .catch((error: unknown) => {
+        const err = this.normalizeError(error, options);
+        if (record.current) {
+          this.emit(record.current, { type: 'error', message: err.message, error: err });
+        }
+        record.outcome = { ...this.buildResult(record, ''), isError: true };
+        this.lastResult = record.outcome;
+        throw err;
+      })
+      .finally(() => {
+        if (record.current) {
+          this.clearExecutionTimers(record.current);
+        }
+        this.executions.delete(record.id);
+      });
+
+    const execution: AgentExecution = {
+      id: record.id,
+      result,
+      subscribe: (listener) => {
+        record.listeners.add(listener);
+        return () => {
+          record.listeners.delete(listener);
+        };
+      },
+      terminate: () => this.terminateRecord(record),
+      getResult: () => record.outcome,
+    };
+
+    return { execution, record };
+  }
+
+  /**
+   * Executes a prompt and streams the agent's activity as typed events
+   *
+   * The stream ends after a `result` event on success or an `error` event on failure.
+   * Leaving the `for await` loop early terminates the execution.
+   *
+   * @param prompt - The prompt text to send to the agent
+   * @param options - Per-call options such as an AbortSignal
+   * @returns AsyncIterable of normalized agent events
+   */
+  executeStream(prompt: string, options: ExecuteOptions = {}): AsyncIterable<AgentEvent> {
+    const execution = this.start(prompt, options);
+    const channel = new EventChannel<AgentEvent>(() => execution.terminate());
+    const unsubscribe = execution.subscribe((event) => channel.push(event));
+
+    execution.result
+      .catch(() => {
+        // Failures are delivered to the stream as an error event
+      })
+      .finally(() => {
+        unsubscribe();
+        channel.close();
+      });
+
+    return channel;
+  }
+
+  /**
+   * Registers a listener that receives every event emitted by this agent,
+   * across all of its executions
+   *
+   * @param listener - Callback invoked for each event
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: AgentEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Terminates a running execution, or all running executions when no id is given
+   *
+   * @param executionId - Id of the execution to terminate
+   */
+  terminate(executionId?: string): void {
+    if (executionId === undefined) {
+      for (const record of this.executions.values()) {
+        this.terminateRecord(record);
+      }
+      return;
+    }
+
+    const record = this.executions.get(executionId);
+    if (record) {
+      this.terminateRecord(record);
+    }
+  }
+
+  /**
+   * Returns the ids of executions that have not finished yet
+   */
+  getActiveExecutionIds(): string[] {
+    return [...this.executions.keys()];
+  }
+
+  /**
+   * Validates the prompt, spawns the CLI process and wires up timeout and event handling
+   *
+   * @param context - Execution context of this run
+   * @returns Promise that resolves with the result string
+   */
+  private async run(context: ExecutionContext<TState>): Promise<string> {
+    const { prompt } = context;
+    const { signal } = context.options;
+
     if (!prompt || prompt.trim() === '') {
       const error = new Error('Prompt cannot be empty');
       this.log.error('Invalid prompt', { error: error.message });
       throw error;
     }
 
+    if (signal?.aborted) {
+      throw new AbortError(this.getAgentName(), signal.reason);
+    }
+
     this.log.info(`Starting ${this.getAgentName()} execution`, {
+      executionId: context.id,
+      attempt: context.attempt,
       prompt: prompt,
       promptLength: prompt.length,
       timeoutMs: this.config.timeoutMs,
+      cwd: context.cwd,
     });
 
-    return new Promise((resolve, reject) => {
-      const args = this.buildCommandArgs(prompt);
+    if (context.options.resume !== undefined && !this.supportsSessionResume()) {
+      throw new AgentConfigError(
+        this.getAgentName(),
+        `${this.getAgentName()} cannot resume sessions`
+      );
+    }
 
-      this.log.debug(`Spawning ${this.getAgentName()} process`, {
-        args: args,
-        originalPrompt: prompt,
+    if (context.options.outputSchema && !this.supportsOutputSchema()) {
+      this.log.debug(`${this.getAgentName()} has no native schema mode; ignoring outputSchema`, {
+        executionId: context.id,
+        schema: context.options.outputSchema.name,
       });
+    }
 
-      this.process = spawn(this.getCommandName(), args, this.getSpawnOptions());
+    const replay = await this.loadReplay();
+    const writableScope = context.options.writableScope ?? this.config.writableScope;
+    const baseline = writableScope
+      ? await snapshotFiles(context.cwd, this.config.scopeIgnore)
+      : null;
+    const prepared = await preparePrompt(prompt, this.resolvePromptTransport(prompt));
 
-      // Set up timeout
-      this.timeoutId = setTimeout(() => {
-        this.log.error(`${this.getAgentName()} execution timed out`, {
-          prompt: prompt,
-          timeoutMs: this.config.timeoutMs,
+    try {
+      await this.prepareExecution(context, replay);
+
+      const result = await new Promise<string>((resolve, reject) => {
+        if (context.terminated) {
+          reject(new AgentTerminatedError(this.getAgentName()));
+          return;
+        }
+
+        const args = this.buildCommandArgs(prepared.delivery, context);
+
+        this.log.debug(`Spawning ${this.getAgentName()} process`, {
+          executionId: context.id,
+          args: args,
+          promptTransport: prepared.delivery.transport,
+          originalPrompt: prompt,
         });
-        this.terminate();
-        reject(
-          new Error(`${this.getAgentName()} execution timed out after ${this.config.timeoutMs}ms`)
+
+        // Run the CLI without a shell, in its own process group so that its tool
+        // subprocesses can be signalled together with it
+        try {
+          context.process = replay
+            ? new ReplayProcess(replay, this.config.replayTiming)
+            : this.createProcess(context, args, {
+                ...this.getSpawnOptions(),
+                cwd: context.cwd,
+                env: buildEnvironment(
+                  mergeEnvironmentPolicies(this.config.env, context.options.env),
+                  this.getRequiredEnvironment()
+                ),
+                stdio: [prepared.openStdin(), 'pipe', 'pipe'],
+                shell: false,
+                detached: process.platform !== 'win32',
+              });
+        } finally {
+          prepared.closeStdin();
+        }
+
+        // Reap the process group even if this Node.js process exits first
+        context.untrackProcess = trackProcess(context.process);
+
+        if (this.config.recordDir) {
+          this.startRecording(context, args, this.config.recordDir);
+        }
+
+        this.handleProcessStart(context, args);
+
+        if (prepared.delivery.transport === 'stdin') {
+          this.writePromptToStdin(context, prompt);
+        }
+
+        if (signal) {
+          const onAbort = (): void => {
+            this.log.info(`${this.getAgentName()} execution aborted`, {
+              executionId: context.id,
+              reason: signal.reason instanceof Error ? signal.reason.message : signal.reason,
+            });
+            this.terminateExecution(context);
+            reject(new AbortError(this.getAgentName(), signal.reason));
+          };
+
+          if (signal.aborted) {
+            onAbort();
+          } else {
+            signal.addEventListener('abort', onAbort, { once: true });
+            context.process.once('close', () => signal.removeEventListener('abort', onAbort));
+          }
+        }
+
+        // Set up timeout
+        context.timeoutId = setTimeout(() => {
+          this.log.error(`${this.getAgentName()} execution timed out`, {
+            executionId: context.id,
+            prompt: prompt,
+            timeoutMs: this.config.timeoutMs,
+          });
+          this.terminateExecution(context);
+          reject(new AgentTimeoutError(this.getAgentName(), this.config.timeoutMs));
+        }, this.config.timeoutMs);
+
+        if (this.config.idleTimeoutMs !== undefined) {
+          this.scheduleIdleTimeout(context, this.config.idleTimeoutMs, reject);
+        }
+
+        if (context.options.onHeartbeat) {
+          this.startHeartbeat(context, context.options.onHeartbeat);
+        }
+
+        this.setupEventHandlers(context, resolve, reject);
+      });
+
+      if (baseline && writableScope) {
+        await this.verifyWritableScope(context, baseline, writableScope);
+      }
+
+      return result;
+    } finally {
+      await prepared.cleanup();
+      await this.finishExecution(context);
+    }
+  }
+
+  /**
+   * Fails the run if it changed files below its working directory outside the writable scope
+   *
+   * @param context - Execution context of the finished run
+   * @param baseline - Snapshot taken before the process was started
+   * @param writableScope - Paths the run was allowed to modify
+   */
+  private async verifyWritableScope(
+    context: ExecutionContext<TState>,
+    baseline: FileSnapshot,
+    writableScope: readonly string[]
+  ): Promise<void> {
+    const changed = diffSnapshots(
+      baseline,
+      await snapshotFiles(context.cwd, this.config.scopeIgnore)
+    );
+    context.changedFiles = changed;
+
+    const violations = findScopeViolations(changed, context.cwd, writableScope);
+    if (violations.length > 0) {
+      this.log.error(`${this.getAgentName()} changed files outside its writable scope`, {
+        executionId: context.id,
+        writableScope,
+        violations,
+      });
+      throw new AgentScopeError(this.getAgentName(), violations);
+    }
+  }
+
+  /**
+   * Creates the process for an execution; the default spawns the CLI
+   *
+   * Subclasses that do not run a real CLI (e.g., fakes) return any AgentProcess.
+   *
+   * @param context - Execution context the process belongs to
+   * @param args - Command line arguments
+   * @param options - Spawn options
+   * @returns The started process
+   */
+  protected createProcess(
+    _context: ExecutionContext<TState>,
+    args: string[],
+    options: SpawnOptions
+  ): AgentProcess {
+    return spawn(this.getCommandName(), args, options);
+  }
+
+  /**
+   * Resolves the configured replay recording, reading it from disk if needed
+   *
+   * @returns Recording to replay, or null for live execution
+   */
+  private async loadReplay(): Promise<Recording | null> {
+    const { replayFrom } = this.config;
+    if (replayFrom === undefined) return null;
+    return typeof replayFrom === 'string' ? loadRecording(replayFrom) : replayFrom;
+  }
+
+  /**
+   * Records the raw output of an execution and writes it to the record directory
+   *
+   * @param context - Execution context whose process is recorded
+   * @param args - Command line arguments used for the run
+   * @param recordDir - Destination directory
+   */
+  private startRecording(
+    context: ExecutionContext<TState>,
+    args: string[],
+    recordDir: string
+  ): void {
+    if (!context.process) return;
+
+    const path = join(recordDir, `${context.id}-${context.attempt}.json`);
+    recordProcess(
+      context.process,
+      {
+        agent: this.getAgentName(),
+        command: this.getCommandName(),
+        args,
+        prompt: context.prompt,
+      },
+      (recording) => {
+        saveRecording(path, recording)
+          .then(() => this.log.debug('Saved execution recording', { path }))
+          .catch((error: unknown) => {
+            this.log.warn('Failed to save execution recording', {
+              path,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          });
+      }
+    );
+  }
+
+  /**
+   * Chooses the prompt transport for a prompt, falling back from `arg` when the
+   * prompt would not fit into a single command line argument or contains NUL
+   * characters, which argv entries cannot hold
+   *
+   * @param prompt - The prompt to deliver
+   * @returns Transport supported by this agent
+   */
+  private resolvePromptTransport(prompt: string): PromptTransport {
+    const supported = this.getSupportedPromptTransports();
+    const requested = this.config.promptTransport;
+
+    if (!supported.includes(requested)) {
+      throw new AgentConfigError(
+        this.getAgentName(),
+        `${this.getAgentName()} does not support the '${requested}' prompt transport (supported: ${supported.join(', ')})`
+      );
+    }
+
+    const promptBytes = Buffer.byteLength(prompt, 'utf-8');
+    const tooLarge = promptBytes > MAX_ARG_PROMPT_BYTES;
+    if (requested === 'arg' && (tooLarge || prompt.includes('\0'))) {
+      const fallback = supported.find((transport) => transport !== 'arg');
+      if (!fallback) {
+        throw new AgentConfigError(
+          this.getAgentName(),
+          tooLarge
+            ? `Prompt of ${promptBytes} bytes is too large to pass as an argument to ${this.getAgentName()}`
+            : `Prompt with NUL characters cannot be passed as an argument to ${this.getAgentName()}`
         );
-      }, this.config.timeoutMs);
+      }
+
+      this.log.warn('Prompt cannot be passed as an argument, falling back', {
+        promptBytes,
+        reason: tooLarge ? 'too large' : 'contains NUL',
+        fallback,
+      });
+      return fallback;
+    }
+
+    return requested;
+  }
+
+  /**
+   * Writes the prompt to the child's stdin and closes it
+   *
+   * @param context - Execution context owning the process
+   * @param prompt - The prompt text
+   */
+  private writePromptToStdin(context: ExecutionContext<TState>, prompt: string): void {
+    const stdin = context.process?.stdin;
+    if (!stdin) return;
+
+    // The CLI may exit before reading everything (e.g. on an argument error);
+    // the exit code is reported through the regular exit handling instead
+    stdin.on('error', (error) => {
+      this.log.debug('Failed to write prompt to stdin', {
+        executionId: context.id,
+        error: error.message,
+      });
+    });
+    stdin.end(prompt, 'utf-8');
+  }
+
+  /**
+   * Stops an execution: no further attempts are made and the current one is killed
+   *
+   * @param record - Execution to terminate
+   */
+  private terminateRecord(record: ExecutionRecord<TState>): void {
+    record.terminated = true;
+    record.termination.abort(new AgentTerminatedError(this.getAgentName()));
+    if (record.current) {
+      this.terminateExecution(record.current);
+    }
+  }
+
+  /**
+   * Converts anything thrown by an execution into an Error, mapping failures
+   * caused by an aborted signal (e.g., during a retry delay) to AbortError
+   *
+   * @param error - Thrown value
+   * @param options - Options of the execution
+   */
+  private normalizeError(error: unknown, options: ExecuteOptions): Error {
+    if (options.signal?.aborted && !(error instanceof AbortError)) {
+      return new AbortError(this.getAgentName(), options.signal.reason);
+    }
+    if (error instanceof Error) {
+      return error;
+    }
+    return new AgentError(this.getAgentName(), String(error));
+  }
+
+  /**
+   * Kills the process group of a single execution and clears its timeout
+   *
+   * The group is sent SIGTERM first; whatever is still running after the
+   * grace period is sent SIGKILL. A process that has already exited (e.g. the
+   * previous attempt during a retry delay) is left alone, since its pid may
+   * have been reused.
+   *
+   * @param context - Execution context to terminate
+   */
+  private terminateExecution(context: ExecutionContext<TState>): void {
+    this.clearExecutionTimers(context);
+
+    const child = context.process;
+    if (context.terminated || context.closed) return;
+    context.terminated = true;
+    // A process that has not been started yet is never started
+    if (!child) return;
 
-      this.setupEventHandlers(resolve, reject, prompt);
+    this.log.debug(`Terminating ${this.getAgentName()} process`, {
+      executionId: context.id,
+      pid: child.pid,
+      gracePeriodMs: this.config.killGracePeriodMs,
     });
+    killProcessTree(child, 'SIGTERM');
+
+    context.killTimer = setTimeout(() => {
+      context.killTimer = null;
+      if (isProcessTreeAlive(child)) {
+        this.log.warn(`${this.getAgentName()} process did not exit after SIGTERM, killing`, {
+          executionId: context.id,
+          pid: child.pid,
+        });
+        killProcessTree(child, 'SIGKILL');
+      }
+      this.releaseProcess(context);
+    }, this.config.killGracePeriodMs);
+    // The exit handlers reap the group if Node.js exits during the grace period
+    context.killTimer.unref();
+  }
+
+  /**
+   * Stops tracking an execution's process once nothing of its group is left to reap
+   *
+   * @param context - Execution context owning the process
+   */
+  private releaseProcess(context: ExecutionContext<TState>): void {
+    if (context.killTimer) {
+      clearTimeout(context.killTimer);
+      context.killTimer = null;
+    }
+    context.untrackProcess?.();
+    context.untrackProcess = null;
+  }
+
+  /**
+   * Arms the inactivity timer, re-arming it for the remainder while output keeps arriving
+   *
+   * @param context - Execution context to watch
+   * @param delayMs - Time until the next check
+   * @param reject - Rejects the run when it has been idle for too long
+   */
+  private scheduleIdleTimeout(
+    context: ExecutionContext<TState>,
+    delayMs: number,
+    reject: (error: Error) => void
+  ): void {
+    const idleTimeoutMs = this.config.idleTimeoutMs ?? 0;
+
+    context.idleTimer = setTimeout(() => {
+      const idleMs = Date.now() - context.lastActivityAt;
+      if (idleMs < idleTimeoutMs) {
+        this.scheduleIdleTimeout(context, idleTimeoutMs - idleMs, reject);
+        return;
+      }
+
+      this.log.error(`${this.getAgentName()} execution went idle`, {
+        executionId: context.id,
+        prompt: context.prompt,
+        idleTimeoutMs,
+        elapsedMs: Date.now() - context.startedAt,
+      });
+      this.terminateExecution(context);
+      reject(new AgentIdleTimeoutError(this.getAgentName(), idleTimeoutMs));
+    }, delayMs);
   }
 
   /**
-   * Terminates the current process if running
+   * Starts calling the heartbeat callback at the configured interval
+   *
+   * @param context - Execution context to report on
+   * @param onHeartbeat - Callback from the execute options
    */
-  terminate(): void {
-    if (this.timeoutId) {
-      clearTimeout(this.timeoutId);
-      this.timeoutId = null;
+  private startHeartbeat(
+    context: ExecutionContext<TState>,
+    onHeartbeat: (heartbeat: AgentHeartbeat) => void
+  ): void {
+    context.heartbeatTimer = setInterval(() => {
+      const now = Date.now();
+      try {
+        onHeartbeat({
+          executionId: context.id,
+          attempt: context.attempt,
+          elapsedMs: now - context.startedAt,
+          idleMs: now - context.lastActivityAt,
+          bytesReceived: context.bytesReceived,
+        });
+      } catch (error) {
+        this.log.warn('Heartbeat callback threw an error', {
+          executionId: context.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }, this.config.heartbeatIntervalMs);
+  }
+
+  /**
+   * Records that the CLI is still making progress
+   *
+   * @param context - Execution context that produced output
+   * @param bytes - Number of bytes received, if the activity was output
+   */
+  private markActivity(context: ExecutionContext<TState>, bytes = 0): void {
+    context.lastActivityAt = Date.now();
+    context.bytesReceived += bytes;
+  }
+
+  /**
+   * Clears the total, idle and heartbeat timers of an execution
+   *
+   * @param context - Execution context owning the timers
+   */
+  private clearExecutionTimers(context: ExecutionContext<TState>): void {
+    if (context.timeoutId) {
+      clearTimeout(context.timeoutId);
+      context.timeoutId = null;
+    }
+    if (context.idleTimer) {
+      clearTimeout(context.idleTimer);
+      context.idleTimer = null;
     }
+    if (context.heartbeatTimer) {
+      clearInterval(context.heartbeatTimer);
+      context.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Generates a unique execution ID
+   */
+  private generateExecutionId(): string {
+    const timestamp = Date.now();
+    const random = Math.random().toString(36).substring(2, 8);
+    return `execution-${timestamp}-${random}`;
+  }
+
+  /**
+   * Delivers an event to the execution's listeners and to agent-wide listeners
+   *
+   * @param context - Execution context the event belongs to
+   * @param event - Event payload without the shared fields
+   */
+  protected emit(context: ExecutionContext<TState>, event: AgentEventInput): void {
+    const fullEvent = {
+      ...event,
+      agent: this.getAgentName(),
+      executionId: context.id,
+      timestamp: Date.now(),
+    } as AgentEvent;
 
-    if (this.process) {
-      this.log.debug(`Terminating ${this.getAgentName()} process`, { pid: this.process.pid });
-      this.process.kill('SIGTERM');
-      this.process = null;
+    this.markActivity(context);
+
+    for (const listener of [...context.listeners, ...this.listeners]) {
+      try {
+        listener(fullEvent);
+      } catch (error) {
+        this.log.warn('Event listener threw an error', {
+          eventType: fullEvent.type,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
     }
   }
 
@@ -133,99 +1080,176 @@ export abstract class CLIAgent {
   }
 
   /**
-   * Escapes a prompt string to safely pass it as a command line argument
-   * Uses Base64 encoding for complex prompts with multiline content
-   *
-   * @param prompt - The raw prompt string
-   * @returns Properly escaped prompt string
+   * Returns the prompt transports this agent's CLI can accept
    */
-  protected escapePrompt(prompt: string): string {
-    // For complex prompts with newlines or special characters, use Base64 encoding approach
-    if (
-      prompt.includes('\n') ||
-      prompt.includes('"') ||
-      prompt.includes("'") ||
-      prompt.length > 200
-    ) {
-      this.log.debug('Using Base64 encoding for complex prompt', {
-        hasNewlines: prompt.includes('\n'),
-        hasQuotes: prompt.includes('"') || prompt.includes("'"),
-        length: prompt.length,
-      });
+  protected getSupportedPromptTransports(): readonly PromptTransport[] {
+    return ['arg', 'stdin', 'file'];
+  }
 
-      // Create a temporary approach - encode and decode within the command
-      const encoded = Buffer.from(prompt, 'utf-8').toString('base64');
-      return `"$(echo '${encoded}' | base64 -d)"`;
-    }
+  /**
+   * Returns the prompt transport used when the config does not choose one
+   */
+  protected getDefaultPromptTransport(): PromptTransport {
+    return 'stdin';
+  }
 
-    // For simple prompts, use standard escaping
-    const escaped = `"${prompt
-      .replace(/\\/g, '\\\\') // Escape backslashes
-      .replace(/"/g, '\\"') // Escape double quotes
-      .replace(/\$/g, '\\$') // Escape dollar signs
-      .replace(/`/g, '\\`')}"`; // Escape backticks
+  /**
+   * Returns the environment variables (or `PREFIX_*` patterns) the CLI needs
+   * even when the environment is restricted by an allowlist
+   */
+  protected getRequiredEnvironment(): readonly string[] {
+    return [];
+  }
 
-    this.log.debug('Using standard escaping for simple prompt', {
-      originalLength: prompt.length,
-      escapedLength: escaped.length,
-    });
+  /**
+   * Returns whether the CLI can continue a previous session (`ExecuteOptions.resume`)
+   */
+  protected supportsSessionResume(): boolean {
+    return false;
+  }
 
-    return escaped;
+  /**
+   * Returns whether the backend can enforce `ExecuteOptions.outputSchema` itself
+   */
+  protected supportsOutputSchema(): boolean {
+    return false;
+  }
+
+  /**
+   * Returns extra spawn options for the child process
+   *
+   * `stdio`, `shell`, `detached`, `cwd` and `env` are managed by the base class.
+   */
+  protected getSpawnOptions(): SpawnOptions {
+    return {};
   }
 
   /**
    * Builds command line arguments for execution
    * Each agent implements its own command building logic
    *
-   * @param prompt - The prompt to execute
+   * Arguments are passed to the process as-is (no shell), so they must not be quoted.
+   *
+   * @param delivery - How the prompt is delivered; `arg` deliveries must include the prompt
+   * @param context - Execution context, for arguments that depend on per-call options
    * @returns Array of command line arguments
    */
-  protected abstract buildCommandArgs(prompt: string): string[];
+  protected abstract buildCommandArgs(
+    delivery: PromptDelivery,
+    context: ExecutionContext<TState>
+  ): string[];
 
   /**
    * Sets up event handlers for the spawned process with shared timeout cleanup
    *
+   * @param context - Execution context of this run
    * @param resolve - Promise resolve function
    * @param reject - Promise reject function
-   * @param prompt - Original prompt for logging
    */
   protected setupEventHandlers(
+    context: ExecutionContext<TState>,
     resolve: (result: string) => void,
-    reject: (error: Error) => void,
-    prompt: string
+    reject: (error: Error) => void
   ): void {
-    if (!this.process) {
+    const child = context.process;
+    if (!child) {
       reject(new Error('Process not initialized'));
       return;
     }
 
-    this.process.stdout?.on('data', (data) => {
-      this.handleStdoutData(data);
+    child.stdout?.on('data', (data: Buffer) => {
+      this.markActivity(context, data.length);
+      this.handleStdoutData(context, data);
     });
 
-    this.process.stderr?.on('data', (data) => {
-      this.handleStderrData(data);
+    child.stderr?.on('data', (data: Buffer) => {
+      this.markActivity(context, data.length);
+      context.stderrTail = (context.stderrTail + data.toString()).slice(-STDERR_TAIL_LENGTH);
+      this.handleStderrData(context, data);
     });
 
-    this.process.on('error', (error) => {
+    child.on('error', (error: NodeJS.ErrnoException) => {
       this.log.error('Process error', {
-        prompt: prompt,
+        executionId: context.id,
+        prompt: context.prompt,
         error: error.message,
       });
-      reject(error);
+      this.releaseProcess(context);
+      reject(new AgentSpawnError(this.getAgentName(), this.getCommandName(), error));
     });
 
-    this.process.on('exit', (code) => {
-      // Clear timeout on process exit
-      if (this.timeoutId) {
-        clearTimeout(this.timeoutId);
-        this.timeoutId = null;
+    // 'close' fires after stdout/stderr have been fully consumed
+    child.on('close', (code) => {
+      // Clear timers on process exit
+      this.clearExecutionTimers(context);
+      context.closed = true;
+      context.exitCode = code;
+
+      // A terminated group stays tracked until the escalation timer has checked it
+      if (!context.terminated || !isProcessTreeAlive(child)) {
+        this.releaseProcess(context);
+      }
+
+      if (context.terminated) {
+        reject(new AgentTerminatedError(this.getAgentName()));
+        return;
       }
 
-      this.handleProcessExit(code, resolve, reject, prompt);
+      this.handleProcessExit(context, code, resolve, reject);
     });
   }
 
+  /**
+   * Called once the process has been created, before any output arrives
+   *
+   * Subclasses can announce what they know about the run up front, e.g. a
+   * `session_started` event for CLIs that do not report one themselves.
+   *
+   * @param _context - Execution context of this run
+   * @param _args - Command line arguments the process was started with
+   */
+  protected handleProcessStart(_context: ExecutionContext<TState>, _args: string[]): void {}
+
+  /**
+   * Hook called before the command line is built, for setup that needs I/O
+   *
+   * Subclasses can e.g. probe the installed CLI and store what they find in
+   * the run state, so that `buildCommandArgs()` can depend on it.
+   *
+   * @param _context - Execution context of this run
+   * @param _replay - Recording being replayed instead of spawning the CLI, if any
+   */
+  protected async prepareExecution(
+    _context: ExecutionContext<TState>,
+    _replay: Recording | null
+  ): Promise<void> {}
+
+  /**
+   * Hook called once a run has ended, successfully or not, to release what
+   * `prepareExecution()` set up; it may have failed part-way
+   *
+   * @param _context - Execution context of the finished run
+   */
+  protected async finishExecution(_context: ExecutionContext<TState>): Promise<void> {}
+
+  /**
+   * Builds the error for a run that exited unsuccessfully, classifying rate
+   * limit and authentication failures from the stderr tail and reported error
+   *
+   * @param context - Execution context of the failed run
+   * @param exitCode - Exit code of the process
+   * @param reportedError - Error from a structured field of the CLI's output,
+   *   if any; never the model's answer
+   * @returns The most specific AgentExitError subclass
+   */
+  protected createExitError(
+    context: ExecutionContext<TState>,
+    exitCode: number | null,
+    reportedError?: string
+  ): AgentExitError {
+    return classifyExitError(this.getAgentName(), exitCode, context.stderrTail, reportedError);
+  }
+
   // Abstract methods that subclasses must implement
 
   /**
@@ -239,36 +1263,38 @@ export abstract class CLIAgent {
   protected abstract getAgentName(): string;
 
   /**
-   * Returns spawn options for the child process
+   * Creates the subclass-specific state for a new execution
    */
-  protected abstract getSpawnOptions(): any;
+  protected abstract createRunState(): TState;
 
   /**
    * Handles stdout data from the process
    *
+   * @param context - Execution context the data belongs to
    * @param data - Raw stdout data
    */
-  protected abstract handleStdoutData(data: Buffer): void;
+  protected abstract handleStdoutData(context: ExecutionContext<TState>, data: Buffer): void;
 
   /**
    * Handles stderr data from the process
    *
+   * @param context - Execution context the data belongs to
    * @param data - Raw stderr data
    */
-  protected abstract handleStderrData(data: Buffer): void;
+  protected abstract handleStderrData(context: ExecutionContext<TState>, data: Buffer): void;
 
   /**
    * Handles process exit
    *
+   * @param context - Execution context of the finished run
    * @param code - Exit code
    * @param resolve - Promise resolve function
    * @param reject - Promise reject function
-   * @param prompt - Original prompt for logging
    */
   protected abstract handleProcessExit(
+    context: ExecutionContext<TState>,
     code: number | null,
     resolve: (result: string) => void,
-    reject: (error: Error) => void,
-    prompt: string
+    reject: (error: Error) => void
   ): void;
 }
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { AgentExitError } from '../errors.js';
+import type { AgentEvent } from '../events.js';
+import { createRecording, loadRecording, type Recording } from '../recording.js';
+import { Aider } from './main.js';
+
+/**
+ * Path of a recorded Aider run
+ */
+function fixture(name: string): string {
+  return join(__dirname, 'fixtures', `${name}.json`);
+}
+
+const ANSWER = 'German speakers now get „Grüße“ → こんにちは 🚀 instead of "Hello".';
+
+describe('Aider output parsing', () => {
+  it('collects edited files and commits from a recorded edit', async () => {
+    const aider = new Aider({ replayFrom: fixture('edit-with-commit') });
+    const edit = await aider.executeEdit('Greet German speakers in German');
+
+    assert.deepEqual(edit.editedFiles, ['src/greet.ts', 'src/greet.test.ts']);
+    assert.deepEqual(edit.commits, [
+      { hash: '3f9c2ab', message: 'feat: Greet German speakers in German' },
+    ]);
+  });
+
+  it('reports token usage and cost from the status line', async () => {
+    const aider = new Aider({ replayFrom: fixture('edit-with-commit') });
+    const result = await aider.executeDetailed('Greet German speakers in German');
+
+    assert.deepEqual(result.usage, { inputTokens: 2300, outputTokens: 1024 });
+    assert.equal(result.costUsd, 0.02);
+  });
+
+  it('keeps status lines out of the answer and reports them as events', async () => {
+    const aider = new Aider({ replayFrom: fixture('edit-with-commit') });
+    const events: AgentEvent[] = [];
+    for await (const event of aider.executeStream('Greet German speakers in German')) {
+      events.push(event);
+    }
+
+    const result = events.find((event) => event.type === 'result');
+    assert.equal(result?.type === 'result' && result.text, ANSWER);
+    const started = events.find((event) => event.type === 'session_started');
+    assert.equal(
+      started?.type === 'session_started' && started.model,
+      'anthropic/claude-sonnet-4-20250514'
+    );
+    assert.deepEqual(
+      events.flatMap((event) =>
+        event.type === 'progress' ? [(event.data as { path: string }).path] : []
+      ),
+      ['src/greet.ts', 'src/greet.test.ts']
+    );
+  });
+
+  it('keeps characters split across chunks intact', async () => {
+    const recording = await loadRecording(fixture('edit-with-commit'));
+    assert.equal(await new Aider({ replayFrom: recording }).execute('prompt'), ANSWER);
+
+    // Re-chunk the whole output inside every multi-byte character
+    const bytes = Buffer.concat(recording.chunks.map((chunk) => Buffer.from(chunk.data, 'base64')));
+    for (let offset = 1; offset < bytes.length; offset++) {
+      if (((bytes[offset] ?? 0) & 0xc0) !== 0x80) continue;
+      const rechunked: Recording = {
+        ...recording,
+        chunks: [bytes.subarray(0, offset), bytes.subarray(offset)].map((part) => ({
+          stream: 'stdout' as const,
+          offsetMs: 0,
+          data: part.toString('base64'),
+        })),
+      };
+      assert.equal(await new Aider({ replayFrom: rechunked }).execute('prompt'), ANSWER);
+    }
+  });
+
+  it('fails a recorded run that exits with an error', async () => {
+    const aider = new Aider({ replayFrom: fixture('edit-failed') });
+
+    const error = await aider
+      .executeEdit('Greet German speakers in German')
+      .catch((e: unknown) => e);
+    assert.ok(error instanceof AgentExitError);
+    assert.equal(error.exitCode, 1);
+    assert.match(error.message, /exited with code 1: Unable to reach the model provider/);
+  });
+
+  it('fails a run killed by an outside signal instead of returning partial output', async () => {
+    const aider = new Aider({
+      replayFrom: {
+        ...createRecording('Aider', { stdout: ['Applied edit to src/greet.ts\n'] }),
+        exitCode: null,
+        signal: 'SIGKILL',
+      },
+    });
+
+    const error = await aider.executeEdit('prompt').catch((e: unknown) => e);
+    assert.ok(error instanceof AgentExitError);
+    assert.equal(error.exitCode, null);
+    assert.match(error.message, /killed by a signal/);
+  });
+});
@@ -0,0 +1,407 @@
+import { StringDecoder } from 'node:string_decoder';
+import {
+  CLIAgent,
+  type CLIAgentConfig,
+  type ExecuteOptions,
+  type ExecutionContext,
+} from '../agent.js';
+import type { TokenUsage } from '../events.js';
+import type { ExecutionResult } from '../result.js';
+import type { PromptDelivery, PromptTransport } from '../transport.js';
+
+/**
+ * Configuration options for Aider execution
+ */
+export type AiderConfig = CLIAgentConfig & {
+  /** Files added to the chat for editing, relative to `cwd` */
+  readonly files?: readonly string[];
+  /** Files added to the chat as read-only context */
+  readonly readOnlyFiles?: readonly string[];
+  readonly model?: string;
+  /** Whether Aider commits its edits; defaults to true */
+  readonly autoCommits?: boolean;
+};
+
+/**
+ * A commit created by Aider
+ */
+export type AiderCommit = {
+  readonly hash: string;
+  readonly message: string;
+};
+
+/**
+ * Structured outcome of an Aider edit
+ */
+export type AiderEditResult = ExecutionResult & {
+  readonly editedFiles: string[];
+  readonly commits: AiderCommit[];
+};
+
+/**
+ * Per-execution parsing state of Aider
+ */
+type AiderRunState = {
+  pendingLine: string;
+  /** Keeps multi-byte characters split across chunks together */
+  textDecoder: StringDecoder;
+  lines: string[];
+  model: string | null;
+  costUsd: number | null;
+  usage: TokenUsage | null;
+};
+
+/**
+ * Status lines printed by Aider that are not part of the model's answer
+ */
+const STATUS_LINE_PATTERNS: readonly RegExp[] = [
+  /^Aider v\d/,
+  /^(Main|Weak|Editor) model:/,
+  /^Model:/,
+  /^Git repo:/,
+  /^Repo-map:/,
+  /^Added .+ to the chat\.?$/,
+  /^Applied edit to /,
+  /^Commit [0-9a-f]{7,40} /,
+  /^Tokens: /,
+  /^Cost: /,
+  /^Use \/help/,
+  /^https:\/\/aider\.chat\//,
+];
+
+/**
+ * Aider agent class for targeted, git-aware multi-file edits
+ *
+ * Edited files and commits are reported as `edit_file` and `git_commit` tool
+ * calls, and collected by `executeEdit()`.
+ *
+ * @example
+ * ```typescript
+ * const aider = new Aider({ files: ['src/app.ts'] });
+ * const edit = await aider.executeEdit('Add input validation to createUser');
+ * console.log(edit.editedFiles, edit.commits);
+ * ```
+ */
+export class Aider extends CLIAgent<AiderRunState> {
+  private readonly files: readonly string[];
+  private readonly readOnlyFiles: readonly string[];
+  private readonly model: string | undefined;
+  private readonly autoCommits: boolean;
+
+  /**
+   * Creates a new Aider instance
+   *
+   * @param config - Configuration options for Aider execution
+   */
+  constructor(config: AiderConfig = {}) {
+    super('Aider', config);
+    this.files = config.files ?? [];
+    this.readOnlyFiles = config.readOnlyFiles ?? [];
+    this.model = config.model;
+    this.autoCommits = config.autoCommits ?? true;
+  }
+
+  /**
+   * Executes an edit and returns the files Aider changed and the commits it made
+   *
+   * @param message - Edit instructions
+   * @param options - Per-call options such as an AbortSignal
+   * @returns Execution result with edited files and commits
+   */
+  async executeEdit(message: string, options: ExecuteOptions = {}): Promise<AiderEditResult> {
+    const result = await this.executeDetailed(message, options);
+
+    const editedFiles = new Set<string>();
+    const commits: AiderCommit[] = [];
+    for (const call of result.toolCalls) {
+      const input = call.input as Record<string, string> | undefined;
+      if (call.name === 'edit_file' && input?.['path']) {
+        editedFiles.add(input['path']);
+      } else if (call.name === 'git_commit' && input?.['hash']) {
+        commits.push({ hash: input['hash'], message: input['message'] ?? '' });
+      }
+    }
+
+    return { ...result, editedFiles: [...editedFiles], commits };
+  }
+
+  /**
+   * Returns the command name to execute
+   */
+  protected getCommandName(): string {
+    return 'aider';
+  }
+
+  /**
+   * Returns the agent name for logging
+   */
+  protected getAgentName(): string {
+    return 'Aider';
+  }
+
+  /**
+   * Aider takes the message as an argument or a file; it cannot read it from stdin
+   */
+  protected override getSupportedPromptTransports(): readonly PromptTransport[] {
+    return ['file', 'arg'];
+  }
+
+  /**
+   * Returns the prompt transport used when the config does not choose one
+   */
+  protected override getDefaultPromptTransport(): PromptTransport {
+    return 'file';
+  }
+
+  /**
+   * Returns the variables Aider reads its credentials and settings from
+   */
+  protected override getRequiredEnvironment(): readonly string[] {
+    return [
+      'AIDER_*',
+      'OPENAI_*',
+      'ANTHROPIC_*',
+      'GEMINI_*',
+      'OPENROUTER_*',
+      'DEEPSEEK_*',
+      'GIT_*',
+    ];
+  }
+
+  /**
+   * Builds command line arguments for a non-interactive Aider run
+   *
+   * @param delivery - How the prompt is delivered
+   * @returns Array of command line arguments
+   */
+  protected buildCommandArgs(delivery: PromptDelivery): string[] {
+    const args = [
+      '--yes-always',
+      '--no-pretty',
+      '--no-stream',
+      '--no-fancy-input',
+      '--no-check-update',
+      '--no-show-release-notes',
+    ];
+
+    if (delivery.transport === 'file') {
+      args.push('--message-file', delivery.path);
+    } else {
+      // Attached form so messages starting with '-' are not taken as flags
+      args.push(`--message=${delivery.prompt}`);
+    }
+
+    if (this.model) {
+      args.push('--model', this.model);
+    }
+
+    if (!this.autoCommits) {
+      args.push('--no-auto-commits');
+    }
+
+    for (const file of this.readOnlyFiles) {
+      args.push('--read', file);
+    }
+
+    // Add any additional arguments
+    args.push(...this.config.additionalArgs);
+
+    // Files to edit are positional
+    if (this.files.length > 0) {
+      args.push('--', ...this.files);
+    }
+
+    return args;
+  }
+
+  /**
+   * Creates the per-execution parsing state
+   */
+  protected createRunState(): AiderRunState {
+    return {
+      pendingLine: '',
+      textDecoder: new StringDecoder('utf8'),
+      lines: [],
+      model: null,
+      costUsd: null,
+      usage: null,
+    };
+  }
+
+  /**
+   * Handles stdout data from Aider process
+   *
+   * @param context - Execution context the data belongs to
+   * @param data - Raw stdout data
+   */
+  protected handleStdoutData(context: ExecutionContext<AiderRunState>, data: Buffer): void {
+    const output = context.state.textDecoder.write(data);
+    this.log.debug('Received stdout data', {
+      executionId: context.id,
+      dataLength: output.length,
+      content: output,
+    });
+
+    const lines = (context.state.pendingLine + output).split('\n');
+    context.state.pendingLine = lines.pop() ?? '';
+
+    for (const line of lines) {
+      this.parseAiderLine(context, line);
+    }
+  }
+
+  /**
+   * Handles stderr data from Aider process
+   *
+   * @param context - Execution context the data belongs to
+   * @param data - Raw stderr data
+   */
+  protected handleStderrData(context: ExecutionContext<AiderRunState>, data: Buffer): void {
+    this.log.debug('Received stderr data', {
+      executionId: context.id,
+      content: data.toString().trim(),
+    });
+  }
+
+  /**
+   * Handles process exit
+   *
+   * @param context - Execution context of the finished run
+   * @param code - Exit code
+   * @param resolve - Promise resolve function
+   * @param reject - Promise reject function
+   */
+  protected handleProcessExit(
+    context: ExecutionContext<AiderRunState>,
+    code: number | null,
+    resolve: (result: string) => void,
+    reject: (error: Error) => void
+  ): void {
+    const { state } = context;
+    state.pendingLine += state.textDecoder.end();
+
+    // Process a trailing line that was not newline-terminated
+    if (state.pendingLine) {
+      this.parseAiderLine(context, state.pendingLine);
+      state.pendingLine = '';
+    }
+
+    // Null when an outside signal killed Aider; cancellations and timeouts never get here
+    const exitCode = code;
+    const result = state.lines.join('\n').trim();
+
+    this.log.debug('Process exited', {
+      executionId: context.id,
+      exitCode,
+      resultLength: result.length,
+    });
+
+    if (exitCode === 0) {
+      this.log.info('Aider execution completed successfully', {
+        prompt: context.prompt,
+        resultLength: result.length,
+      });
+      this.emit(context, {
+        type: 'result',
+        text: result,
+        isError: false,
+        ...(state.costUsd !== null && { costUsd: state.costUsd }),
+        ...(state.usage && { usage: state.usage }),
+      });
+      resolve(result);
+    } else {
+      // Aider reports no structured errors; its stdout is the model's answer
+      const error = this.createExitError(context, exitCode);
+      this.log.error('Aider execution failed', {
+        prompt: context.prompt,
+        exitCode,
+        error: error.message,
+      });
+      reject(error);
+    }
+  }
+
+  /**
+   * Parses a single line of Aider output into events and answer text
+   *
+   * @param context - Execution context the line belongs to
+   * @param line - One line of stdout
+   */
+  private parseAiderLine(context: ExecutionContext<AiderRunState>, line: string): void {
+    const { state } = context;
+    const trimmed = line.trim();
+
+    const modelMatch = trimmed.match(/^(?:Main model|Model): (\S+)/);
+    if (modelMatch?.[1] && !state.model) {
+      state.model = modelMatch[1];
+      this.emit(context, { type: 'session_started', model: state.model, cwd: context.cwd });
+    }
+
+    const addedMatch = trimmed.match(/^Added (.+) to the chat\.?$/);
+    if (addedMatch?.[1]) {
+      this.emit(context, {
+        type: 'progress',
+        message: 'Aider added a file to the chat',
+        data: { path: addedMatch[1] },
+      });
+    }
+
+    const editMatch = trimmed.match(/^Applied edit to (.+)$/);
+    if (editMatch?.[1]) {
+      this.log.debug('Aider edited a file', { path: editMatch[1] });
+      this.emitTool(context, 'edit_file', { path: editMatch[1] });
+    }
+
+    const commitMatch = trimmed.match(/^Commit ([0-9a-f]{7,40}) (.*)$/);
+    if (commitMatch?.[1]) {
+      this.log.debug('Aider created a commit', { hash: commitMatch[1] });
+      this.emitTool(context, 'git_commit', { hash: commitMatch[1], message: commitMatch[2] ?? '' });
+    }
+
+    const tokensMatch = trimmed.match(/^Tokens: ([\d.,]+k?) sent.*?, ([\d.,]+k?) received/);
+    if (tokensMatch?.[1] && tokensMatch[2]) {
+      state.usage = {
+        inputTokens: this.parseTokenCount(tokensMatch[1]),
+        outputTokens: this.parseTokenCount(tokensMatch[2]),
+      };
+    }
+
+    const costMatch = trimmed.match(/Cost: \$([\d.]+) message, \$([\d.]+) session/);
+    if (costMatch?.[1]) {
+      state.costUsd = Number.parseFloat(costMatch[1]);
+    }
+
+    if (!STATUS_LINE_PATTERNS.some((pattern) => pattern.test(trimmed))) {
+      state.lines.push(line);
+      if (trimmed) {
+        this.emit(context, { type: 'text_delta', text: `${line}\n` });
+      }
+    }
+  }
+
+  /**
+   * Reports a completed Aider action as a tool call with its result
+   *
+   * @param context - Execution context the action belongs to
+   * @param name - Tool name
+   * @param input - Action details
+   */
+  private emitTool(
+    context: ExecutionContext<AiderRunState>,
+    name: string,
+    input: Record<string, string>
+  ): void {
+    this.emit(context, { type: 'tool_call', name, input });
+    this.emit(context, { type: 'tool_result', isError: false });
+  }
+
+  /**
+   * Converts token counts such as `2.3k` or `1,024` to numbers
+   */
+  private parseTokenCount(value: string): number {
+    const normalized = value.replace(/,/g, '');
+    return normalized.endsWith('k')
+      ? Math.round(Number.parseFloat(normalized) * 1000)
+      : Number.parseInt(normalized, 10);
+  }
+}
@@ -0,0 +1,274 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  AgentAuthError,
+  AgentConfigError,
+  AgentExitError,
+  AgentParseError,
+  AgentRateLimitError,
+} from '../errors.js';
+import { type AgentProcess, createRecording, type Recording, ReplayProcess } from '../recording.js';
+import { ClaudeCode, type ClaudeConfig } from './main.js';
+
+/**
+ * Builds a stream-json recording from events, one line per event
+ */
+function streamRecording(
+  events: readonly unknown[],
+  options: { readonly exitCode?: number; readonly stderr?: string } = {}
+): Recording {
+  return createRecording('Claude Code', {
+    stdout: events.map((event) => `${JSON.stringify(event)}\n`),
+    ...(options.stderr !== undefined && { stderr: [options.stderr] }),
+    ...(options.exitCode !== undefined && { exitCode: options.exitCode }),
+  });
+}
+
+const SESSION = [
+  {
+    type: 'system',
+    subtype: 'init',
+    session_id: 'session-1',
+    model: 'claude-test',
+    cwd: '/work',
+    tools: ['Read', 'Bash'],
+  },
+  {
+    type: 'assistant',
+    message: {
+      id: 'msg-1',
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Checking the files.' },
+        { type: 'tool_use', id: 'tool-1', name: 'Bash', input: { command: 'ls' } },
+      ],
+    },
+  },
+  {
+    type: 'user',
+    message: {
+      id: 'msg-2',
+      role: 'user',
+      content: [
+        {
+          type: 'tool_result',
+          tool_use_id: 'tool-1',
+          content: [{ type: 'text', text: 'a.ts' }],
+        },
+      ],
+    },
+  },
+  {
+    type: 'result',
+    subtype: 'success',
+    is_error: false,
+    result: 'There is one file.',
+    session_id: 'session-1',
+    duration_ms: 1200,
+    total_cost_usd: 0.01,
+    usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 2 },
+  },
+];
+
+describe('ClaudeCode stream-json parsing', () => {
+  it('returns the result and reports session, tools and usage', async () => {
+    const claude = new ClaudeCode({ replayFrom: streamRecording(SESSION) });
+    const result = await claude.executeDetailed('List the files');
+
+    assert.equal(result.text, 'There is one file.');
+    assert.equal(result.sessionId, 'session-1');
+    assert.equal(result.model, 'claude-test');
+    assert.equal(result.costUsd, 0.01);
+    assert.deepEqual(result.usage, { inputTokens: 10, outputTokens: 5, cachedInputTokens: 2 });
+    assert.equal(result.toolCalls.length, 1);
+    assert.equal(result.toolCalls[0]?.name, 'Bash');
+    assert.equal(result.toolCalls[0]?.output, 'a.ts');
+    assert.equal(result.toolCalls[0]?.completed, true);
+  });
+
+  it('decodes events split across chunks at any byte', async () => {
+    const bytes = Buffer.from(SESSION.map((event) => `${JSON.stringify(event)}\n`).join(''));
+    const recording: Recording = {
+      ...createRecording('Claude Code', {}),
+      chunks: Array.from({ length: Math.ceil(bytes.length / 7) }, (_, i) => ({
+        stream: 'stdout' as const,
+        offsetMs: 0,
+        data: bytes.subarray(i * 7, i * 7 + 7).toString('base64'),
+      })),
+    };
+
+    const claude = new ClaudeCode({ replayFrom: recording });
+    assert.equal(await claude.execute('List the files'), 'There is one file.');
+  });
+
+  it('prefers structured output from a schema-constrained result', async () => {
+    const claude = new ClaudeCode({
+      replayFrom: streamRecording([
+        { type: 'result', is_error: false, result: 'ignored', structured_output: { ok: true } },
+      ]),
+    });
+
+    assert.equal(await claude.execute('prompt'), '{"ok":true}');
+  });
+
+  it('falls back to the last assistant text without a result event', async () => {
+    const claude = new ClaudeCode({ replayFrom: streamRecording(SESSION.slice(0, 2)) });
+
+    assert.equal(await claude.execute('prompt'), 'Checking the files.');
+  });
+
+  it('skips malformed lines and keeps the valid events', async () => {
+    const recording = createRecording('Claude Code', {
+      stdout: ['not json\n', '{"type": \n', `${JSON.stringify(SESSION[3])}\n`],
+    });
+    const claude = new ClaudeCode({ replayFrom: recording });
+
+    assert.equal(await claude.execute('prompt'), 'There is one file.');
+  });
+
+  it('fails with AgentParseError when no event can be decoded', async () => {
+    const claude = new ClaudeCode({
+      replayFrom: createRecording('Claude Code', { stdout: ['Usage: claude [options]\n'] }),
+    });
+
+    const error = await claude.execute('prompt').catch((e: unknown) => e);
+    assert.ok(error instanceof AgentParseError);
+    assert.match(error.outputPreview, /Usage: claude/);
+  });
+
+  it('fails with an exit error for a non-zero exit code', async () => {
+    const claude = new ClaudeCode({
+      replayFrom: streamRecording([SESSION[0]], { exitCode: 1, stderr: 'crashed\n' }),
+    });
+
+    const error = await claude.execute('prompt').catch((e: unknown) => e);
+    assert.ok(error instanceof AgentExitError);
+    assert.equal(error.exitCode, 1);
+    assert.equal(error.stderrTail, 'crashed\n');
+  });
+
+  it('classifies a failed run by its error result', async () => {
+    const claude = new ClaudeCode({
+      replayFrom: streamRecording(
+        [
+          {
+            type: 'result',
+            subtype: 'success',
+            is_error: true,
+            result: 'Invalid API key · Please run /login',
+          },
+        ],
+        { exitCode: 1 }
+      ),
+    });
+
+    const error = await claude.execute('prompt').catch((e: unknown) => e);
+    assert.ok(error instanceof AgentAuthError);
+    assert.match(error.message, /Invalid API key/);
+  });
+
+  it('does not classify a failed run by the words of the answer', async () => {
+    const answer = 'A 429 means rate limit exceeded; a 401 means authentication failed.';
+    const claude = new ClaudeCode({
+      replayFrom: streamRecording(
+        [{ type: 'result', subtype: 'success', is_error: false, result: answer }],
+        { exitCode: 1, stderr: 'Error: process crashed\n' }
+      ),
+    });
+
+    const error = await claude.execute('prompt').catch((e: unknown) => e);
+    assert.ok(error instanceof AgentExitError);
+    assert.ok(!(error instanceof AgentRateLimitError) && !(error instanceof AgentAuthError));
+    assert.match(error.message, /process crashed/);
+  });
+
+  it('rejects conflicting permission options', () => {
+    assert.throws(
+      () => new ClaudeCode({ permissionProfile: 'read-only', allowedTools: ['Bash'] }),
+      AgentConfigError
+    );
+    assert.throws(() => new ClaudeCode({ additionalArgs: ['--model=x'] }), AgentConfigError);
+  });
+});
+
+/**
+ * Claude Code that records its command line instead of running the CLI
+ */
+class ArgsRecordingClaude extends ClaudeCode {
+  args: string[] = [];
+
+  protected override createProcess(_context: unknown, args: string[]): AgentProcess {
+    this.args = args;
+    return new ReplayProcess(streamRecording([{ type: 'result', result: 'ok' }]));
+  }
+}
+
+/**
+ * Returns the command line Claude Code is started with for a config
+ */
+async function commandArgs(config: ClaudeConfig, prompt = 'prompt'): Promise<string[]> {
+  const claude = new ArgsRecordingClaude(config);
+  await claude.execute(prompt);
+  return claude.args;
+}
+
+/**
+ * Returns the value following a flag, or undefined if the flag is absent
+ */
+function flagValue(args: readonly string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+describe('ClaudeCode command line', () => {
+  it('skips permission prompts with the default full profile', async () => {
+    const args = await commandArgs({});
+
+    assert.deepEqual(args.slice(0, 4), ['--print', '--output-format', 'stream-json', '--verbose']);
+    assert.ok(args.includes('--dangerously-skip-permissions'));
+    assert.equal(flagValue(args, '--permission-mode'), undefined);
+    assert.equal(flagValue(args, '--allowedTools'), undefined);
+  });
+
+  it('allows only reading tools with the read-only profile', async () => {
+    const args = await commandArgs({ permissionProfile: 'read-only' });
+
+    assert.ok(!args.includes('--dangerously-skip-permissions'));
+    assert.equal(flagValue(args, '--permission-mode'), 'default');
+    assert.equal(flagValue(args, '--allowedTools'), 'Read,Glob,Grep,LS,WebFetch,WebSearch');
+    assert.equal(flagValue(args, '--disallowedTools'), 'Edit,MultiEdit,Write,NotebookEdit,Bash');
+  });
+
+  it('accepts edits and adds configured tools with the edit-in-cwd profile', async () => {
+    const args = await commandArgs({
+      permissionProfile: 'edit-in-cwd',
+      allowedTools: ['Bash(npm test)', 'Read'],
+    });
+
+    assert.ok(!args.includes('--dangerously-skip-permissions'));
+    assert.equal(flagValue(args, '--permission-mode'), 'acceptEdits');
+    assert.equal(
+      flagValue(args, '--allowedTools'),
+      'Read,Glob,Grep,LS,WebFetch,WebSearch,Edit,MultiEdit,Write,NotebookEdit,Bash(npm test)'
+    );
+    assert.equal(flagValue(args, '--disallowedTools'), undefined);
+  });
+
+  it('passes the turn limit and MCP config', async () => {
+    const mcpConfig = { mcpServers: { docs: { command: 'docs-server' } } };
+    const args = await commandArgs({ maxTurns: 5, mcpConfig });
+
+    assert.equal(flagValue(args, '--max-turns'), '5');
+    assert.deepEqual(JSON.parse(flagValue(args, '--mcp-config') ?? ''), mcpConfig);
+    assert.equal(
+      flagValue(await commandArgs({ mcpConfig: '.mcp.json' }), '--mcp-config'),
+      '.mcp.json'
+    );
+  });
+
+  it('ends option parsing before a prompt passed as an argument', async () => {
+    const args = await commandArgs({ promptTransport: 'arg' }, '--help me');
+
+    assert.deepEqual(args.slice(-2), ['--', '--help me']);
+  });
+});
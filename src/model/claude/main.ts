@@ -1,4 +1,8 @@
-import { CLIAgent, type CLIAgentConfig } from '../agent.js';
+import { CLIAgent, type CLIAgentConfig, type ExecutionContext } from '../agent.js';
+import { AgentConfigError, AgentParseError } from '../errors.js';
+import { NdjsonDecoder, type NdjsonWarning } from '../ndjson.js';
+import { AgentSession, type AgentSessionOptions } from '../session.js';
+import type { PromptDelivery } from '../transport.js';
 
 /**
  * Claude log event types based on LOG_STRUCT.md
@@ -15,24 +19,131 @@ export type LogEvent = {
     readonly role: string;
     readonly content: Array<{
       readonly type: 'text' | 'tool_use' | 'tool_result';
+      readonly id?: string;
       readonly text?: string;
       readonly name?: string;
       readonly input?: any;
       readonly tool_use_id?: string;
-      readonly content?: string;
+      /** Tool results are either plain text or a list of content blocks */
+      readonly content?: string | Array<{ readonly type: string; readonly text?: string }>;
+      readonly is_error?: boolean;
     }>;
   };
   readonly duration_ms?: number;
   readonly is_error?: boolean;
   readonly total_cost_usd?: number;
+  readonly usage?: {
+    readonly input_tokens?: number;
+    readonly output_tokens?: number;
+    readonly cache_read_input_tokens?: number;
+  };
   readonly result?: string;
+  /** Answer as a JSON value, when a `--json-schema` was given */
+  readonly structured_output?: unknown;
   readonly [key: string]: any;
 };
 
+/**
+ * Named permission setups for Claude Code
+ *
+ * - `read-only`: research and review; file reads and web access only
+ * - `edit-in-cwd`: file edits in the working directory are accepted, shell
+ *   commands need to be allowed explicitly through `allowedTools`
+ * - `full`: all permission checks are skipped (`--dangerously-skip-permissions`)
+ */
+export type ClaudePermissionProfile = 'read-only' | 'edit-in-cwd' | 'full';
+
+/**
+ * Flags a permission profile maps to
+ */
+type PermissionProfileFlags = {
+  readonly permissionMode?: 'default' | 'acceptEdits';
+  readonly skipPermissions?: boolean;
+  readonly allowedTools?: readonly string[];
+  readonly disallowedTools?: readonly string[];
+};
+
+/**
+ * Tools that read files or the web without changing anything
+ */
+const READ_TOOLS: readonly string[] = ['Read', 'Glob', 'Grep', 'LS', 'WebFetch', 'WebSearch'];
+
+/**
+ * Tools that modify files or run commands
+ */
+const WRITE_TOOLS: readonly string[] = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit', 'Bash'];
+
+/**
+ * Flags of each permission profile
+ */
+export const CLAUDE_PERMISSION_PROFILES: Readonly<
+  Record<ClaudePermissionProfile, PermissionProfileFlags>
+> = {
+  'read-only': {
+    permissionMode: 'default',
+    allowedTools: READ_TOOLS,
+    disallowedTools: WRITE_TOOLS,
+  },
+  'edit-in-cwd': {
+    permissionMode: 'acceptEdits',
+    allowedTools: [...READ_TOOLS, 'Edit', 'MultiEdit', 'Write', 'NotebookEdit'],
+  },
+  full: { skipPermissions: true },
+};
+
+/**
+ * Flags set by typed ClaudeConfig options, which must not also appear in `additionalArgs`
+ */
+const TYPED_FLAGS: readonly string[] = [
+  '--model',
+  '--append-system-prompt',
+  '--allowedTools',
+  '--allowed-tools',
+  '--disallowedTools',
+  '--disallowed-tools',
+  '--max-turns',
+  '--mcp-config',
+  '--permission-mode',
+  '--dangerously-skip-permissions',
+];
+
 /**
  * Configuration options for Claude Code execution
  */
-export type ClaudeConfig = CLIAgentConfig;
+export type ClaudeConfig = CLIAgentConfig & {
+  readonly model?: string;
+  /** Text appended to Claude Code's default system prompt */
+  readonly appendSystemPrompt?: string;
+  /** Tool rules to allow, e.g. `Read` or `Bash(git diff:*)`; added to the profile's */
+  readonly allowedTools?: readonly string[];
+  /** Tool rules to deny; added to the profile's */
+  readonly disallowedTools?: readonly string[];
+  readonly maxTurns?: number;
+  /** Path of an MCP server config file, or the config itself */
+  readonly mcpConfig?: string | Readonly<Record<string, unknown>>;
+  /** Defaults to `full` */
+  readonly permissionProfile?: ClaudePermissionProfile;
+};
+
+/**
+ * Per-execution parsing state of Claude Code
+ */
+type ClaudeRunState = {
+  decoder: NdjsonDecoder<LogEvent>;
+  /** Start of stdout, kept for parse error reports */
+  outputPreview: string;
+  result: string;
+  /** Error reported by an `is_error` result event, for exit error classification */
+  error: string;
+  eventCount: number;
+  /** Whether the last emitted activity was text, so the next text block needs a separator */
+  afterText: boolean;
+};
+
+/**
+ * Number of stdout characters kept for parse error reports
+ */
+const OUTPUT_PREVIEW_LENGTH = 500;
 
 /**
  * Claude Code agent class for executing prompts and managing sessions
@@ -44,17 +155,65 @@ export type ClaudeConfig = CLIAgentConfig;
  * console.log(result);
  * ```
  */
-export class ClaudeCode extends CLIAgent {
-  private buffer = '';
-  private result = '';
+export class ClaudeCode extends CLIAgent<ClaudeRunState> {
+  private readonly model: string | undefined;
+  private readonly appendSystemPrompt: string | undefined;
+  private readonly allowedTools: readonly string[];
+  private readonly disallowedTools: readonly string[];
+  private readonly maxTurns: number | undefined;
+  private readonly mcpConfig: string | undefined;
+  private readonly permissionProfile: ClaudePermissionProfile;
 
   /**
    * Creates a new Claude Code instance
    *
    * @param config - Configuration options for Claude execution
+   * @throws AgentConfigError if options conflict with each other
    */
   constructor(config: ClaudeConfig = {}) {
     super('ClaudeCode', config);
+
+    this.permissionProfile = config.permissionProfile ?? 'full';
+    const profile = CLAUDE_PERMISSION_PROFILES[this.permissionProfile];
+    if (!profile) {
+      throw new AgentConfigError(
+        this.getAgentName(),
+        `Unknown permission profile '${this.permissionProfile}' (expected one of ${Object.keys(CLAUDE_PERMISSION_PROFILES).join(', ')})`
+      );
+    }
+
+    this.model = config.model;
+    this.appendSystemPrompt = config.appendSystemPrompt;
+    this.allowedTools = unique([...(profile.allowedTools ?? []), ...(config.allowedTools ?? [])]);
+    this.disallowedTools = unique([
+      ...(profile.disallowedTools ?? []),
+      ...(config.disallowedTools ?? []),
+    ]);
+    this.maxTurns = config.maxTurns;
+    this.mcpConfig =
+      config.mcpConfig === undefined || typeof config.mcpConfig === 'string'
+        ? config.mcpConfig
+        : JSON.stringify(config.mcpConfig);
+
+    this.validateOptions(config);
+  }
+
+  /**
+   * Starts a multi-turn conversation; follow-up prompts resume the same Claude session
+   *
+   * @param options - Store and key to persist the session under, or a session to continue
+   * @returns Session whose `send()` runs one turn
+   *
+   * @example
+   * ```typescript
+   * const session = claude.createSession({ store, key: 'implement-auth' });
+   * await session.send('Implement the login endpoint');
+   * // Later, possibly in another process:
+   * await claude.createSession({ store, key: 'implement-auth' }).send('Fix the review comments');
+   * ```
+   */
+  createSession(options: AgentSessionOptions = {}): AgentSession {
+    return new AgentSession(this, options);
   }
 
   /**
@@ -74,195 +233,246 @@ export class ClaudeCode extends CLIAgent {
   /**
    * Builds command line arguments for Claude Code execution
    *
-   * @param prompt - The prompt to execute
+   * With `--print`, Claude reads the prompt from stdin when none is given as an argument.
+   *
+   * @param delivery - How the prompt is delivered
+   * @param context - Execution context carrying the session to resume, if any
    * @returns Array of command line arguments
    */
-  protected buildCommandArgs(prompt: string): string[] {
-    const escapedPrompt = this.escapePrompt(prompt);
-
-    const args = [
-      escapedPrompt,
-      '--dangerously-skip-permissions',
-      '--print',
-      '--output-format',
-      'stream-json',
-      '--verbose',
-    ];
+  protected buildCommandArgs(
+    delivery: PromptDelivery,
+    context: ExecutionContext<ClaudeRunState>
+  ): string[] {
+    const args = ['--print', '--output-format', 'stream-json', '--verbose'];
+
+    const profile = CLAUDE_PERMISSION_PROFILES[this.permissionProfile];
+    if (profile.skipPermissions) {
+      args.push('--dangerously-skip-permissions');
+    }
+    if (profile.permissionMode) {
+      args.push('--permission-mode', profile.permissionMode);
+    }
+    if (this.allowedTools.length > 0) {
+      args.push('--allowedTools', this.allowedTools.join(','));
+    }
+    if (this.disallowedTools.length > 0) {
+      args.push('--disallowedTools', this.disallowedTools.join(','));
+    }
+
+    if (this.model) {
+      args.push('--model', this.model);
+    }
+    if (this.appendSystemPrompt) {
+      args.push('--append-system-prompt', this.appendSystemPrompt);
+    }
+    if (this.maxTurns !== undefined) {
+      args.push('--max-turns', String(this.maxTurns));
+    }
+    if (this.mcpConfig) {
+      args.push('--mcp-config', this.mcpConfig);
+    }
+
+    const { outputSchema, resume } = context.options;
+    if (outputSchema) {
+      args.push('--json-schema', JSON.stringify(outputSchema.schema));
+    }
+    if (resume === 'latest') {
+      args.push('--continue');
+    } else if (resume !== undefined) {
+      args.push('--resume', resume);
+    }
 
     // Add any additional arguments
     args.push(...this.config.additionalArgs);
 
+    if (delivery.transport === 'arg') {
+      // Terminate option parsing so prompts starting with '-' are not taken as flags
+      args.push('--', delivery.prompt);
+    }
+
     return args;
   }
 
   /**
-   * Returns spawn options for the child process
+   * Rejects option combinations that Claude Code would not apply as intended
+   *
+   * @param config - Configuration passed to the constructor
+   * @throws AgentConfigError listing every conflict found
    */
-  protected getSpawnOptions(): any {
+  private validateOptions(config: ClaudeConfig): void {
+    const problems: string[] = [];
+
+    const both = this.allowedTools.filter((tool) => this.disallowedTools.includes(tool));
+    if (both.length > 0) {
+      problems.push(`tools both allowed and disallowed: ${both.join(', ')}`);
+    }
+
+    if (this.permissionProfile === 'read-only') {
+      const writers = (config.allowedTools ?? []).filter((tool) =>
+        WRITE_TOOLS.includes(toolName(tool))
+      );
+      if (writers.length > 0) {
+        problems.push(`the read-only profile cannot allow ${writers.join(', ')}`);
+      }
+    }
+
+    if (this.maxTurns !== undefined && (!Number.isInteger(this.maxTurns) || this.maxTurns < 1)) {
+      problems.push(`maxTurns must be a positive integer, got ${this.maxTurns}`);
+    }
+
+    const smuggled = this.config.additionalArgs.filter((arg) =>
+      TYPED_FLAGS.includes(arg.split('=')[0] ?? arg)
+    );
+    if (smuggled.length > 0) {
+      problems.push(
+        `${smuggled.join(', ')} in additionalArgs conflicts with the typed options; use model, appendSystemPrompt, allowedTools, disallowedTools, maxTurns, mcpConfig or permissionProfile instead`
+      );
+    }
+
+    if (problems.length > 0) {
+      throw new AgentConfigError(
+        this.getAgentName(),
+        `Invalid Claude Code config: ${problems.join('; ')}`
+      );
+    }
+  }
+
+  /**
+   * Claude Code continues sessions with `--resume` and `--continue`
+   */
+  protected override supportsSessionResume(): boolean {
+    return true;
+  }
+
+  /**
+   * Claude Code enforces an output schema with `--json-schema`
+   */
+  protected override supportsOutputSchema(): boolean {
+    return true;
+  }
+
+  /**
+   * Returns the variables Claude Code reads its credentials and settings from
+   */
+  protected override getRequiredEnvironment(): readonly string[] {
+    return ['ANTHROPIC_*', 'CLAUDE_*', 'AWS_*', 'CLOUD_ML_REGION'];
+  }
+
+  /**
+   * Creates the per-execution parsing state
+   */
+  protected createRunState(): ClaudeRunState {
     return {
-      stdio: ['inherit', 'pipe', 'pipe'],
-      shell: true,
+      decoder: new NdjsonDecoder<LogEvent>({
+        onWarning: (warning) => this.reportMalformedLine(warning),
+      }),
+      outputPreview: '',
+      result: '',
+      error: '',
+      eventCount: 0,
+      afterText: false,
     };
   }
 
   /**
    * Handles stdout data from Claude process
    *
+   * @param context - Execution context the data belongs to
    * @param data - Raw stdout data
    */
-  protected handleStdoutData(data: Buffer): void {
-    const dataString = data.toString();
-    this.buffer += dataString;
+  protected handleStdoutData(context: ExecutionContext<ClaudeRunState>, data: Buffer): void {
+    const { state } = context;
+    if (state.outputPreview.length < OUTPUT_PREVIEW_LENGTH) {
+      state.outputPreview = (state.outputPreview + data.toString()).slice(0, OUTPUT_PREVIEW_LENGTH);
+    }
 
     this.log.debug('Received stdout data', {
-      dataLength: dataString.length,
-      bufferLength: this.buffer.length,
-      content: dataString,
+      executionId: context.id,
+      dataLength: data.length,
     });
 
-    // Try to parse JSON objects from buffer - both single line and multi-line
-    this.processJsonFromBuffer();
-  }
-
-  /**
-   * Processes JSON objects from the buffer, handling both single-line and multi-line JSON
-   */
-  private processJsonFromBuffer(): void {
-    const lines = this.buffer.split('\\n');
-    let lineIndex = 0;
-    
-    while (lineIndex < lines.length) {
-      const currentLine = lines[lineIndex];
-      if (currentLine === undefined) {
-        lineIndex++;
-        continue;
-      }
-      const line = currentLine.trim();
-      
-      if (!line) {
-        lineIndex++;
-        continue;
-      }
-      
-      // Try to parse as single-line JSON first
-      if (line.startsWith('{')) {
-        try {
-          // Check if it's a complete single-line JSON
-          JSON.parse(line);
-          this.parseClaudeOutput(line);
-          lineIndex++;
-          continue;
-        } catch {
-          // Not a complete single-line JSON, try multi-line parsing
-          const multiLineResult = this.tryParseMultiLineJson(lines, lineIndex);
-          if (multiLineResult.success) {
-            this.parseClaudeOutput(multiLineResult.json!);
-            lineIndex = multiLineResult.endIndex! + 1;
-            continue;
-          }
-        }
-      }
-      
-      lineIndex++;
+    for (const event of state.decoder.write(data)) {
+      this.handleClaudeEvent(context, event);
     }
-    
-    // Keep unprocessed lines in buffer
-    this.buffer = lines.slice(lineIndex).join('\\n');
   }
 
   /**
-   * Attempts to parse multi-line JSON starting from a given line index
+   * Logs a stream-json line that could not be decoded
+   *
+   * @param warning - Decoder warning for the skipped line
    */
-  private tryParseMultiLineJson(lines: string[], startIndex: number): {
-    success: boolean;
-    json?: string;
-    endIndex?: number;
-  } {
-    let braceCount = 0;
-    let jsonLines: string[] = [];
-    
-    for (let i = startIndex; i < lines.length; i++) {
-      const line = lines[i];
-      if (line === undefined) continue;
-      jsonLines.push(line);
-      
-      // Count braces to determine JSON boundaries
-      for (const char of line) {
-        if (char === '{') braceCount++;
-        if (char === '}') braceCount--;
-      }
-      
-      // If braces are balanced, try to parse
-      if (braceCount === 0 && jsonLines.length > 0) {
-        const potentialJson = jsonLines.join('\\n').trim();
-        try {
-          JSON.parse(potentialJson);
-          return {
-            success: true,
-            json: potentialJson,
-            endIndex: i
-          };
-        } catch {
-          // Continue searching
-        }
-      }
-      
-      // Prevent infinite parsing for malformed JSON
-      if (jsonLines.length > 100) {
-        break;
-      }
-    }
-    
-    return { success: false };
+  private reportMalformedLine(warning: NdjsonWarning): void {
+    this.log.warn('Skipped malformed Claude output line', {
+      kind: warning.kind,
+      line: warning.line,
+      error: warning.message,
+      preview: warning.preview,
+    });
   }
 
   /**
    * Handles stderr data from Claude process
    *
+   * @param context - Execution context the data belongs to
    * @param data - Raw stderr data
    */
-  protected handleStderrData(data: Buffer): void {
+  protected handleStderrData(context: ExecutionContext<ClaudeRunState>, data: Buffer): void {
     const errorMessage = data.toString();
-    this.log.error('Process stderr', { message: errorMessage.trim() });
+    this.log.error('Process stderr', { executionId: context.id, message: errorMessage.trim() });
   }
 
   /**
    * Handles process exit
    *
+   * @param context - Execution context of the finished run
    * @param code - Exit code
    * @param resolve - Promise resolve function
    * @param reject - Promise reject function
-   * @param prompt - Original prompt for logging
    */
   protected handleProcessExit(
+    context: ExecutionContext<ClaudeRunState>,
     code: number | null,
     resolve: (result: string) => void,
-    reject: (error: Error) => void,
-    prompt: string
+    reject: (error: Error) => void
   ): void {
-    // Process any remaining data in buffer
-    if (this.buffer.trim()) {
-      this.parseClaudeOutput(this.buffer);
+    const { state } = context;
+
+    // Process a final line that was not newline-terminated
+    for (const event of state.decoder.end()) {
+      this.handleClaudeEvent(context, event);
     }
 
     const exitCode = code || 0;
 
     this.log.debug('Process exited', {
+      executionId: context.id,
       exitCode,
-      resultLength: this.result.length,
-      resultPreview: this.result.substring(0, 200),
+      resultLength: state.result.length,
+      resultPreview: state.result.substring(0, 200),
     });
 
-    if (exitCode === 0) {
+    if (exitCode === 0 && state.eventCount === 0) {
+      const error = new AgentParseError(
+        this.getAgentName(),
+        'Claude produced no parseable stream-json output',
+        state.outputPreview
+      );
+      this.log.error('Claude execution failed', {
+        prompt: context.prompt,
+        error: error.message,
+        outputPreview: error.outputPreview,
+      });
+      reject(error);
+    } else if (exitCode === 0) {
       this.log.info('Claude execution completed successfully', {
-        prompt: prompt,
-        resultLength: this.result.length,
+        prompt: context.prompt,
+        resultLength: state.result.length,
       });
-      resolve(this.result);
+      resolve(state.result);
     } else {
-      const error = new Error(`Claude process exited with code ${exitCode}`);
+      const error = this.createExitError(context, exitCode, state.error);
       this.log.error('Claude execution failed', {
-        prompt: prompt,
+        prompt: context.prompt,
         exitCode: exitCode,
         error: error.message,
       });
@@ -271,56 +481,70 @@ export class ClaudeCode extends CLIAgent {
   }
 
   /**
-   * Parses Claude output and handles logging
+   * Captures the result from a decoded Claude event and handles logging
    *
-   * @param data - Raw output data from Claude
+   * @param context - Execution context the event belongs to
+   * @param event - Decoded stream-json line
    */
-  private parseClaudeOutput(data: string): void {
-    try {
-      const event: LogEvent = JSON.parse(data);
-
-      this.log.debug('Parsed Claude event', {
-        type: event.type,
-        subtype: event.subtype,
-        hasResult: !!event.result,
-        resultPreview: event.result ? event.result.substring(0, 100) : 'no result',
+  private handleClaudeEvent(context: ExecutionContext<ClaudeRunState>, event: LogEvent): void {
+    if (typeof event !== 'object' || event === null || typeof event.type !== 'string') {
+      this.log.warn('Skipped Claude output line that is not an event', {
+        preview: JSON.stringify(event).substring(0, 100),
       });
+      return;
+    }
 
-      // Capture result from both 'result' events and 'assistant' message content
-      if (event.type === 'result' && event.result) {
-        this.result = event.result;
-        this.log.debug('Captured result from result event', { resultLength: this.result.length });
-      } else if (event.type === 'assistant' && event.message?.content) {
-        // Extract text content from assistant messages
-        for (const content of event.message.content) {
-          if (content.type === 'text' && content.text) {
-            this.result = content.text;
-            this.log.debug('Captured result from assistant message', { 
-              resultLength: this.result.length,
-              preview: this.result.substring(0, 200)
-            });
-            break; // Take the first text content
-          }
-        }
-      }
+    context.state.eventCount++;
+
+    this.log.debug('Parsed Claude event', {
+      type: event.type,
+      subtype: event.subtype,
+      hasResult: !!event.result,
+      resultPreview: event.result ? event.result.substring(0, 100) : 'no result',
+    });
 
-      // Log Claude activity with structured logging
-      this.logClaudeActivity(event);
-    } catch (error) {
-      // Only log JSON parse errors at trace level to reduce noise
-      this.log.trace('Failed to parse Claude output', {
-        data: data.substring(0, 100),
-        error: error instanceof Error ? error.message : String(error),
+    if (event.type === 'result' && event.is_error) {
+      // Error results carry the failure (e.g. an invalid API key) instead of an answer
+      context.state.error = event.result || event.subtype || 'Claude reported an error';
+    }
+
+    // Capture result from both 'result' events and 'assistant' message content
+    if (event.type === 'result' && event.structured_output !== undefined) {
+      context.state.result = JSON.stringify(event.structured_output);
+      this.log.debug('Captured structured output from result event', {
+        resultLength: context.state.result.length,
       });
+    } else if (event.type === 'result' && event.result) {
+      context.state.result = event.result;
+      this.log.debug('Captured result from result event', {
+        resultLength: context.state.result.length,
+      });
+    } else if (event.type === 'assistant' && event.message?.content) {
+      // Extract all text content from assistant messages
+      const text = event.message.content
+        .filter((content) => content.type === 'text' && content.text)
+        .map((content) => content.text)
+        .join('\n\n');
+      if (text) {
+        context.state.result = text;
+        this.log.debug('Captured result from assistant message', {
+          resultLength: text.length,
+          preview: text.substring(0, 200),
+        });
+      }
     }
+
+    // Publish Claude activity as typed events
+    this.emitClaudeActivity(context, event);
   }
 
   /**
-   * Logs Claude's current activity based on the event type using structured logging
+   * Translates a Claude log event into normalized agent events and logs the activity
    *
+   * @param context - Execution context the event belongs to
    * @param event - Parsed log event from Claude
    */
-  private logClaudeActivity(event: LogEvent): void {
+  private emitClaudeActivity(context: ExecutionContext<ClaudeRunState>, event: LogEvent): void {
     switch (event.type) {
       case 'system':
         if (event.subtype === 'init') {
@@ -330,6 +554,13 @@ export class ClaudeCode extends CLIAgent {
             toolsCount: event.tools?.length || 0,
             sessionId: event.session_id,
           });
+          this.emit(context, {
+            type: 'session_started',
+            ...(event.session_id && { sessionId: event.session_id }),
+            ...(event.model && { model: event.model }),
+            ...(event.cwd && { cwd: event.cwd }),
+            ...(event.tools && { tools: event.tools }),
+          });
         }
         break;
 
@@ -341,12 +572,23 @@ export class ClaudeCode extends CLIAgent {
                 messageId: event.message.id,
                 textLength: content.text.length,
               });
+              // Text blocks are complete paragraphs, not fragments of one
+              const separator = context.state.afterText ? '\n\n' : '';
+              context.state.afterText = true;
+              this.emit(context, { type: 'text_delta', text: separator + content.text });
             } else if (content.type === 'tool_use' && content.name) {
+              context.state.afterText = false;
               this.log.debug('Claude is using tool', {
                 toolName: content.name,
-                toolId: content.tool_use_id,
+                toolId: content.id,
                 messageId: event.message.id,
               });
+              this.emit(context, {
+                type: 'tool_call',
+                ...(content.id && { id: content.id }),
+                name: content.name,
+                input: content.input,
+              });
             }
           }
         }
@@ -360,6 +602,15 @@ export class ClaudeCode extends CLIAgent {
                 toolUseId: content.tool_use_id,
                 hasContent: !!content.content,
               });
+              this.emit(context, {
+                type: 'tool_result',
+                ...(content.tool_use_id && { toolCallId: content.tool_use_id }),
+                output:
+                  typeof content.content === 'string' || content.content === undefined
+                    ? content.content
+                    : content.content.map((block) => block.text ?? `[${block.type}]`).join('\n'),
+                isError: content.is_error ?? false,
+              });
             }
           }
         }
@@ -381,7 +632,38 @@ export class ClaudeCode extends CLIAgent {
             this.log.info('Claude session completed successfully', sessionData);
           }
         }
+        this.emit(context, {
+          type: 'result',
+          text: event.result ?? '',
+          isError: event.is_error ?? false,
+          ...(event.session_id && { sessionId: event.session_id }),
+          ...(event.duration_ms !== undefined && { durationMs: event.duration_ms }),
+          ...(event.total_cost_usd !== undefined && { costUsd: event.total_cost_usd }),
+          ...(event.usage && {
+            usage: {
+              inputTokens: event.usage.input_tokens ?? 0,
+              outputTokens: event.usage.output_tokens ?? 0,
+              ...(event.usage.cache_read_input_tokens !== undefined && {
+                cachedInputTokens: event.usage.cache_read_input_tokens,
+              }),
+            },
+          }),
+        });
         break;
     }
   }
 }
+
+/**
+ * Removes duplicate entries, keeping the first occurrence
+ */
+function unique(values: readonly string[]): string[] {
+  return [...new Set(values)];
+}
+
+/**
+ * Returns the tool a permission rule applies to, e.g. `Bash` for `Bash(git diff:*)`
+ */
+function toolName(rule: string): string {
+  return rule.split('(')[0]?.trim() ?? rule;
+}
@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { AgentAuthError, AgentExitError, AgentRateLimitError } from '../errors.js';
+import type { AgentEvent } from '../events.js';
+import { createRecording, loadRecording, type Recording } from '../recording.js';
+import { Codex } from './main.js';
+
+/**
+ * Path of a recorded Codex run
+ */
+function fixture(name: string): string {
+  return join(__dirname, 'fixtures', `${name}.json`);
+}
+
+/**
+ * Collects the events of an execution, and its error if it failed
+ */
+async function collectEvents(
+  codex: Codex,
+  prompt: string
+): Promise<{ events: AgentEvent[]; error?: unknown }> {
+  const events: AgentEvent[] = [];
+  try {
+    for await (const event of codex.executeStream(prompt)) {
+      events.push(event);
+    }
+    return { events };
+  } catch (error) {
+    return { events, error };
+  }
+}
+
+describe('Codex JSON event parsing', () => {
+  it('parses a recorded run with tools into text, tool calls and usage', async () => {
+    const codex = new Codex({ replayFrom: fixture('success-with-tools') });
+    const result = await codex.executeDetailed('List the TypeScript files and add a README');
+
+    assert.equal(result.text, 'Found index.ts and util.ts and added README.md.');
+    assert.equal(result.sessionId, '0199a213-81c0-7800-8aa1-bbab2a035a53');
+    assert.deepEqual(result.usage, {
+      inputTokens: 24763,
+      outputTokens: 122,
+      cachedInputTokens: 24448,
+    });
+    assert.deepEqual(
+      result.toolCalls.map((call) => [call.name, call.completed]),
+      [
+        ['shell', true],
+        ['apply_patch', true],
+      ]
+    );
+    assert.equal(result.toolCalls[0]?.output, 'index.ts\nutil.ts\n');
+  });
+
+  it('fails a recorded failed turn with the turn error', async () => {
+    const codex = new Codex({ replayFrom: fixture('turn-failed') });
+
+    const error = await codex.execute('Refactor the parser').catch((e: unknown) => e);
+    assert.ok(error instanceof AgentRateLimitError);
+    assert.match(error.message, /exceeded retry limit/);
+  });
+
+  it('classifies a recorded login failure from stderr', async () => {
+    const codex = new Codex({ replayFrom: fixture('not-logged-in') });
+
+    await assert.rejects(codex.execute('Say hello'), AgentAuthError);
+  });
+
+  it('does not fail a completed turn after a retried error event', async () => {
+    const lines = [
+      { type: 'thread.started', thread_id: 'thread-1' },
+      { type: 'error', message: 'stream disconnected; retrying 1/5' },
+      { type: 'item.completed', item: { id: 'item_0', type: 'agent_message', text: 'Done.' } },
+      { type: 'turn.completed', usage: { input_tokens: 1, output_tokens: 1 } },
+    ];
+    const codex = new Codex({
+      replayFrom: createRecording('Codex', {
+        stdout: lines.map((line) => `${JSON.stringify(line)}\n`),
+      }),
+    });
+
+    const { events, error } = await collectEvents(codex, 'prompt');
+    assert.equal(error, undefined);
+    assert.ok(
+      events.some(
+        (event) => event.type === 'progress' && event.message === 'Codex reported a non-fatal error'
+      )
+    );
+    assert.ok(events.some((event) => event.type === 'result' && event.text === 'Done.'));
+  });
+
+  it('reports the last error event when the process then exits with an error', async () => {
+    const codex = new Codex({
+      replayFrom: createRecording('Codex', {
+        stdout: [`${JSON.stringify({ type: 'error', message: 'connection reset by peer' })}\n`],
+        exitCode: 1,
+      }),
+    });
+
+    const error = await codex.execute('prompt').catch((e: unknown) => e);
+    assert.ok(error instanceof AgentExitError);
+    assert.match(error.message, /connection reset by peer/);
+  });
+
+  it('keeps characters split across chunks intact', async () => {
+    const recording = await loadRecording(fixture('multibyte-answer'));
+    const answer = 'Übersetzt: „Grüße“ → こんにちは 🚀';
+    assert.equal(await new Codex({ replayFrom: recording }).execute('prompt'), answer);
+
+    // Re-chunk the whole output inside every multi-byte character
+    const bytes = Buffer.concat(recording.chunks.map((chunk) => Buffer.from(chunk.data, 'base64')));
+    for (let offset = 1; offset < bytes.length; offset++) {
+      if (((bytes[offset] ?? 0) & 0xc0) !== 0x80) continue;
+      const rechunked: Recording = {
+        ...recording,
+        chunks: [bytes.subarray(0, offset), bytes.subarray(offset)].map((part) => ({
+          stream: 'stdout' as const,
+          offsetMs: 0,
+          data: part.toString('base64'),
+        })),
+      };
+      assert.equal(await new Codex({ replayFrom: rechunked }).execute('prompt'), answer);
+    }
+  });
+
+  it('fails a run killed by an outside signal instead of returning partial output', async () => {
+    const codex = new Codex({
+      replayFrom: {
+        ...createRecording('Codex', {
+          stdout: [
+            `${JSON.stringify({ type: 'item.completed', item: { id: 'i', type: 'agent_message', text: 'Half' } })}\n`,
+          ],
+        }),
+        exitCode: null,
+        signal: 'SIGKILL',
+      },
+    });
+
+    const error = await codex.execute('prompt').catch((e: unknown) => e);
+    assert.ok(error instanceof AgentExitError);
+    assert.equal(error.exitCode, null);
+    assert.match(error.message, /killed by a signal/);
+  });
+});
@@ -0,0 +1,529 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { StringDecoder } from 'node:string_decoder';
+import { CLIAgent, type CLIAgentConfig, type ExecutionContext } from '../agent.js';
+import { AgentParseError } from '../errors.js';
+import type { TokenUsage } from '../events.js';
+import type { PromptDelivery } from '../transport.js';
+
+/**
+ * Item of a Codex thread, as reported in `item.*` events of `codex exec --json`
+ */
+export type CodexItem = {
+  readonly id: string;
+  readonly type:
+    | 'agent_message'
+    | 'reasoning'
+    | 'command_execution'
+    | 'file_change'
+    | 'mcp_tool_call'
+    | 'web_search'
+    | 'todo_list'
+    | 'error';
+  readonly text?: string;
+  readonly command?: string;
+  readonly aggregated_output?: string;
+  readonly exit_code?: number | null;
+  readonly status?: 'in_progress' | 'completed' | 'failed';
+  readonly changes?: Array<{ readonly path: string; readonly kind: string }>;
+  readonly server?: string;
+  readonly tool?: string;
+  readonly arguments?: unknown;
+  readonly result?: unknown;
+  readonly error?: { readonly message: string };
+  readonly query?: string;
+  readonly items?: Array<{ readonly text: string; readonly completed: boolean }>;
+  readonly message?: string;
+};
+
+/**
+ * Event emitted by `codex exec --json`, one per line
+ */
+export type CodexEvent =
+  | { readonly type: 'thread.started'; readonly thread_id: string }
+  | { readonly type: 'turn.started' }
+  | {
+      readonly type: 'turn.completed';
+      readonly usage?: {
+        readonly input_tokens?: number;
+        readonly cached_input_tokens?: number;
+        readonly output_tokens?: number;
+      };
+    }
+  | { readonly type: 'turn.failed'; readonly error?: { readonly message: string } }
+  | { readonly type: 'item.started' | 'item.updated' | 'item.completed'; readonly item: CodexItem }
+  | { readonly type: 'error'; readonly message: string };
+
+/**
+ * Configuration options for Codex execution
+ */
+export type CodexConfig = CLIAgentConfig;
+
+/**
+ * Per-execution parsing state of Codex
+ */
+type CodexRunState = {
+  /** Keeps multi-byte characters split across chunks together */
+  textDecoder: StringDecoder;
+  pendingLine: string;
+  result: string;
+  /** Message of a failed turn, which fails the run */
+  error: string;
+  /** Message of the last `error` event; Codex retries after these, so they only explain a failed exit */
+  lastErrorEvent: string;
+  eventCount: number;
+  threadId: string | null;
+  /** Ids of items for which a tool_call event was already emitted */
+  startedItems: Set<string>;
+  /** Temp directory holding the `--output-schema` file, if any */
+  schemaDirectory: string | null;
+};
+
+/**
+ * OpenAI Codex CLI agent class, driven through `codex exec --json`
+ *
+ * @example
+ * ```typescript
+ * const codex = new Codex();
+ * const result = await codex.execute("Create a hello world function");
+ * console.log(result);
+ * ```
+ */
+export class Codex extends CLIAgent<CodexRunState> {
+  /**
+   * Creates a new Codex instance
+   *
+   * @param config - Configuration options for Codex execution
+   */
+  constructor(config: CodexConfig = {}) {
+    super('Codex', config);
+  }
+
+  /**
+   * Returns the command name to execute
+   */
+  protected getCommandName(): string {
+    return 'codex';
+  }
+
+  /**
+   * Returns the agent name for logging
+   */
+  protected getAgentName(): string {
+    return 'Codex';
+  }
+
+  /**
+   * Builds command line arguments for Codex execution
+   *
+   * A prompt of `-` makes `codex exec` read the prompt from stdin.
+   *
+   * @param delivery - How the prompt is delivered
+   * @param context - Execution context, for the output schema file
+   * @returns Array of command line arguments
+   */
+  protected buildCommandArgs(
+    delivery: PromptDelivery,
+    context: ExecutionContext<CodexRunState>
+  ): string[] {
+    const args = [
+      'exec',
+      '--json',
+      '--full-auto', // Workspace-write sandbox without approval prompts
+      '--skip-git-repo-check',
+    ];
+
+    if (context.state.schemaDirectory) {
+      args.push('--output-schema', join(context.state.schemaDirectory, 'schema.json'));
+    }
+
+    // Add any additional arguments
+    args.push(...this.config.additionalArgs);
+
+    // Terminate option parsing so prompts starting with '-' are not taken as flags
+    args.push('--', delivery.transport === 'arg' ? delivery.prompt : '-');
+
+    return args;
+  }
+
+  /**
+   * Codex enforces an output schema read from the file given to `--output-schema`
+   */
+  protected override supportsOutputSchema(): boolean {
+    return true;
+  }
+
+  /**
+   * Writes the output schema to a temp file for `--output-schema`
+   *
+   * @param context - Execution context of this run
+   */
+  protected override async prepareExecution(
+    context: ExecutionContext<CodexRunState>
+  ): Promise<void> {
+    const { outputSchema } = context.options;
+    if (!outputSchema) return;
+
+    const directory = await mkdtemp(join(tmpdir(), 'multicodingagent-'));
+    context.state.schemaDirectory = directory;
+    await writeFile(join(directory, 'schema.json'), JSON.stringify(outputSchema.schema), {
+      encoding: 'utf-8',
+      mode: 0o600,
+    });
+  }
+
+  /**
+   * Removes the output schema file
+   *
+   * @param context - Execution context of the finished run
+   */
+  protected override async finishExecution(
+    context: ExecutionContext<CodexRunState>
+  ): Promise<void> {
+    if (context.state.schemaDirectory) {
+      await rm(context.state.schemaDirectory, { recursive: true, force: true });
+      context.state.schemaDirectory = null;
+    }
+  }
+
+  /**
+   * Returns the variables Codex reads its credentials and settings from
+   */
+  protected override getRequiredEnvironment(): readonly string[] {
+    return ['OPENAI_*', 'CODEX_*'];
+  }
+
+  /**
+   * Creates the per-execution parsing state
+   */
+  protected createRunState(): CodexRunState {
+    return {
+      textDecoder: new StringDecoder('utf8'),
+      pendingLine: '',
+      result: '',
+      error: '',
+      lastErrorEvent: '',
+      eventCount: 0,
+      threadId: null,
+      startedItems: new Set(),
+      schemaDirectory: null,
+    };
+  }
+
+  /**
+   * Handles stdout data from Codex process
+   *
+   * @param context - Execution context the data belongs to
+   * @param data - Raw stdout data
+   */
+  protected handleStdoutData(context: ExecutionContext<CodexRunState>, data: Buffer): void {
+    const output = context.state.textDecoder.write(data);
+    this.log.debug('Received stdout data', {
+      executionId: context.id,
+      dataLength: output.length,
+      content: output,
+    });
+
+    const lines = (context.state.pendingLine + output).split('\n');
+    context.state.pendingLine = lines.pop() ?? '';
+
+    for (const line of lines) {
+      this.parseCodexLine(context, line);
+    }
+  }
+
+  /**
+   * Handles stderr data from Codex process
+   *
+   * @param context - Execution context the data belongs to
+   * @param data - Raw stderr data
+   */
+  protected handleStderrData(context: ExecutionContext<CodexRunState>, data: Buffer): void {
+    this.log.debug('Received stderr data', {
+      executionId: context.id,
+      content: data.toString().trim(),
+    });
+  }
+
+  /**
+   * Handles process exit
+   *
+   * @param context - Execution context of the finished run
+   * @param code - Exit code
+   * @param resolve - Promise resolve function
+   * @param reject - Promise reject function
+   */
+  protected handleProcessExit(
+    context: ExecutionContext<CodexRunState>,
+    code: number | null,
+    resolve: (result: string) => void,
+    reject: (error: Error) => void
+  ): void {
+    const { state } = context;
+    state.pendingLine += state.textDecoder.end();
+
+    // Process a trailing line that was not newline-terminated
+    if (state.pendingLine.trim()) {
+      this.parseCodexLine(context, state.pendingLine);
+      state.pendingLine = '';
+    }
+
+    // Null when an outside signal killed Codex; cancellations and timeouts never get here
+    const exitCode = code;
+
+    this.log.debug('Process exited', {
+      executionId: context.id,
+      exitCode,
+      eventCount: state.eventCount,
+      resultLength: state.result.length,
+    });
+
+    if (exitCode === 0 && state.eventCount === 0) {
+      const error = new AgentParseError(
+        this.getAgentName(),
+        'Codex produced no parseable JSON events',
+        context.stderrTail
+      );
+      this.log.error('Codex execution failed', { prompt: context.prompt, error: error.message });
+      reject(error);
+    } else if (exitCode === 0 && !state.error) {
+      this.log.info('Codex execution completed successfully', {
+        prompt: context.prompt,
+        resultLength: state.result.length,
+      });
+      resolve(state.result);
+    } else {
+      const error = this.createExitError(context, exitCode, state.error || state.lastErrorEvent);
+      this.log.error('Codex execution failed', {
+        prompt: context.prompt,
+        exitCode,
+        error: error.message,
+      });
+      reject(error);
+    }
+  }
+
+  /**
+   * Parses a single line of `codex exec --json` output
+   *
+   * @param context - Execution context the line belongs to
+   * @param line - One line of stdout
+   */
+  private parseCodexLine(context: ExecutionContext<CodexRunState>, line: string): void {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) return;
+
+    let event: CodexEvent;
+    try {
+      event = JSON.parse(trimmed) as CodexEvent;
+    } catch (error) {
+      this.log.trace('Failed to parse Codex output', {
+        data: trimmed.substring(0, 100),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    context.state.eventCount++;
+    this.emitCodexActivity(context, event);
+  }
+
+  /**
+   * Translates a Codex event into normalized agent events and logs the activity
+   *
+   * @param context - Execution context the event belongs to
+   * @param event - Parsed Codex event
+   */
+  private emitCodexActivity(context: ExecutionContext<CodexRunState>, event: CodexEvent): void {
+    const { state } = context;
+
+    switch (event.type) {
+      case 'thread.started':
+        state.threadId = event.thread_id;
+        this.log.debug('Codex thread started', { threadId: event.thread_id });
+        this.emit(context, {
+          type: 'session_started',
+          sessionId: event.thread_id,
+          cwd: context.cwd,
+        });
+        break;
+
+      case 'item.started':
+        this.emitToolCall(context, event.item);
+        break;
+
+      case 'item.completed':
+        this.handleCompletedItem(context, event.item);
+        break;
+
+      case 'turn.completed': {
+        const usage = this.toTokenUsage(event.usage);
+        this.log.info('Codex turn completed', { threadId: state.threadId, usage });
+        this.emit(context, {
+          type: 'result',
+          text: state.result,
+          isError: false,
+          ...(state.threadId && { sessionId: state.threadId }),
+          ...(usage && { usage }),
+        });
+        break;
+      }
+
+      case 'turn.failed': {
+        const message = event.error?.message ?? 'Codex turn failed';
+        state.error = message;
+        this.log.error('Codex turn failed', { threadId: state.threadId, message });
+        this.emit(context, {
+          type: 'result',
+          text: message,
+          isError: true,
+          ...(state.threadId && { sessionId: state.threadId }),
+        });
+        break;
+      }
+
+      case 'error':
+        // Stream errors are retried by Codex; the turn only fails with turn.failed
+        state.lastErrorEvent = event.message;
+        this.log.warn('Codex reported an error', {
+          threadId: state.threadId,
+          message: event.message,
+        });
+        this.emit(context, {
+          type: 'progress',
+          message: 'Codex reported a non-fatal error',
+          data: { message: event.message },
+        });
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Handles a finished thread item
+   *
+   * @param context - Execution context the item belongs to
+   * @param item - Completed item
+   */
+  private handleCompletedItem(context: ExecutionContext<CodexRunState>, item: CodexItem): void {
+    switch (item.type) {
+      case 'agent_message':
+        if (item.text) {
+          // The last agent message of the turn is the final answer
+          context.state.result = item.text;
+          this.emit(context, { type: 'text_delta', text: item.text });
+        }
+        break;
+
+      case 'reasoning':
+        this.log.debug('Codex is reasoning', { itemId: item.id });
+        this.emit(context, {
+          type: 'progress',
+          message: 'Codex is reasoning',
+          ...(item.text && { data: { text: item.text } }),
+        });
+        break;
+
+      case 'todo_list':
+        this.emit(context, {
+          type: 'progress',
+          message: 'Codex updated its plan',
+          data: { items: item.items ?? [] },
+        });
+        break;
+
+      case 'error':
+        this.log.warn('Codex item reported an error', { message: item.message });
+        this.emit(context, {
+          type: 'progress',
+          message: 'Codex reported a non-fatal error',
+          data: { message: item.message ?? '' },
+        });
+        break;
+
+      default:
+        // Tool-like items may only be reported once they have completed
+        this.emitToolCall(context, item);
+        this.emit(context, {
+          type: 'tool_result',
+          toolCallId: item.id,
+          output: this.toolOutput(item),
+          isError: item.status === 'failed' || (item.exit_code ?? 0) !== 0 || !!item.error,
+        });
+        break;
+    }
+  }
+
+  /**
+   * Emits a tool_call event for a tool-like item, once per item
+   *
+   * @param context - Execution context the item belongs to
+   * @param item - Started or completed item
+   */
+  private emitToolCall(context: ExecutionContext<CodexRunState>, item: CodexItem): void {
+    const call = this.toolCall(item);
+    if (!call || context.state.startedItems.has(item.id)) return;
+
+    context.state.startedItems.add(item.id);
+    this.log.debug('Codex is using tool', { toolName: call.name, itemId: item.id });
+    this.emit(context, { type: 'tool_call', id: item.id, name: call.name, input: call.input });
+  }
+
+  /**
+   * Maps a tool-like item to a tool name and input
+   *
+   * @param item - Thread item
+   * @returns Tool call description, or null for items that are not tool calls
+   */
+  private toolCall(item: CodexItem): { name: string; input: unknown } | null {
+    switch (item.type) {
+      case 'command_execution':
+        return { name: 'shell', input: { command: item.command } };
+      case 'file_change':
+        return { name: 'apply_patch', input: { changes: item.changes ?? [] } };
+      case 'mcp_tool_call':
+        return { name: `${item.server}.${item.tool}`, input: item.arguments };
+      case 'web_search':
+        return { name: 'web_search', input: { query: item.query } };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Returns the output of a completed tool-like item
+   *
+   * @param item - Completed item
+   */
+  private toolOutput(item: CodexItem): unknown {
+    switch (item.type) {
+      case 'command_execution':
+        return item.aggregated_output;
+      case 'file_change':
+        return item.status;
+      case 'mcp_tool_call':
+        return item.error?.message ?? item.result;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Converts Codex token counts into the normalized usage shape
+   */
+  private toTokenUsage(
+    usage: Extract<CodexEvent, { type: 'turn.completed' }>['usage']
+  ): TokenUsage | null {
+    if (!usage) return null;
+    return {
+      inputTokens: usage.input_tokens ?? 0,
+      outputTokens: usage.output_tokens ?? 0,
+      ...(usage.cached_input_tokens !== undefined && {
+        cachedInputTokens: usage.cached_input_tokens,
+      }),
+    };
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Environment passed to an agent's CLI process
+ *
+ * Without `allow`, the child inherits the full environment of this process.
+ * With `allow`, it only inherits the listed variables plus the basics every CLI
+ * needs (see `BASE_ENV_ALLOWLIST`) and the agent's own credentials.
+ * Entries ending in `*` match by prefix (e.g., `AWS_*`).
+ */
+export type EnvironmentPolicy = {
+  readonly allow?: readonly string[];
+  /** Variables to set for the child; `undefined` removes an inherited variable */
+  readonly set?: Readonly<Record<string, string | undefined>>;
+};
+
+/**
+ * Variables that are always inherited when an allowlist is used
+ */
+export const BASE_ENV_ALLOWLIST: readonly string[] = [
+  'PATH',
+  'HOME',
+  'USER',
+  'LOGNAME',
+  'SHELL',
+  'TERM',
+  'TMPDIR',
+  'TZ',
+  'LANG',
+  'LC_*',
+  'NODE_ENV',
+  'HTTP_PROXY',
+  'HTTPS_PROXY',
+  'NO_PROXY',
+  'SYSTEMROOT',
+  'APPDATA',
+  'LOCALAPPDATA',
+  'USERPROFILE',
+];
+
+/**
+ * Merges a per-call policy over an agent-wide policy
+ *
+ * The per-call allowlist replaces the agent's; `set` entries are combined.
+ *
+ * @param base - Policy from the agent configuration
+ * @param override - Policy from the execute options
+ */
+export function mergeEnvironmentPolicies(
+  base: EnvironmentPolicy | undefined,
+  override: EnvironmentPolicy | undefined
+): EnvironmentPolicy | undefined {
+  if (!base || !override) return override ?? base;
+
+  const allow = override.allow ?? base.allow;
+  return {
+    ...(allow && { allow }),
+    set: { ...base.set, ...override.set },
+  };
+}
+
+/**
+ * Builds the environment for a child process
+ *
+ * @param policy - Allowlist and overrides; inherits everything when undefined
+ * @param required - Variables the agent's CLI needs, such as its API key
+ * @param source - Environment to inherit from
+ * @returns Environment for `spawn()`
+ */
+export function buildEnvironment(
+  policy: EnvironmentPolicy | undefined,
+  required: readonly string[] = [],
+  source: NodeJS.ProcessEnv = process.env
+): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+
+  if (policy?.allow) {
+    const patterns = [...BASE_ENV_ALLOWLIST, ...required, ...policy.allow];
+    for (const [name, value] of Object.entries(source)) {
+      if (value !== undefined && patterns.some((pattern) => matchesPattern(name, pattern))) {
+        env[name] = value;
+      }
+    }
+  } else {
+    Object.assign(env, source);
+  }
+
+  for (const [name, value] of Object.entries(policy?.set ?? {})) {
+    if (value === undefined) {
+      delete env[name];
+    } else {
+      env[name] = value;
+    }
+  }
+
+  return env;
+}
+
+/**
+ * Matches a variable name against an allowlist entry
+ */
+function matchesPattern(name: string, pattern: string): boolean {
+  return pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern;
+}
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  AbortError,
+  AgentAuthError,
+  AgentExitError,
+  AgentRateLimitError,
+  classifyExitError,
+  isAbortError,
+} from './errors.js';
+
+describe('classifyExitError', () => {
+  it('recognizes rate limits in stderr', () => {
+    for (const stderr of [
+      'Error: 429 Too Many Requests',
+      'API Error: rate_limit_error',
+      'You exceeded your current quota, please check your plan',
+      'RESOURCE_EXHAUSTED: Quota exceeded for model',
+      'overloaded_error: Overloaded',
+      'Claude AI usage limit reached|1700000000',
+    ]) {
+      assert.ok(classifyExitError('Agent', 1, stderr) instanceof AgentRateLimitError, stderr);
+    }
+  });
+
+  it('recognizes authentication failures in stderr', () => {
+    for (const stderr of [
+      'HTTP 401 Unauthorized',
+      'Invalid API key · Please run /login',
+      'authentication_error: invalid x-api-key',
+      'Error: Not logged in. Run codex login.',
+      'PERMISSION_DENIED: caller does not have permission',
+    ]) {
+      assert.ok(classifyExitError('Agent', 1, stderr) instanceof AgentAuthError, stderr);
+    }
+  });
+
+  it('classifies a structured error reported by the backend', () => {
+    const error = classifyExitError('Agent', 1, '', 'Quota exceeded for quota metric');
+
+    assert.ok(error instanceof AgentRateLimitError);
+    assert.match(error.message, /code 1: Quota exceeded/);
+  });
+
+  it('ignores debug lines, which may quote the prompt or answer', () => {
+    const stderr = [
+      '[DEBUG] Prompt: explain HTTP 429 and authentication failed errors',
+      '[DEBUG] Response: you are not logged in when the quota is exceeded',
+      'Error: socket hang up',
+    ].join('\n');
+    const error = classifyExitError('Agent', 1, stderr);
+
+    assert.equal(error.constructor, AgentExitError);
+    assert.match(error.message, /socket hang up/);
+  });
+
+  it('does not treat words that merely mention quotas or authentication as failures', () => {
+    const stderr = 'Warning: authentication module deprecated; quota settings ignored';
+
+    assert.equal(classifyExitError('Agent', 2, stderr).constructor, AgentExitError);
+  });
+
+  it('reports the last diagnostic line and keeps the stderr tail', () => {
+    const error = classifyExitError('Agent', 3, 'starting\nfatal: broken pipe\n');
+
+    assert.equal(error.message, 'Agent process exited with code 3: fatal: broken pipe');
+    assert.equal(error.exitCode, 3);
+    assert.equal(error.stderrTail, 'starting\nfatal: broken pipe\n');
+  });
+});
+
+describe('isAbortError', () => {
+  it('matches AbortError instances and DOM-style abort errors', () => {
+    assert.equal(isAbortError(new AbortError('Agent')), true);
+    assert.equal(isAbortError(Object.assign(new Error('aborted'), { name: 'AbortError' })), true);
+    assert.equal(isAbortError(new Error('aborted')), false);
+    assert.equal(isAbortError('AbortError'), false);
+  });
+});
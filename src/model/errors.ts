@@ -0,0 +1,267 @@
+/**
+ * Base class for all errors raised by agents
+ *
+ * Subclasses identify the failure kind so that callers (and retry policies)
+ * can react with `instanceof` instead of matching error messages.
+ */
+export class AgentError extends Error {
+  override readonly name: string = 'AgentError';
+  readonly agent: string;
+
+  /**
+   * Creates a new agent error
+   *
+   * @param agent - Name of the agent that failed (e.g., 'Claude Code')
+   * @param message - Error message
+   * @param options - Standard error options such as `cause`
+   */
+  constructor(agent: string, message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.agent = agent;
+  }
+}
+
+/**
+ * Error raised when an execution is cancelled through an AbortSignal
+ *
+ * Callers can tell cancellations apart from failures with `instanceof AbortError`
+ * or by checking `error.name === 'AbortError'`, which matches the convention
+ * used by `fetch` and other Node.js APIs.
+ */
+export class AbortError extends AgentError {
+  override readonly name = 'AbortError';
+  readonly reason: unknown;
+
+  /**
+   * Creates a new abort error
+   *
+   * @param agent - Name of the agent whose execution was aborted
+   * @param reason - The `signal.reason` value, if any
+   */
+  constructor(agent: string, reason?: unknown) {
+    super(agent, `${agent} execution was aborted`);
+    this.reason = reason;
+  }
+}
+
+/**
+ * Error raised when an execution is stopped with `terminate()`
+ */
+export class AgentTerminatedError extends AgentError {
+  override readonly name = 'AgentTerminatedError';
+
+  /**
+   * @param agent - Name of the agent whose execution was terminated
+   */
+  constructor(agent: string) {
+    super(agent, `${agent} execution was terminated`);
+  }
+}
+
+/**
+ * Error raised when an execution exceeds its time limit
+ */
+export class AgentTimeoutError extends AgentError {
+  override readonly name: string = 'AgentTimeoutError';
+  readonly timeoutMs: number;
+
+  /**
+   * @param agent - Name of the agent that timed out
+   * @param timeoutMs - The limit that was exceeded
+   */
+  constructor(agent: string, timeoutMs: number) {
+    super(agent, `${agent} execution timed out after ${timeoutMs}ms`);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Error raised when an execution produces no output for longer than its idle limit
+ *
+ * Extends AgentTimeoutError, so policies that retry timeouts retry idle runs too.
+ */
+export class AgentIdleTimeoutError extends AgentTimeoutError {
+  override readonly name = 'AgentIdleTimeoutError';
+
+  /**
+   * @param agent - Name of the agent that went idle
+   * @param idleTimeoutMs - The inactivity limit that was exceeded
+   */
+  constructor(agent: string, idleTimeoutMs: number) {
+    super(agent, idleTimeoutMs);
+    this.message = `${agent} produced no output for ${idleTimeoutMs}ms`;
+  }
+}
+
+/**
+ * Error raised when the CLI process cannot be started (e.g., ENOENT, EACCES)
+ */
+export class AgentSpawnError extends AgentError {
+  override readonly name = 'AgentSpawnError';
+  readonly command: string;
+  readonly code: string | undefined;
+
+  /**
+   * @param agent - Name of the agent
+   * @param command - Command that failed to start
+   * @param cause - Underlying error from `child_process.spawn`
+   */
+  constructor(agent: string, command: string, cause: NodeJS.ErrnoException) {
+    super(agent, `Failed to start ${agent} (${command}): ${cause.message}`, { cause });
+    this.command = command;
+    this.code = cause.code;
+  }
+}
+
+/**
+ * Error raised when the CLI process exits unsuccessfully
+ */
+export class AgentExitError extends AgentError {
+  override readonly name: string = 'AgentExitError';
+  readonly exitCode: number | null;
+  readonly stderrTail: string;
+
+  /**
+   * @param agent - Name of the agent
+   * @param exitCode - Exit code of the process; null if a signal killed it
+   * @param stderrTail - Last part of the process's stderr
+   * @param detail - Short description of the failure, appended to the message
+   */
+  constructor(agent: string, exitCode: number | null, stderrTail: string, detail?: string) {
+    const outcome = exitCode === null ? 'was killed by a signal' : `exited with code ${exitCode}`;
+    super(agent, `${agent} process ${outcome}${detail ? `: ${detail}` : ''}`);
+    this.exitCode = exitCode;
+    this.stderrTail = stderrTail;
+  }
+}
+
+/**
+ * Error raised when the backend reports a rate limit or exhausted quota
+ */
+export class AgentRateLimitError extends AgentExitError {
+  override readonly name = 'AgentRateLimitError';
+}
+
+/**
+ * Error raised when the backend rejects the credentials or is not logged in
+ */
+export class AgentAuthError extends AgentExitError {
+  override readonly name = 'AgentAuthError';
+}
+
+/**
+ * Error raised when a run changed files outside its declared writable scope
+ */
+export class AgentScopeError extends AgentError {
+  override readonly name = 'AgentScopeError';
+  readonly paths: string[];
+
+  /**
+   * @param agent - Name of the agent
+   * @param paths - Files changed outside the scope, relative to the working directory
+   */
+  constructor(agent: string, paths: string[]) {
+    const preview = paths.slice(0, 10).join(', ');
+    const more = paths.length > 10 ? ` and ${paths.length - 10} more` : '';
+    super(agent, `${agent} changed files outside its writable scope: ${preview}${more}`);
+    this.paths = paths;
+  }
+}
+
+/**
+ * Error raised when agent output cannot be parsed into the expected shape
+ */
+export class AgentParseError extends AgentError {
+  override readonly name = 'AgentParseError';
+  readonly outputPreview: string;
+
+  /**
+   * @param agent - Name of the agent (or subagent) that produced the output
+   * @param message - Description of the parse failure
+   * @param output - The unparseable output; only a preview is kept
+   * @param options - Standard error options such as `cause`
+   */
+  constructor(agent: string, message: string, output: string, options?: ErrorOptions) {
+    super(agent, message, options);
+    this.outputPreview = output.substring(0, 500);
+  }
+}
+
+/**
+ * Error raised when an agent is configured inconsistently
+ */
+export class AgentConfigError extends AgentError {
+  override readonly name = 'AgentConfigError';
+}
+
+/**
+ * Patterns used to classify a failed run from its stderr and reported error
+ */
+const RATE_LIMIT_PATTERN =
+  /rate[ _-]?limit|too many requests|\b429\b|quota (exceeded|exhausted)|exceeded (your |the )?(current )?quota|insufficient_quota|usage limit|overloaded_error|\bis overloaded\b|RESOURCE_EXHAUSTED/i;
+const AUTH_PATTERN =
+  /unauthori[sz]ed|\b401\b|\b403\b|invalid (api[ _-]?key|x-api-key|credentials)|authentication[ _](failed|error|required)|not logged in|please (run )?\/?login|PERMISSION_DENIED/i;
+
+/**
+ * Stderr lines of CLI debug logging (e.g. Gemini's `--debug`), which can quote
+ * prompts and model output and are therefore not used for classification
+ */
+const DEBUG_LINE_PATTERN = /^\s*\[DEBUG\]/;
+
+/**
+ * Builds the most specific exit error for a failed run
+ *
+ * Only diagnostics are classified: the stderr tail without debug lines, and
+ * the error a backend reported in a structured field. The model's answer is
+ * never passed in, since it may discuss rate limits or authentication itself.
+ *
+ * @param agent - Name of the agent
+ * @param exitCode - Exit code of the process
+ * @param stderrTail - Last part of the process's stderr
+ * @param reportedError - Error message from a structured error field of the
+ *   output (e.g., an error result event), if the backend reported one
+ * @returns An AgentRateLimitError, AgentAuthError or plain AgentExitError
+ */
+export function classifyExitError(
+  agent: string,
+  exitCode: number | null,
+  stderrTail: string,
+  reportedError = ''
+): AgentExitError {
+  const diagnostics = stderrTail
+    .split('\n')
+    .filter((line) => !DEBUG_LINE_PATTERN.test(line))
+    .join('\n');
+  const text = `${reportedError}\n${diagnostics}`;
+  const detail = lastLine(reportedError) || lastLine(diagnostics);
+
+  if (RATE_LIMIT_PATTERN.test(text)) {
+    return new AgentRateLimitError(agent, exitCode, stderrTail, detail);
+  }
+  if (AUTH_PATTERN.test(text)) {
+    return new AgentAuthError(agent, exitCode, stderrTail, detail);
+  }
+  return new AgentExitError(agent, exitCode, stderrTail, detail);
+}
+
+/**
+ * Returns true when the error represents a cancellation
+ *
+ * @param error - Any thrown value
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Returns the last non-empty line of a text, shortened for error messages
+ */
+function lastLine(text: string): string {
+  const line =
+    text
+      .split('\n')
+      .map((l) => l.trim())
+      .filter(Boolean)
+      .pop() ?? '';
+  return line.length > 300 ? `${line.substring(0, 300)}...` : line;
+}
@@ -0,0 +1,185 @@
+/**
+ * Fields shared by every agent event
+ */
+type AgentEventBase = {
+  readonly agent: string;
+  readonly executionId: string;
+  readonly timestamp: number;
+};
+
+/**
+ * Emitted once the backend reports that a session has been set up
+ */
+export type SessionStartedEvent = AgentEventBase & {
+  readonly type: 'session_started';
+  readonly sessionId?: string;
+  readonly model?: string;
+  readonly cwd?: string;
+  readonly tools?: string[];
+};
+
+/**
+ * Emitted for each piece of assistant text as it becomes available
+ */
+export type TextDeltaEvent = AgentEventBase & {
+  readonly type: 'text_delta';
+  readonly text: string;
+};
+
+/**
+ * Emitted when the agent invokes a tool
+ */
+export type ToolCallEvent = AgentEventBase & {
+  readonly type: 'tool_call';
+  readonly id?: string;
+  readonly name: string;
+  readonly input?: unknown;
+};
+
+/**
+ * Emitted when a tool invocation has produced its result
+ */
+export type ToolResultEvent = AgentEventBase & {
+  readonly type: 'tool_result';
+  readonly toolCallId?: string;
+  readonly output?: unknown;
+  readonly isError?: boolean;
+};
+
+/**
+ * Emitted for backend activity that is neither text nor a tool call
+ * (context loading, file scanning, etc.)
+ */
+export type ProgressEvent = AgentEventBase & {
+  readonly type: 'progress';
+  readonly message: string;
+  readonly data?: Readonly<Record<string, unknown>>;
+};
+
+/**
+ * Token counts reported by the backend
+ */
+export type TokenUsage = {
+  readonly inputTokens: number;
+  readonly outputTokens: number;
+  readonly cachedInputTokens?: number;
+};
+
+/**
+ * Emitted when the backend has produced its final answer
+ */
+export type ResultEvent = AgentEventBase & {
+  readonly type: 'result';
+  readonly text: string;
+  readonly isError: boolean;
+  readonly sessionId?: string;
+  readonly durationMs?: number;
+  readonly costUsd?: number;
+  readonly usage?: TokenUsage;
+};
+
+/**
+ * Emitted when the execution fails
+ */
+export type ErrorEvent = AgentEventBase & {
+  readonly type: 'error';
+  readonly message: string;
+  readonly error?: Error;
+};
+
+/**
+ * Provider-independent event union produced by all agents
+ */
+export type AgentEvent =
+  | SessionStartedEvent
+  | TextDeltaEvent
+  | ToolCallEvent
+  | ToolResultEvent
+  | ProgressEvent
+  | ResultEvent
+  | ErrorEvent;
+
+/**
+ * Event payload as produced by an agent, before the shared fields are filled in
+ */
+export type AgentEventInput = AgentEvent extends infer E
+  ? E extends AgentEvent
+    ? Omit<E, keyof AgentEventBase>
+    : never
+  : never;
+
+/**
+ * Callback invoked for each emitted event
+ */
+export type AgentEventListener = (event: AgentEvent) => void;
+
+/**
+ * Push-based queue exposed as an AsyncIterable
+ *
+ * Producers call `push()` and `close()`; consumers iterate with `for await`.
+ * Events pushed before the consumer starts iterating are buffered.
+ */
+export class EventChannel<T> implements AsyncIterable<T> {
+  private readonly queue: T[] = [];
+  private readonly waiters: Array<(result: IteratorResult<T>) => void> = [];
+  private readonly onCancel: (() => void) | undefined;
+  private closed = false;
+
+  /**
+   * @param onCancel - Called when the consumer stops iterating before the channel is closed
+   */
+  constructor(onCancel?: () => void) {
+    this.onCancel = onCancel;
+  }
+
+  /**
+   * Adds a value to the channel
+   *
+   * @param value - Value to deliver to the consumer
+   */
+  push(value: T): void {
+    if (this.closed) return;
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter({ value, done: false });
+    } else {
+      this.queue.push(value);
+    }
+  }
+
+  /**
+   * Closes the channel; buffered values are still delivered
+   */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+
+    for (const waiter of this.waiters.splice(0)) {
+      waiter({ value: undefined, done: true });
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: (): Promise<IteratorResult<T>> => {
+        if (this.queue.length > 0) {
+          return Promise.resolve({ value: this.queue.shift() as T, done: false });
+        }
+        if (this.closed) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => this.waiters.push(resolve));
+      },
+      return: (): Promise<IteratorResult<T>> => {
+        const cancelled = !this.closed;
+        this.close();
+        this.queue.length = 0;
+        if (cancelled) {
+          this.onCancel?.();
+        }
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+}
@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { extractJson, extractJsonCandidates, MAX_SCAN_STARTS } from './extract.js';
+import { SchemaValidationError, schema } from './schema.js';
+
+const RESULT = schema.object({
+  status: schema.enum(['ok', 'failed']),
+  items: schema.array(schema.string()),
+});
+
+const DOCUMENT = { status: 'ok', items: ['a', 'b'] };
+const JSON_TEXT = JSON.stringify(DOCUMENT, null, 2);
+
+/**
+ * Responses that all contain DOCUMENT, by the way they wrap it
+ */
+const CORPUS: ReadonlyArray<[string, string]> = [
+  ['a bare document', JSON_TEXT],
+  ['surrounding whitespace', `\n\n  ${JSON_TEXT}  \n`],
+  ['a json fence', `Here you go:\n\`\`\`json\n${JSON_TEXT}\n\`\`\`\nDone.`],
+  ['an untagged fence', `\`\`\`\n${JSON_TEXT}\n\`\`\``],
+  ['a fence with another language tag', `\`\`\`javascript\n${JSON_TEXT}\n\`\`\``],
+  ['a fence with a tag and attributes', `\`\`\`jsonc title="result"\n${JSON_TEXT}\n\`\`\``],
+  ['a tilde fence', `~~~json\n${JSON_TEXT}\n~~~`],
+  ['a longer backtick fence', `\`\`\`\`\n${JSON_TEXT}\n\`\`\`\``],
+  ['an indented fence', `Result:\n   \`\`\`json\n${JSON_TEXT}\n   \`\`\``],
+  ['prose before and after', `I checked everything. ${JSON.stringify(DOCUMENT)} Let me know!`],
+  [
+    'prose with braces and quotes',
+    `Use {placeholders} like "{name}" and [brackets]; the answer is ${JSON.stringify(DOCUMENT)} — "quoted" {end}`,
+  ],
+  ['prose with an unbalanced brace', `Note: a { opens here.\n${JSON_TEXT}`],
+  ['a JSON string containing the document', JSON.stringify(JSON.stringify(DOCUMENT))],
+  ['a double-encoded document in a fence', `\`\`\`\n${JSON.stringify(JSON_TEXT)}\n\`\`\``],
+  ['escaped JSON without quotes', JSON.stringify(DOCUMENT).replaceAll('"', '\\"')],
+  ['escaped JSON in prose', `Output: ${JSON.stringify(DOCUMENT).replaceAll('"', '\\"')} (escaped)`],
+  ['trailing commas', '{"status": "ok", "items": ["a", "b",],}'],
+  [
+    'line and block comments',
+    '{\n  // the outcome\n  "status": "ok", /* always a list */\n  "items": ["a", "b"]\n}',
+  ],
+  ['a comment after a trailing comma', '{"status": "ok", "items": ["a", "b", // last\n]}'],
+];
+
+describe('extractJson corpus', () => {
+  for (const [name, text] of CORPUS) {
+    it(`finds the document in ${name}`, () => {
+      assert.deepEqual(extractJson(text, RESULT), DOCUMENT);
+    });
+  }
+
+  it('keeps comment markers and commas inside strings', () => {
+    const text = '{"status": "ok", "items": ["http://x/*y*/", "a,]"],}';
+
+    assert.deepEqual(extractJson(text, RESULT), { status: 'ok', items: ['http://x/*y*/', 'a,]'] });
+  });
+
+  it('fails without any JSON', () => {
+    assert.throws(() => extractJson('I could not do it. {sorry}', RESULT), /No JSON object/);
+  });
+
+  it('fails with the issues of the closest candidate when none matches', () => {
+    assert.throws(
+      () => extractJson('{"status": "maybe", "items": []}', RESULT),
+      (error) => {
+        assert.ok(error instanceof SchemaValidationError);
+        assert.deepEqual(
+          error.issues.map((issue) => issue.path),
+          ['$.status']
+        );
+        return true;
+      }
+    );
+  });
+});
+
+describe('extractJsonCandidates', () => {
+  it('reports where and how each candidate was found', () => {
+    const text = `Draft: {"status": "failed", "items": [],}\n\`\`\`\n${JSON_TEXT}\n\`\`\``;
+    const candidates = extractJsonCandidates(text);
+
+    assert.deepEqual(
+      candidates.map((c) => [c.source, c.repaired, c.decoded]),
+      [
+        ['fence', false, false],
+        ['scan', true, false],
+      ]
+    );
+    assert.equal(candidates[0]?.start, text.indexOf('```'));
+    assert.equal(candidates[0]?.end, text.length);
+  });
+
+  it('ranks by schema fit before source, repair and size', () => {
+    const text = [
+      '```json',
+      '{"status": "unknown", "items": [1, 2, 3], "notes": "a large but wrong answer"}',
+      '```',
+      'Corrected: {"status": "ok", "items": ["a"],}',
+      'Also: {"status": "failed"}',
+    ].join('\n');
+    const candidates = extractJsonCandidates(text, { schema: RESULT });
+
+    assert.deepEqual(
+      candidates.map((c) => [c.issues.length, c.source, c.repaired]),
+      [
+        [0, 'scan', true],
+        [1, 'scan', false],
+        [4, 'fence', false],
+      ]
+    );
+    assert.deepEqual(candidates[0]?.value, { status: 'ok', items: ['a'] });
+  });
+
+  it('prefers unrepaired, then larger candidates without a schema', () => {
+    const candidates = extractJsonCandidates('x {"c": 2} y {"a": 1, "b": 2} z {"d": 3,}');
+
+    assert.deepEqual(
+      candidates.map((c) => c.value),
+      [{ a: 1, b: 2 }, { c: 2 }, { d: 3 }]
+    );
+  });
+
+  it('lists the same document only once', () => {
+    const text = `${JSON.stringify(DOCUMENT)}\n\`\`\`\n${JSON_TEXT}\n\`\`\``;
+
+    assert.equal(extractJsonCandidates(text).length, 1);
+  });
+
+  it('finds JSON nested in prose wrapped in braces', () => {
+    const candidates = extractJsonCandidates(`{ Note: the result is ${JSON.stringify(DOCUMENT)} }`);
+
+    assert.deepEqual(candidates[0]?.value, DOCUMENT);
+  });
+
+  it(`stops scanning after ${MAX_SCAN_STARTS} opening brackets`, () => {
+    const json = JSON.stringify(DOCUMENT);
+
+    const withinLimit = `${'{'.repeat(MAX_SCAN_STARTS - 1)} ${json}`;
+    assert.deepEqual(extractJsonCandidates(withinLimit)[0]?.value, DOCUMENT);
+
+    const pastLimit = `${'{'.repeat(MAX_SCAN_STARTS)} ${json}`;
+    assert.deepEqual(extractJsonCandidates(pastLimit), []);
+
+    // Fences are not subject to the limit
+    assert.deepEqual(extractJson(`${pastLimit}\n\`\`\`\n${json}\n\`\`\``, RESULT), DOCUMENT);
+  });
+});
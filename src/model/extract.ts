@@ -0,0 +1,322 @@
+import { type Schema, type SchemaIssue, SchemaValidationError, validateSchema } from './schema.js';
+
+/**
+ * Where in a response a JSON candidate was found
+ *
+ * - `whole`: the entire response
+ * - `fence`: the body of a Markdown code fence (any language tag)
+ * - `scan`: a balanced `{...}` or `[...]` region of the surrounding text
+ */
+export type JsonCandidateSource = 'whole' | 'fence' | 'scan';
+
+/**
+ * JSON object or array found in a model response
+ */
+export type JsonCandidate = {
+  readonly value: unknown;
+  readonly source: JsonCandidateSource;
+  /** Offset of the candidate's text within the response */
+  readonly start: number;
+  readonly end: number;
+  /** Whether comments or trailing commas had to be removed */
+  readonly repaired: boolean;
+  /** Whether the JSON was wrapped in a string literal or escaped */
+  readonly decoded: boolean;
+  /** Mismatches with the schema; empty without a schema */
+  readonly issues: readonly SchemaIssue[];
+};
+
+/**
+ * Options of `extractJsonCandidates()`
+ */
+export type JsonExtractionOptions = {
+  /** Schema the expected document matches; candidates are ranked by fit */
+  readonly schema?: Schema<unknown>;
+};
+
+/**
+ * Upper bound on the `{`/`[` positions a scan starts from, so that text full
+ * of unbalanced brackets cannot make extraction quadratic in practice
+ */
+export const MAX_SCAN_STARTS = 500;
+
+/**
+ * Whitespace and comments between a comma and the next token
+ */
+const GAP_PATTERN = /\s*(?:\/\/[^\n]*(?:\n|$)\s*|\/\*[\s\S]*?\*\/\s*)*/y;
+
+/**
+ * Parsed text of a candidate, before its position is known
+ */
+type ParsedCandidate = Pick<JsonCandidate, 'value' | 'repaired' | 'decoded'>;
+
+const SOURCE_RANK: Readonly<Record<JsonCandidateSource, number>> = { whole: 0, fence: 1, scan: 2 };
+
+/**
+ * Finds every JSON object or array in a model response, best candidate first
+ *
+ * Handles code fences with any language tag, prose around the JSON (including
+ * braces and quotes in the prose), JSON encoded as a string or escaped, and
+ * JSON with comments or trailing commas. Candidates are ranked by the number
+ * of schema mismatches, then by preferring unrepaired, whole-response, fenced
+ * and larger candidates.
+ *
+ * @param text - Model response
+ * @param options - Schema to rank candidates by
+ * @returns Distinct candidates, best first; empty if the response contains no JSON
+ */
+export function extractJsonCandidates(
+  text: string,
+  options: JsonExtractionOptions = {}
+): JsonCandidate[] {
+  const found: Array<Omit<JsonCandidate, 'issues'>> = [];
+
+  const whole = parseCandidate(text.trim());
+  if (whole) {
+    const start = text.indexOf(text.trim());
+    found.push({ ...whole, source: 'whole', start, end: start + text.trim().length });
+  }
+
+  for (const fence of findFences(text)) {
+    const parsed = parseCandidate(fence.body);
+    if (parsed) found.push({ ...parsed, source: 'fence', start: fence.start, end: fence.end });
+  }
+
+  for (const region of scanBalanced(text)) {
+    found.push({ ...region.parsed, source: 'scan', start: region.start, end: region.end });
+  }
+
+  const seen = new Set<string>();
+  const candidates: JsonCandidate[] = [];
+  for (const candidate of found) {
+    const key = JSON.stringify(candidate.value);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    candidates.push({
+      ...candidate,
+      issues: options.schema ? validateSchema(options.schema, candidate.value) : [],
+    });
+  }
+
+  return candidates.sort(
+    (a, b) =>
+      a.issues.length - b.issues.length ||
+      Number(a.repaired) - Number(b.repaired) ||
+      SOURCE_RANK[a.source] - SOURCE_RANK[b.source] ||
+      b.end - b.start - (a.end - a.start) ||
+      a.start - b.start
+  );
+}
+
+/**
+ * Extracts the JSON document that matches a schema from a model response
+ *
+ * @param text - Model response
+ * @param target - Schema of the expected document
+ * @returns The best candidate, which matches the schema
+ * @throws SchemaValidationError of the closest candidate if none matches,
+ *   Error if the response contains no JSON at all
+ */
+export function extractJson<T>(text: string, target: Schema<T>): T {
+  const [best] = extractJsonCandidates(text, { schema: target });
+  if (!best) {
+    throw new Error('No JSON object or array found in the response');
+  }
+  if (best.issues.length > 0) {
+    throw new SchemaValidationError(best.issues);
+  }
+  return best.value as T;
+}
+
+/**
+ * Parses candidate text leniently, unwrapping string-encoded JSON
+ *
+ * @returns Parsed object or array, or null if the text is not JSON
+ */
+function parseCandidate(candidate: string): ParsedCandidate | null {
+  if (!candidate) return null;
+
+  const direct = parseLenient(candidate);
+  if (direct) {
+    // A JSON string whose content is JSON (double encoding)
+    if (typeof direct.value === 'string') {
+      const inner = parseLenient(direct.value.trim());
+      return inner && isContainer(inner.value)
+        ? { value: inner.value, repaired: direct.repaired || inner.repaired, decoded: true }
+        : null;
+    }
+    return isContainer(direct.value) ? { ...direct, decoded: false } : null;
+  }
+
+  // Escaped JSON without the surrounding quotes, e.g. {\"a\": 1}
+  if (candidate.includes('\\"')) {
+    try {
+      const unescaped = JSON.parse(`"${candidate}"`) as string;
+      const inner = parseLenient(unescaped.trim());
+      if (inner && isContainer(inner.value)) {
+        return { ...inner, decoded: true };
+      }
+    } catch {
+      // Not an escaped string either
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parses JSON, retrying without comments and trailing commas
+ */
+function parseLenient(candidate: string): { value: unknown; repaired: boolean } | null {
+  try {
+    return { value: JSON.parse(candidate), repaired: false };
+  } catch {
+    // Fall through to the repaired text
+  }
+
+  const repaired = stripCommentsAndTrailingCommas(candidate);
+  if (repaired === candidate) return null;
+  try {
+    return { value: JSON.parse(repaired), repaired: true };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a value is a JSON object or array
+ */
+function isContainer(value: unknown): boolean {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Removes `//` and `/* *\/` comments and commas before `}` or `]`, outside strings
+ */
+function stripCommentsAndTrailingCommas(candidate: string): string {
+  let output = '';
+  let inString = false;
+
+  for (let i = 0; i < candidate.length; i++) {
+    const char = candidate[i];
+    const next = candidate[i + 1];
+
+    if (inString) {
+      output += char;
+      if (char === '\\') {
+        output += next ?? '';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === '/' && next === '/') {
+      const newline = candidate.indexOf('\n', i);
+      i = newline === -1 ? candidate.length : newline - 1;
+    } else if (char === '/' && next === '*') {
+      const close = candidate.indexOf('*/', i + 2);
+      i = close === -1 ? candidate.length : close + 1;
+    } else if (char === ',') {
+      GAP_PATTERN.lastIndex = i + 1;
+      const gap = GAP_PATTERN.exec(candidate)?.[0] ?? '';
+      const following = candidate[i + 1 + gap.length];
+      if (following !== '}' && following !== ']') output += char;
+    } else {
+      output += char;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Finds Markdown code fences (``` or ~~~, any language tag)
+ */
+function findFences(text: string): Array<{ body: string; start: number; end: number }> {
+  const fences: Array<{ body: string; start: number; end: number }> = [];
+  const pattern = /(^|\n)[ \t]*(`{3,}|~{3,})[^\n]*\n([\s\S]*?)\n[ \t]*\2[ \t]*(?=\n|$)/g;
+
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index + (match[1]?.length ?? 0);
+    fences.push({ body: (match[3] ?? '').trim(), start, end: match.index + match[0].length });
+  }
+  return fences;
+}
+
+/**
+ * Finds balanced top-level `{...}`/`[...]` regions that parse as JSON
+ *
+ * Brackets inside JSON strings do not count. A region that does not parse
+ * (e.g. prose in braces) is skipped past its opening bracket only, so JSON
+ * nested in it is still found.
+ */
+function scanBalanced(
+  text: string
+): Array<{ parsed: ParsedCandidate; start: number; end: number }> {
+  const regions: Array<{ parsed: ParsedCandidate; start: number; end: number }> = [];
+  let starts = 0;
+
+  for (let i = 0; i < text.length && starts < MAX_SCAN_STARTS; i++) {
+    const char = text[i];
+    if (char !== '{' && char !== '[') continue;
+    starts++;
+
+    const end = findClosingBracket(text, i);
+    if (end === -1) continue;
+
+    const parsed = parseCandidate(text.slice(i, end + 1));
+    if (parsed) {
+      regions.push({ parsed, start: i, end: end + 1 });
+      i = end;
+    }
+  }
+  return regions;
+}
+
+/**
+ * Returns the index of the bracket closing the one at `start`, or -1
+ */
+function findClosingBracket(text: string, start: number): number {
+  const stack: string[] = [];
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '\\':
+        // Escaped quotes of escaped JSON do not open strings
+        i++;
+        break;
+      case '"':
+        inString = true;
+        break;
+      case '{':
+        stack.push('}');
+        break;
+      case '[':
+        stack.push(']');
+        break;
+      case '}':
+      case ']':
+        if (stack.pop() !== char) return -1;
+        if (stack.length === 0) return i;
+        break;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AgentConfigError, AgentExitError, AgentRateLimitError } from '../errors.js';
+import type { AgentEvent } from '../events.js';
+import { createRecording, ReplayProcess } from '../recording.js';
+import { FakeAgent } from './main.js';
+
+describe('FakeAgent', () => {
+  it('answers with a fixed response and records the prompt', async () => {
+    const agent = new FakeAgent({ responses: { stdout: '  hello  ' } });
+
+    assert.equal(await agent.execute('first'), 'hello');
+    assert.equal(await agent.execute('second'), 'hello');
+    assert.deepEqual(agent.prompts, ['first', 'second']);
+  });
+
+  it('consumes a response queue in call order', async () => {
+    const agent = new FakeAgent({ responses: [{ stdout: 'one' }, { stdout: 'two' }] });
+
+    assert.equal(await agent.execute('a'), 'one');
+    assert.equal(await agent.execute('b'), 'two');
+    await assert.rejects(agent.execute('c'), AgentConfigError);
+  });
+
+  it('answers with a function of the prompt and call index', async () => {
+    const agent = new FakeAgent({
+      responses: (prompt, callIndex) => ({ stdout: `${callIndex}:${prompt}` }),
+    });
+
+    assert.equal(await agent.execute('x'), '0:x');
+    assert.equal(await agent.execute('y'), '1:y');
+  });
+
+  it('emits each stdout chunk as a text delta followed by a result', async () => {
+    const agent = new FakeAgent({ responses: { stdout: ['Hel', 'lo'] } });
+    const events: AgentEvent[] = [];
+    for await (const event of agent.executeStream('prompt')) {
+      events.push(event);
+    }
+
+    const deltas = events.flatMap((event) => (event.type === 'text_delta' ? [event.text] : []));
+    assert.deepEqual(deltas, ['Hel', 'lo']);
+    assert.equal(events.at(-1)?.type, 'result');
+  });
+
+  it('plays a response with a run time in real time', async () => {
+    const agent = new FakeAgent({ responses: { stdout: ['a', 'b'], durationMs: 150 } });
+
+    const startedAt = Date.now();
+    assert.equal(await agent.execute('prompt'), 'ab');
+    assert.ok(Date.now() - startedAt >= 140);
+  });
+
+  it('fails with a classified exit error for a non-zero exit code', async () => {
+    const agent = new FakeAgent({
+      responses: { stderr: 'Error: 429 Too Many Requests', exitCode: 1 },
+    });
+
+    const error = await agent.execute('prompt').catch((e: unknown) => e);
+    assert.ok(error instanceof AgentRateLimitError);
+    assert.equal(error.exitCode, 1);
+  });
+
+  it('retries failed runs according to the retry policy', async () => {
+    const agent = new FakeAgent({
+      responses: [{ stderr: 'rate limit exceeded', exitCode: 1 }, { stdout: 'done' }],
+      retry: { maxAttempts: 2, initialDelayMs: 1 },
+    });
+
+    assert.equal(await agent.execute('prompt'), 'done');
+    assert.equal(agent.prompts.length, 2);
+  });
+
+  it('reports the plain exit code when stderr is not recognized', async () => {
+    const agent = new FakeAgent({ responses: { stderr: 'segfault', exitCode: 139 } });
+
+    const error = await agent.execute('prompt').catch((e: unknown) => e);
+    assert.ok(error instanceof AgentExitError);
+    assert.equal(error.name, 'AgentExitError');
+    assert.match(error.message, /code 139: segfault/);
+  });
+});
+
+describe('ReplayProcess', () => {
+  it('plays back chunks with their boundaries and the recorded exit code', async () => {
+    const recording = createRecording('Test', {
+      stdout: ['a', 'b'],
+      stderr: ['warn'],
+      exitCode: 3,
+    });
+    const replay = new ReplayProcess(recording);
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    replay.stdout.on('data', (data: Buffer) => stdout.push(data.toString()));
+    replay.stderr.on('data', (data: Buffer) => stderr.push(data.toString()));
+
+    const code = await new Promise((resolve) => replay.once('close', resolve));
+    assert.deepEqual(stdout, ['a', 'b']);
+    assert.deepEqual(stderr, ['warn']);
+    assert.equal(code, 3);
+  });
+
+  it('stops when killed and reports the signal', async () => {
+    const replay = new ReplayProcess(createRecording('Test', { stdout: ['a', 'b', 'c'] }));
+    replay.stdout.resume();
+    const closed = new Promise<[unknown, unknown]>((resolve) =>
+      replay.once('close', (code, signal) => resolve([code, signal]))
+    );
+
+    assert.equal(replay.kill('SIGTERM'), true);
+    assert.deepEqual(await closed, [null, 'SIGTERM']);
+    assert.equal(replay.kill(), false);
+  });
+});
@@ -0,0 +1,211 @@
+import { CLIAgent, type CLIAgentConfig, type ExecutionContext } from '../agent.js';
+import { AgentConfigError } from '../errors.js';
+import { type AgentProcess, createRecording, ReplayProcess } from '../recording.js';
+import type { PromptDelivery } from '../transport.js';
+
+/**
+ * Scripted output of a single fake run
+ */
+export type FakeResponse = {
+  readonly stdout?: string | readonly string[];
+  readonly stderr?: string | readonly string[];
+  readonly exitCode?: number;
+  /** Run time of the fake process; its chunks are spread evenly over it in real time */
+  readonly durationMs?: number;
+};
+
+/**
+ * Source of fake responses: a fixed response, a queue consumed in call order,
+ * or a function of the prompt
+ */
+export type FakeResponder =
+  | FakeResponse
+  | readonly FakeResponse[]
+  | ((prompt: string, callIndex: number) => FakeResponse);
+
+/**
+ * Configuration options for the fake agent
+ */
+export type FakeAgentConfig = CLIAgentConfig & {
+  readonly responses: FakeResponder;
+  readonly agentName?: string;
+};
+
+/**
+ * Per-execution output buffer of the fake agent
+ */
+type FakeRunState = {
+  output: string;
+};
+
+/**
+ * Offline agent that answers prompts with scripted output
+ *
+ * Scripted stdout/stderr chunks are played back through a ReplayProcess, so
+ * timeouts, cancellation, retries and events behave exactly as for real CLIs.
+ * The stdout text is the result; a non-zero exit code fails the run.
+ *
+ * @example
+ * ```typescript
+ * const agent = new FakeAgent({ responses: [{ stdout: '{"summary": "..."}' }] });
+ * const planner = new Planner({ agent });
+ * await planner.createPlan('Build a CLI');
+ * console.log(agent.prompts[0]);
+ * ```
+ */
+export class FakeAgent extends CLIAgent<FakeRunState> {
+  /** Prompts received so far, in call order */
+  readonly prompts: string[] = [];
+  private readonly responder: FakeResponder;
+  private readonly agentName: string;
+
+  /**
+   * Creates a new fake agent
+   *
+   * @param config - Scripted responses and common agent options
+   */
+  constructor(config: FakeAgentConfig) {
+    super('FakeAgent', config);
+    this.responder = config.responses;
+    this.agentName = config.agentName ?? 'Fake Agent';
+  }
+
+  /**
+   * Returns the command name stored in recordings
+   */
+  protected getCommandName(): string {
+    return 'fake';
+  }
+
+  /**
+   * Returns the agent name for logging
+   */
+  protected getAgentName(): string {
+    // Called from the base constructor before agentName is assigned
+    return this.agentName ?? 'Fake Agent';
+  }
+
+  /**
+   * Builds command line arguments; only used for recordings
+   *
+   * @param delivery - How the prompt is delivered
+   */
+  protected buildCommandArgs(delivery: PromptDelivery): string[] {
+    return delivery.transport === 'arg' ? [delivery.prompt] : [];
+  }
+
+  /**
+   * Plays back the scripted response instead of spawning a process
+   *
+   * @param context - Execution context the process belongs to
+   */
+  protected override createProcess(context: ExecutionContext<FakeRunState>): AgentProcess {
+    const callIndex = this.prompts.length;
+    this.prompts.push(context.prompt);
+
+    const response = this.nextResponse(context.prompt, callIndex);
+    const toArray = (value: string | readonly string[] | undefined): readonly string[] =>
+      value === undefined ? [] : typeof value === 'string' ? [value] : value;
+
+    const recording = createRecording(this.getAgentName(), {
+      stdout: toArray(response.stdout),
+      stderr: toArray(response.stderr),
+      exitCode: response.exitCode ?? 0,
+      prompt: context.prompt,
+    });
+    if (response.durationMs === undefined) {
+      return new ReplayProcess(recording, this.config.replayTiming);
+    }
+
+    const { durationMs } = response;
+    const step = durationMs / (recording.chunks.length + 1);
+    return new ReplayProcess(
+      {
+        ...recording,
+        durationMs,
+        chunks: recording.chunks.map((chunk, i) => ({ ...chunk, offsetMs: step * (i + 1) })),
+      },
+      'realtime'
+    );
+  }
+
+  /**
+   * Creates the per-execution output buffer
+   */
+  protected createRunState(): FakeRunState {
+    return { output: '' };
+  }
+
+  /**
+   * Collects stdout and emits it as text deltas
+   *
+   * @param context - Execution context the data belongs to
+   * @param data - Raw stdout data
+   */
+  protected handleStdoutData(context: ExecutionContext<FakeRunState>, data: Buffer): void {
+    const text = data.toString();
+    context.state.output += text;
+    this.emit(context, { type: 'text_delta', text });
+  }
+
+  /**
+   * Logs stderr output
+   *
+   * @param context - Execution context the data belongs to
+   * @param data - Raw stderr data
+   */
+  protected handleStderrData(context: ExecutionContext<FakeRunState>, data: Buffer): void {
+    this.log.debug('Received stderr data', { executionId: context.id, content: data.toString() });
+  }
+
+  /**
+   * Resolves with the collected stdout or rejects with a classified exit error
+   *
+   * @param context - Execution context of the finished run
+   * @param code - Exit code
+   * @param resolve - Promise resolve function
+   * @param reject - Promise reject function
+   */
+  protected handleProcessExit(
+    context: ExecutionContext<FakeRunState>,
+    code: number | null,
+    resolve: (result: string) => void,
+    reject: (error: Error) => void
+  ): void {
+    const exitCode = code || 0;
+
+    if (exitCode !== 0) {
+      reject(this.createExitError(context, exitCode));
+      return;
+    }
+
+    const result = context.state.output.trim();
+    this.emit(context, { type: 'result', text: result, isError: false });
+    resolve(result);
+  }
+
+  /**
+   * Picks the scripted response for a call
+   *
+   * @param prompt - Prompt of the call
+   * @param callIndex - Zero-based index of the call
+   */
+  private nextResponse(prompt: string, callIndex: number): FakeResponse {
+    if (typeof this.responder === 'function') {
+      return this.responder(prompt, callIndex);
+    }
+
+    if (Array.isArray(this.responder)) {
+      const response = this.responder[callIndex];
+      if (!response) {
+        throw new AgentConfigError(
+          this.getAgentName(),
+          `No scripted response for call ${callIndex + 1} (${this.responder.length} configured)`
+        );
+      }
+      return response;
+    }
+
+    return this.responder as FakeResponse;
+  }
+}
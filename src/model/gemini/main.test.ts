@@ -0,0 +1,231 @@
+import assert from 'node:assert/strict';
+import { access, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { AgentExitError, AgentParseError } from '../errors.js';
+import type { AgentEvent } from '../events.js';
+import { type AgentProcess, createRecording, type Recording, ReplayProcess } from '../recording.js';
+import { Gemini, type GeminiConfig } from './main.js';
+import {
+  compareVersions,
+  GEMINI_OUTPUT_PARSERS,
+  type GeminiParserFactory,
+  selectGeminiOutputFormat,
+} from './parser.js';
+
+/**
+ * Builds a recording of a Gemini run started with the given output mode arguments
+ */
+function geminiRecording(
+  args: string[],
+  output: { readonly stdout?: string[]; readonly stderr?: string[]; readonly exitCode?: number }
+): Recording {
+  return { ...createRecording('Gemini', output), args: ['--yolo', ...args] };
+}
+
+/**
+ * Collects the events of an execution
+ */
+async function collectEvents(gemini: Gemini, prompt: string): Promise<AgentEvent[]> {
+  const events: AgentEvent[] = [];
+  for await (const event of gemini.executeStream(prompt)) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('Gemini output parsers', () => {
+  it('parses stream-json events into text, tools, session and usage', async () => {
+    const lines = [
+      { type: 'init', session_id: 'gemini-session', model: 'gemini-test' },
+      { type: 'message', role: 'user', content: 'ignored' },
+      { type: 'message', role: 'assistant', content: 'Hello ', delta: true },
+      { type: 'tool_use', tool_name: 'read_file', tool_id: 't1', parameters: { path: 'a' } },
+      { type: 'tool_result', tool_id: 't1', status: 'success', output: 'contents' },
+      { type: 'message', role: 'assistant', content: 'world', delta: true },
+      {
+        type: 'result',
+        status: 'success',
+        stats: { input_tokens: 7, output_tokens: 3, duration_ms: 50 },
+      },
+    ].map((event) => `${JSON.stringify(event)}\n`);
+    const gemini = new Gemini({
+      replayFrom: geminiRecording(['--output-format', 'stream-json'], {
+        // Split a line across chunks
+        stdout: [lines.join('').slice(0, 30), lines.join('').slice(30)],
+      }),
+    });
+
+    const result = await gemini.executeDetailed('Say hello');
+    assert.equal(result.text, 'Hello world');
+    assert.equal(result.sessionId, 'gemini-session');
+    assert.deepEqual(result.usage, { inputTokens: 7, outputTokens: 3 });
+    assert.equal(result.toolCalls[0]?.name, 'read_file');
+    assert.equal(result.toolCalls[0]?.output, 'contents');
+  });
+
+  it('keeps characters split across chunks intact', async () => {
+    const answer = 'Übersetzt: „Grüße“ → こんにちは 🚀';
+    const outputs: [string[], string][] = [
+      [[], `${answer}\n`],
+      [
+        ['--output-format', 'stream-json'],
+        [
+          { type: 'message', role: 'assistant', content: answer, delta: true },
+          { type: 'result', status: 'success' },
+        ]
+          .map((event) => `${JSON.stringify(event)}\n`)
+          .join(''),
+      ],
+      [['--output-format', 'json'], JSON.stringify({ response: answer })],
+    ];
+
+    for (const [args, stdout] of outputs) {
+      // Re-chunk the output inside every multi-byte character
+      const bytes = Buffer.from(stdout);
+      for (let offset = 1; offset < bytes.length; offset++) {
+        if (((bytes[offset] ?? 0) & 0xc0) !== 0x80) continue;
+        const recording: Recording = {
+          ...geminiRecording(args, {}),
+          chunks: [bytes.subarray(0, offset), bytes.subarray(offset)].map((part) => ({
+            stream: 'stdout' as const,
+            offsetMs: 0,
+            data: part.toString('base64'),
+          })),
+        };
+        assert.equal(await new Gemini({ replayFrom: recording }).execute('prompt'), answer);
+      }
+    }
+  });
+
+  it('fails a stream-json run whose result reports an error', async () => {
+    const gemini = new Gemini({
+      replayFrom: geminiRecording(['--output-format', 'stream-json'], {
+        stdout: [
+          `${JSON.stringify({ type: 'result', status: 'error', error: { message: 'Quota exceeded' } })}\n`,
+        ],
+        exitCode: 1,
+      }),
+    });
+
+    const error = await gemini.execute('prompt').catch((e: unknown) => e);
+    assert.ok(error instanceof AgentExitError);
+    assert.match(error.message, /Quota exceeded/);
+  });
+
+  it('fails with AgentParseError when stream-json output has no events', async () => {
+    const gemini = new Gemini({
+      replayFrom: geminiRecording(['--output-format', 'stream-json'], {
+        stdout: ['Loaded cached credentials.\n'],
+      }),
+    });
+
+    await assert.rejects(gemini.execute('prompt'), AgentParseError);
+  });
+
+  it('parses the json document printed at exit', async () => {
+    const document = {
+      response: 'The answer',
+      stats: { models: { 'gemini-test': { tokens: { prompt: 4, candidates: 2, cached: 1 } } } },
+    };
+    const gemini = new Gemini({
+      replayFrom: geminiRecording(['--output-format', 'json'], {
+        stdout: ['Loaded cached credentials.\n', JSON.stringify(document, null, 2)],
+      }),
+    });
+
+    const result = await gemini.executeDetailed('prompt');
+    assert.equal(result.text, 'The answer');
+    assert.equal(result.model, 'gemini-test');
+    assert.deepEqual(result.usage, { inputTokens: 4, outputTokens: 2, cachedInputTokens: 1 });
+  });
+
+  it('parses text output and turns debug lines into progress events', async () => {
+    const gemini = new Gemini({
+      replayFrom: geminiRecording(['--debug'], {
+        stderr: ['[DEBUG] [MemoryDiscovery] Loading server hierarchical memory\n'],
+        stdout: ['Loaded cached credentials.\n', 'Line one\n', '\n', 'Line two\n'],
+      }),
+    });
+
+    const events = await collectEvents(gemini, 'prompt');
+    const result = events.find((event) => event.type === 'result');
+    assert.equal(result?.type === 'result' && result.text, 'Line one\nLine two');
+    assert.ok(
+      events.some(
+        (event) => event.type === 'progress' && event.message === 'Gemini is loading memory context'
+      )
+    );
+  });
+
+  it('selects the richest output mode a CLI version supports', () => {
+    assert.equal(compareVersions('0.10.0', '0.9.0') > 0, true);
+    assert.equal(selectGeminiOutputFormat('0.12.1'), 'stream-json');
+    assert.equal(selectGeminiOutputFormat('0.6.0'), 'json');
+    assert.equal(selectGeminiOutputFormat('0.1.12'), 'text');
+  });
+});
+
+/**
+ * Gemini whose `--version` check runs a script that leaves a marker file, and
+ * whose runs play back a recording
+ */
+class DetectingGemini extends Gemini {
+  constructor(
+    config: GeminiConfig,
+    private readonly command: string,
+    private readonly recording: Recording
+  ) {
+    super(config);
+  }
+
+  protected override getCommandName(): string {
+    return this.command;
+  }
+
+  protected override createProcess(): AgentProcess {
+    return new ReplayProcess(this.recording);
+  }
+}
+
+describe('Gemini version detection', { skip: process.platform === 'win32' }, () => {
+  /**
+   * Runs a prompt with a stand-in CLI and reports whether its version was checked
+   */
+  async function runDetecting(
+    config: GeminiConfig
+  ): Promise<{ text: string; versionChecked: boolean }> {
+    const directory = await mkdtemp(join(tmpdir(), 'gemini-test-'));
+    try {
+      const command = join(directory, 'gemini');
+      await writeFile(command, '#!/bin/sh\ntouch "$0.version-checked"\necho 0.1.0\n', {
+        mode: 0o755,
+      });
+      const recording = createRecording('Gemini', { stdout: ['The answer\n'] });
+      const text = await new DetectingGemini(config, command, recording).execute('prompt');
+      const versionChecked = await access(`${command}.version-checked`).then(
+        () => true,
+        () => false
+      );
+      return { text, versionChecked };
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  }
+
+  it('detects the CLI version to choose the output mode', async () => {
+    assert.deepEqual(await runDetecting({}), { text: 'The answer', versionChecked: true });
+  });
+
+  it('does not run the CLI to detect its version when a custom parser is set', async () => {
+    let created = 0;
+    const parser: GeminiParserFactory = (sink) => {
+      created++;
+      return GEMINI_OUTPUT_PARSERS.text(sink);
+    };
+
+    assert.deepEqual(await runDetecting({ parser }), { text: 'The answer', versionChecked: false });
+    assert.equal(created, 1);
+  });
+});
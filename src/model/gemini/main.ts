@@ -1,9 +1,45 @@
-import { CLIAgent, type CLIAgentConfig } from '../agent.js';
+import { StringDecoder } from 'node:string_decoder';
+import { CLIAgent, type CLIAgentConfig, type ExecutionContext } from '../agent.js';
+import { AgentParseError } from '../errors.js';
+import type { Recording } from '../recording.js';
+import type { PromptDelivery } from '../transport.js';
+import {
+  detectGeminiVersion,
+  GEMINI_OUTPUT_PARSERS,
+  type GeminiOutputFormat,
+  type GeminiOutputParser,
+  type GeminiParserFactory,
+  selectGeminiOutputFormat,
+} from './parser.js';
 
 /**
  * Configuration options for Gemini Code execution
  */
-export type GeminiConfig = CLIAgentConfig;
+export type GeminiConfig = CLIAgentConfig & {
+  /**
+   * Output mode to request; `auto` (default) picks the richest mode the
+   * installed CLI supports, based on `gemini --version`
+   */
+  readonly outputFormat?: 'auto' | GeminiOutputFormat;
+  /** Version of the installed CLI, to skip detection (and for replays) */
+  readonly cliVersion?: string;
+  /** Custom output parser; overrides `outputFormat` */
+  readonly parser?: GeminiParserFactory;
+};
+
+/**
+ * Per-execution parsing state of Gemini
+ */
+type GeminiRunState = {
+  /** Set by `prepareExecution()` before the process starts */
+  parser: GeminiOutputParser | null;
+  pendingStdout: string;
+  pendingStderr: string;
+  /** Keep multi-byte characters split across chunks together */
+  stdoutDecoder: StringDecoder;
+  stderrDecoder: StringDecoder;
+  outputLength: number;
+};
 
 /**
  * Gemini Code agent class for executing prompts using Google's Gemini models
@@ -15,7 +51,13 @@ export type GeminiConfig = CLIAgentConfig;
  * console.log(result);
  * ```
  */
-export class Gemini extends CLIAgent {
+export class Gemini extends CLIAgent<GeminiRunState> {
+  private readonly outputFormat: 'auto' | GeminiOutputFormat;
+  private readonly cliVersion: string | undefined;
+  private readonly parserFactory: GeminiParserFactory | undefined;
+  /** Output mode detected for the installed CLI, shared by all runs */
+  private detectedFormat: Promise<GeminiOutputFormat> | null = null;
+
   /**
    * Creates a new Gemini Code instance
    *
@@ -23,6 +65,9 @@ export class Gemini extends CLIAgent {
    */
   constructor(config: GeminiConfig = {}) {
     super('Gemini', config);
+    this.outputFormat = config.outputFormat ?? 'auto';
+    this.cliVersion = config.cliVersion;
+    this.parserFactory = config.parser;
   }
 
   /**
@@ -39,225 +84,284 @@ export class Gemini extends CLIAgent {
     return 'Gemini';
   }
 
-  /**
-   * Returns spawn options for the child process
-   */
-  protected getSpawnOptions(): any {
-    return {
-      stdio: ['inherit', 'pipe', 'pipe'],
-      shell: false,
-    };
-  }
-
   /**
    * Builds command line arguments for Gemini execution
    *
-   * @param prompt - The prompt to execute
+   * Without `-p`, Gemini CLI runs non-interactively and reads the prompt from stdin.
+   *
+   * @param delivery - How the prompt is delivered
+   * @param context - Execution context, whose parser selects the output mode
    * @returns Array of command line arguments
    */
-  protected buildCommandArgs(prompt: string): string[] {
-    const escapedPrompt = this.escapePrompt(prompt);
-
+  protected buildCommandArgs(
+    delivery: PromptDelivery,
+    context: ExecutionContext<GeminiRunState>
+  ): string[] {
     const args = [
-      '-p',
-      escapedPrompt,
       '--yolo', // Enable YOLO mode to avoid interactive confirmations
     ];
 
-    // Add debug flag if in development
-    if (process.env['NODE_ENV'] !== 'production') {
-      args.push('--debug');
+    if (delivery.transport === 'arg') {
+      // Attached form so prompts starting with '-' are not taken as flags
+      args.unshift(`--prompt=${delivery.prompt}`);
     }
 
+    // Output mode flags (`--output-format`, or `--debug` for text mode)
+    args.push(...this.getParser(context).args);
+
     // Add any additional arguments
     args.push(...this.config.additionalArgs);
 
     return args;
   }
 
+  /**
+   * Announces the model and working directory, which Gemini CLI does not report itself
+   *
+   * @param context - Execution context of this run
+   * @param args - Command line arguments the process was started with
+   */
+  protected override handleProcessStart(
+    context: ExecutionContext<GeminiRunState>,
+    args: string[]
+  ): void {
+    const model = this.findModelArg(args) ?? process.env['GEMINI_MODEL'];
+    this.emit(context, {
+      type: 'session_started',
+      ...(model && { model }),
+      cwd: context.cwd,
+    });
+  }
+
+  /**
+   * Returns the value of a `--model`/`-m` argument, if present
+   *
+   * @param args - Command line arguments
+   */
+  private findModelArg(args: string[]): string | undefined {
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (arg?.startsWith('--model=')) return arg.slice('--model='.length);
+      if (arg === '--model' || arg === '-m') return args[i + 1];
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the variables Gemini CLI reads its credentials and settings from
+   */
+  protected override getRequiredEnvironment(): readonly string[] {
+    return ['GEMINI_*', 'GOOGLE_*'];
+  }
+
+  /**
+   * Chooses the output parser for a run
+   *
+   * Replays use the output mode of the recorded command line, so recordings
+   * stay readable regardless of the CLI installed now. A custom parser brings
+   * its own output mode flags, so the CLI version is not detected for it.
+   *
+   * @param context - Execution context of this run
+   * @param replay - Recording being replayed, if any
+   */
+  protected override async prepareExecution(
+    context: ExecutionContext<GeminiRunState>,
+    replay: Recording | null
+  ): Promise<void> {
+    let factory = this.parserFactory;
+    if (!factory) {
+      const format = replay ? findOutputFormatArg(replay.args) : await this.resolveOutputFormat();
+      factory = GEMINI_OUTPUT_PARSERS[format];
+    }
+
+    context.state.parser = factory({
+      emit: (event) => this.emit(context, event),
+      log: this.log,
+    });
+    this.log.debug('Selected Gemini output parser', {
+      executionId: context.id,
+      format: context.state.parser.format,
+    });
+  }
+
+  /**
+   * Resolves the configured output mode, detecting the CLI version once if needed
+   */
+  private resolveOutputFormat(): Promise<GeminiOutputFormat> {
+    if (this.outputFormat !== 'auto') return Promise.resolve(this.outputFormat);
+    if (this.cliVersion !== undefined) {
+      return Promise.resolve(selectGeminiOutputFormat(this.cliVersion));
+    }
+
+    this.detectedFormat ??= detectGeminiVersion(this.getCommandName()).then((version) => {
+      const format = selectGeminiOutputFormat(version);
+      this.log.info('Detected Gemini CLI version', { version, format });
+      return format;
+    });
+    return this.detectedFormat;
+  }
+
+  /**
+   * Returns the parser of a run, falling back to text mode if none was chosen
+   *
+   * @param context - Execution context of the run
+   */
+  private getParser(context: ExecutionContext<GeminiRunState>): GeminiOutputParser {
+    context.state.parser ??= GEMINI_OUTPUT_PARSERS.text({
+      emit: (event) => this.emit(context, event),
+      log: this.log,
+    });
+    return context.state.parser;
+  }
+
+  /**
+   * Creates the per-execution parsing state
+   */
+  protected createRunState(): GeminiRunState {
+    return {
+      parser: null,
+      pendingStdout: '',
+      pendingStderr: '',
+      stdoutDecoder: new StringDecoder('utf8'),
+      stderrDecoder: new StringDecoder('utf8'),
+      outputLength: 0,
+    };
+  }
+
   /**
    * Handles stdout data from Gemini process
    *
+   * @param context - Execution context the data belongs to
    * @param data - Raw stdout data
    */
-  protected handleStdoutData(data: Buffer): void {
-    const output = data.toString();
-    this.outputBuffer += output;
+  protected handleStdoutData(context: ExecutionContext<GeminiRunState>, data: Buffer): void {
+    const output = context.state.stdoutDecoder.write(data);
+    context.state.outputLength += output.length;
     this.log.debug('Received stdout data', {
+      executionId: context.id,
       dataLength: output.length,
       content: output,
     });
+
+    const parser = this.getParser(context);
+    const lines = (context.state.pendingStdout + output).split('\n');
+    context.state.pendingStdout = lines.pop() ?? '';
+    for (const line of lines) {
+      parser.stdoutLine(line);
+    }
   }
 
   /**
    * Handles stderr data from Gemini process
    *
+   * @param context - Execution context the data belongs to
    * @param data - Raw stderr data
    */
-  protected handleStderrData(data: Buffer): void {
-    const errorMessage = data.toString();
-    this.errorBuffer += errorMessage;
-
-    // Parse debug messages for activity tracking
-    this.parseGeminiActivity(errorMessage);
-
+  protected handleStderrData(context: ExecutionContext<GeminiRunState>, data: Buffer): void {
+    const errorMessage = context.state.stderrDecoder.write(data);
     this.log.debug('Received stderr data', {
+      executionId: context.id,
       dataLength: errorMessage.length,
       content: errorMessage,
     });
+
+    const parser = this.getParser(context);
+    const lines = (context.state.pendingStderr + errorMessage).split('\n');
+    context.state.pendingStderr = lines.pop() ?? '';
+    for (const line of lines) {
+      try {
+        parser.stderrLine(line);
+      } catch (error) {
+        // Activity tracking must not break the main flow
+        this.log.debug('Failed to parse activity', {
+          line: line.substring(0, 100),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
   }
 
   /**
    * Handles process exit
    *
+   * @param context - Execution context of the finished run
    * @param code - Exit code
    * @param resolve - Promise resolve function
    * @param reject - Promise reject function
-   * @param prompt - Original prompt for logging
    */
   protected handleProcessExit(
+    context: ExecutionContext<GeminiRunState>,
     code: number | null,
     resolve: (result: string) => void,
-    reject: (error: Error) => void,
-    prompt: string
+    reject: (error: Error) => void
   ): void {
+    const { state } = context;
+    const parser = this.getParser(context);
     const exitCode = code || 0;
 
+    // Flush trailing lines that were not newline-terminated
+    state.pendingStdout += state.stdoutDecoder.end();
+    state.pendingStderr += state.stderrDecoder.end();
+    if (state.pendingStdout) parser.stdoutLine(state.pendingStdout);
+    if (state.pendingStderr) parser.stderrLine(state.pendingStderr);
+    state.pendingStdout = '';
+    state.pendingStderr = '';
+
+    const parsed = parser.finish();
+
     this.log.debug('Process exited', {
+      executionId: context.id,
       exitCode,
-      outputLength: this.outputBuffer.length,
-      errorLength: this.errorBuffer.length,
+      format: parser.format,
+      outputLength: state.outputLength,
+      resultLength: parsed.text.length,
     });
 
-    if (exitCode === 0) {
-      // Clean up the output (remove debug messages and extra whitespace)
-      const cleanedOutput = this.cleanOutput(this.outputBuffer);
-
+    if (exitCode === 0 && parsed.parseError) {
+      const error = new AgentParseError(this.getAgentName(), parsed.parseError, context.stderrTail);
+      this.log.error('Gemini execution failed', { prompt: context.prompt, error: error.message });
+      reject(error);
+    } else if (exitCode === 0 && !parsed.error) {
       this.log.info('Gemini execution completed successfully', {
-        prompt: prompt,
-        resultLength: cleanedOutput.length,
+        prompt: context.prompt,
+        resultLength: parsed.text.length,
       });
-      resolve(cleanedOutput);
+      this.emit(context, {
+        type: 'result',
+        text: parsed.text,
+        isError: false,
+        ...(parsed.sessionId && { sessionId: parsed.sessionId }),
+        ...(parsed.durationMs !== undefined && { durationMs: parsed.durationMs }),
+        ...(parsed.usage && { usage: parsed.usage }),
+      });
+      resolve(parsed.text);
     } else {
-      const error = new Error(
-        `Gemini process exited with code ${exitCode}. Error: ${this.errorBuffer.trim()}`
-      );
+      const error = this.createExitError(context, exitCode, parsed.error);
       this.log.error('Gemini execution failed', {
-        prompt: prompt,
+        prompt: context.prompt,
         exitCode,
         error: error.message,
-        stderr: this.errorBuffer.trim(),
+        stderr: context.stderrTail.trim(),
       });
       reject(error);
     }
   }
+}
 
-  // Private properties for output buffering
-  private outputBuffer = '';
-  private errorBuffer = '';
-
-  /**
-   * Parses Gemini CLI activity from debug messages for real-time tracking
-   *
-   * @param data - Raw stderr data from Gemini CLI
-   */
-  private parseGeminiActivity(data: string): void {
-    const lines = data.split('\n');
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed || !trimmed.startsWith('[DEBUG]')) continue;
-
-      try {
-        // Parse different types of debug messages
-        if (trimmed.includes('MemoryDiscovery')) {
-          this.handleMemoryActivity(trimmed);
-        } else if (trimmed.includes('BfsFileSearch')) {
-          this.handleFileSearchActivity(trimmed);
-        } else if (trimmed.includes('CLI:')) {
-          this.handleCliActivity(trimmed);
-        } else if (trimmed.includes('Tool')) {
-          this.handleToolActivity(trimmed);
-        }
-      } catch (error) {
-        // Ignore parsing errors to avoid breaking the main flow
-        this.log.debug('Failed to parse activity', {
-          line: trimmed.substring(0, 100),
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
-    }
-  }
-
-  /**
-   * Handles memory-related activity logging
-   */
-  private handleMemoryActivity(line: string): void {
-    if (line.includes('Loading server hierarchical memory')) {
-      this.log.info('Gemini is loading memory context');
-    } else if (line.includes('Searching for GEMINI.md')) {
-      this.log.info('Gemini is searching for context files');
-    } else if (line.includes('No GEMINI.md files found')) {
-      this.log.info('Gemini memory search completed');
-    }
-  }
-
-  /**
-   * Handles file search activity logging
-   */
-  private handleFileSearchActivity(line: string): void {
-    const scanMatch = line.match(/Scanning \[(\d+)\/(\d+)\]/);
-    if (scanMatch?.[1] && scanMatch[2]) {
-      const [, current, total] = scanMatch;
-      if (parseInt(current) % 20 === 0 || current === total) {
-        this.log.info('Gemini is scanning project files', {
-          progress: `${current}/${total}`,
-          percentage: Math.round((parseInt(current) / parseInt(total)) * 100),
-        });
-      }
-    }
-  }
-
-  /**
-   * Handles CLI initialization activity logging
-   */
-  private handleCliActivity(line: string): void {
-    if (line.includes('Delegating hierarchical memory load')) {
-      this.log.info('Gemini is initializing context loading');
-    }
-  }
-
-  /**
-   * Handles tool-related activity logging
-   */
-  private handleToolActivity(line: string): void {
-    if (line.includes('Tool execution')) {
-      this.log.debug('Gemini is executing a tool');
-    } else if (line.includes('Tool result')) {
-      this.log.debug('Gemini tool execution completed');
-    }
-  }
-
-  /**
-   * Cleans the output from Gemini CLI by removing debug messages and extra whitespace
-   *
-   * @param rawOutput - Raw output from Gemini CLI
-   * @returns Cleaned output string
-   */
-  private cleanOutput(rawOutput: string): string {
-    return rawOutput
-      .split('\n')
-      .filter((line) => {
-        // Filter out debug messages and system notifications
-        const trimmed = line.trim();
-        return (
-          trimmed &&
-          !trimmed.startsWith('[DEBUG]') &&
-          !trimmed.startsWith('Loaded cached credentials') &&
-          !trimmed.startsWith('Flushing log events')
-        );
-      })
-      .join('\n')
-      .trim();
+/**
+ * Returns the output mode a recorded command line requested
+ *
+ * @param args - Command line arguments of the recorded run
+ */
+function findOutputFormatArg(args: readonly string[]): GeminiOutputFormat {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = arg?.startsWith('--output-format=')
+      ? arg.slice('--output-format='.length)
+      : arg === '--output-format' || arg === '-o'
+        ? args[i + 1]
+        : undefined;
+    if (value === 'json' || value === 'stream-json') return value;
   }
+  return 'text';
 }
@@ -0,0 +1,479 @@
+import { execFile } from 'node:child_process';
+import type { ILogObj, Logger } from 'tslog';
+import type { AgentEventInput, TokenUsage } from '../events.js';
+
+/**
+ * Output modes of Gemini CLI
+ *
+ * - `stream-json`: one JSON event per line (`--output-format stream-json`)
+ * - `json`: a single JSON document at exit (`--output-format json`)
+ * - `text`: plain answer on stdout, activity scraped from `--debug` stderr
+ */
+export type GeminiOutputFormat = 'stream-json' | 'json' | 'text';
+
+/**
+ * Receiver of what a parser finds in Gemini CLI output
+ */
+export type GeminiParserSink = {
+  readonly emit: (event: AgentEventInput) => void;
+  readonly log: Logger<ILogObj>;
+};
+
+/**
+ * Outcome of a run as read from its output
+ */
+export type GeminiParseResult = {
+  readonly text: string;
+  /** Error the CLI reported in its output, if any */
+  readonly error?: string;
+  /** Why the output could not be read at all, if it could not */
+  readonly parseError?: string;
+  readonly sessionId?: string;
+  readonly durationMs?: number;
+  readonly usage?: TokenUsage;
+};
+
+/**
+ * Parser for the output of one Gemini CLI run
+ *
+ * Parsers receive complete lines and report activity through the sink as it
+ * happens; `finish()` is called once after the process has exited.
+ */
+export interface GeminiOutputParser {
+  readonly format: GeminiOutputFormat;
+  /** Arguments that select this parser's output mode */
+  readonly args: readonly string[];
+  stdoutLine(line: string): void;
+  stderrLine(line: string): void;
+  finish(): GeminiParseResult;
+}
+
+/**
+ * Creates a parser for one run
+ */
+export type GeminiParserFactory = (sink: GeminiParserSink) => GeminiOutputParser;
+
+/**
+ * First Gemini CLI version that supports each structured output mode, newest first
+ */
+export const GEMINI_FORMAT_SUPPORT: ReadonlyArray<{
+  readonly format: GeminiOutputFormat;
+  readonly minVersion: string;
+}> = [
+  { format: 'stream-json', minVersion: '0.9.0' },
+  { format: 'json', minVersion: '0.6.0' },
+];
+
+/**
+ * Chooses the richest output mode a Gemini CLI version supports
+ *
+ * @param version - Version reported by `gemini --version`, or null if unknown
+ * @returns Output mode to use
+ */
+export function selectGeminiOutputFormat(version: string | null): GeminiOutputFormat {
+  if (!version) return 'text';
+  const supported = GEMINI_FORMAT_SUPPORT.find(
+    (entry) => compareVersions(version, entry.minVersion) >= 0
+  );
+  return supported?.format ?? 'text';
+}
+
+/**
+ * Compares two dotted version numbers, ignoring pre-release suffixes
+ *
+ * @returns Negative, zero or positive like `Array.prototype.sort` comparators
+ */
+export function compareVersions(a: string, b: string): number {
+  const parse = (version: string): number[] =>
+    (version.match(/\d+(?:\.\d+)*/)?.[0] ?? '0').split('.').map(Number);
+  const left = parse(a);
+  const right = parse(b);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+/**
+ * Asks the installed Gemini CLI for its version
+ *
+ * @param command - Gemini CLI executable
+ * @param timeoutMs - Time limit for the version check
+ * @returns Version such as `0.9.0`, or null if it could not be determined
+ */
+export function detectGeminiVersion(command = 'gemini', timeoutMs = 15000): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile(command, ['--version'], { timeout: timeoutMs }, (error, stdout) => {
+      if (error) {
+        resolve(null);
+        return;
+      }
+      resolve(stdout.match(/\d+\.\d+\.\d+(?:-[\w.]+)?/)?.[0] ?? null);
+    });
+  });
+}
+
+/**
+ * Event of `gemini --output-format stream-json`, one per line
+ */
+export type GeminiStreamEvent =
+  | { readonly type: 'init'; readonly session_id?: string; readonly model?: string }
+  | {
+      readonly type: 'message';
+      readonly role: 'user' | 'assistant';
+      readonly content: string;
+      readonly delta?: boolean;
+    }
+  | {
+      readonly type: 'tool_use';
+      readonly tool_name: string;
+      readonly tool_id?: string;
+      readonly parameters?: unknown;
+    }
+  | {
+      readonly type: 'tool_result';
+      readonly tool_id?: string;
+      readonly status: 'success' | 'error';
+      readonly output?: string;
+      readonly error?: { readonly type?: string; readonly message?: string };
+    }
+  | { readonly type: 'error'; readonly severity?: string; readonly message: string }
+  | {
+      readonly type: 'result';
+      readonly status: 'success' | 'error';
+      readonly error?: { readonly type?: string; readonly message?: string };
+      readonly stats?: {
+        readonly input_tokens?: number;
+        readonly output_tokens?: number;
+        readonly duration_ms?: number;
+      };
+    };
+
+/**
+ * Parser for `--output-format stream-json`
+ */
+class StreamJsonParser implements GeminiOutputParser {
+  readonly format = 'stream-json';
+  readonly args = ['--output-format', 'stream-json'];
+  private readonly sink: GeminiParserSink;
+  private text = '';
+  private eventCount = 0;
+  private error: string | undefined;
+  private sessionId: string | undefined;
+  private durationMs: number | undefined;
+  private usage: TokenUsage | undefined;
+
+  constructor(sink: GeminiParserSink) {
+    this.sink = sink;
+  }
+
+  stdoutLine(line: string): void {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) return;
+
+    let event: GeminiStreamEvent;
+    try {
+      event = JSON.parse(trimmed) as GeminiStreamEvent;
+    } catch (error) {
+      this.sink.log.warn('Skipped malformed Gemini output line', {
+        preview: trimmed.substring(0, 100),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    this.eventCount++;
+    this.handleEvent(event);
+  }
+
+  stderrLine(): void {}
+
+  finish(): GeminiParseResult {
+    if (this.eventCount === 0) {
+      return { text: '', parseError: 'Gemini produced no parseable stream-json events' };
+    }
+
+    return {
+      text: this.text.trim(),
+      ...(this.error !== undefined && { error: this.error }),
+      ...(this.sessionId !== undefined && { sessionId: this.sessionId }),
+      ...(this.durationMs !== undefined && { durationMs: this.durationMs }),
+      ...(this.usage && { usage: this.usage }),
+    };
+  }
+
+  private handleEvent(event: GeminiStreamEvent): void {
+    switch (event.type) {
+      case 'init':
+        this.sessionId = event.session_id;
+        this.sink.emit({
+          type: 'session_started',
+          ...(event.session_id && { sessionId: event.session_id }),
+          ...(event.model && { model: event.model }),
+        });
+        break;
+
+      case 'message':
+        if (event.role === 'assistant' && event.content) {
+          this.text += event.content;
+          this.sink.emit({ type: 'text_delta', text: event.content });
+        }
+        break;
+
+      case 'tool_use':
+        this.sink.log.debug('Gemini is using tool', { toolName: event.tool_name });
+        this.sink.emit({
+          type: 'tool_call',
+          ...(event.tool_id && { id: event.tool_id }),
+          name: event.tool_name,
+          ...(event.parameters !== undefined && { input: event.parameters }),
+        });
+        break;
+
+      case 'tool_result':
+        this.sink.emit({
+          type: 'tool_result',
+          ...(event.tool_id && { toolCallId: event.tool_id }),
+          output: event.status === 'error' ? (event.error?.message ?? event.output) : event.output,
+          isError: event.status === 'error',
+        });
+        break;
+
+      case 'error':
+        this.sink.log.warn('Gemini reported an error', {
+          severity: event.severity,
+          message: event.message,
+        });
+        this.sink.emit({
+          type: 'progress',
+          message: 'Gemini reported an error',
+          data: { message: event.message, ...(event.severity && { severity: event.severity }) },
+        });
+        break;
+
+      case 'result':
+        if (event.status === 'error') {
+          this.error = event.error?.message ?? 'Gemini run failed';
+        }
+        this.durationMs = event.stats?.duration_ms;
+        if (event.stats?.input_tokens !== undefined || event.stats?.output_tokens !== undefined) {
+          this.usage = {
+            inputTokens: event.stats.input_tokens ?? 0,
+            outputTokens: event.stats.output_tokens ?? 0,
+          };
+        }
+        break;
+
+      default:
+        break;
+    }
+  }
+}
+
+/**
+ * Document printed by `gemini --output-format json`
+ */
+type GeminiJsonOutput = {
+  readonly response?: string;
+  readonly stats?: {
+    readonly models?: Readonly<
+      Record<
+        string,
+        {
+          readonly tokens?: {
+            readonly prompt?: number;
+            readonly candidates?: number;
+            readonly cached?: number;
+          };
+        }
+      >
+    >;
+  };
+  readonly error?: { readonly type?: string; readonly message?: string };
+};
+
+/**
+ * Parser for `--output-format json`, which reports everything at exit
+ */
+class JsonParser implements GeminiOutputParser {
+  readonly format = 'json';
+  readonly args = ['--output-format', 'json'];
+  private readonly sink: GeminiParserSink;
+  private output = '';
+
+  constructor(sink: GeminiParserSink) {
+    this.sink = sink;
+  }
+
+  stdoutLine(line: string): void {
+    this.output += `${line}\n`;
+  }
+
+  stderrLine(): void {}
+
+  finish(): GeminiParseResult {
+    // The document may be preceded by notices such as "Loaded cached credentials."
+    const start = this.output.indexOf('{');
+    let document: GeminiJsonOutput;
+    try {
+      document = JSON.parse(start === -1 ? '' : this.output.slice(start)) as GeminiJsonOutput;
+    } catch {
+      return { text: '', parseError: 'Gemini produced no parseable JSON output' };
+    }
+
+    const models = Object.entries(document.stats?.models ?? {});
+    for (const [model] of models) {
+      this.sink.emit({ type: 'session_started', model });
+    }
+
+    const tokens = models.map(([, stats]) => stats.tokens ?? {});
+    const usage: TokenUsage | undefined =
+      tokens.length > 0
+        ? {
+            inputTokens: tokens.reduce((sum, t) => sum + (t.prompt ?? 0), 0),
+            outputTokens: tokens.reduce((sum, t) => sum + (t.candidates ?? 0), 0),
+            cachedInputTokens: tokens.reduce((sum, t) => sum + (t.cached ?? 0), 0),
+          }
+        : undefined;
+
+    const text = (document.response ?? '').trim();
+    if (text) {
+      this.sink.emit({ type: 'text_delta', text });
+    }
+
+    return {
+      text,
+      ...(document.error && { error: document.error.message ?? 'Gemini run failed' }),
+      ...(usage && { usage }),
+    };
+  }
+}
+
+/**
+ * Rule for a `--debug` stderr line of Gemini CLI in text mode
+ */
+export type GeminiDebugRule = {
+  readonly pattern: RegExp;
+  readonly handle: (match: RegExpMatchArray, sink: GeminiParserSink) => void;
+};
+
+/**
+ * Reports a progress message through the sink and the log
+ */
+function progress(sink: GeminiParserSink, message: string, data?: Record<string, unknown>): void {
+  sink.log.info(message, ...(data ? [data] : []));
+  sink.emit({ type: 'progress', message, ...(data && { data }) });
+}
+
+/**
+ * Debug line rules for text mode; the first matching rule handles a line
+ *
+ * These depend on Gemini CLI's log messages, which change between releases,
+ * so text mode is only used for CLIs without structured output.
+ */
+export const GEMINI_DEBUG_RULES: readonly GeminiDebugRule[] = [
+  {
+    pattern: /MemoryDiscovery.*Loading server hierarchical memory/,
+    handle: (_match, sink) => progress(sink, 'Gemini is loading memory context'),
+  },
+  {
+    pattern: /MemoryDiscovery.*Searching for GEMINI\.md/,
+    handle: (_match, sink) => progress(sink, 'Gemini is searching for context files'),
+  },
+  {
+    pattern: /MemoryDiscovery.*No GEMINI\.md files found/,
+    handle: (_match, sink) => progress(sink, 'Gemini memory search completed'),
+  },
+  {
+    pattern: /BfsFileSearch.*Scanning \[(\d+)\/(\d+)\]/,
+    handle: ([, current = '0', total = '0'], sink) => {
+      if (Number(current) % 20 === 0 || current === total) {
+        progress(sink, 'Gemini is scanning project files', {
+          progress: `${current}/${total}`,
+          percentage: Math.round((Number(current) / Number(total)) * 100),
+        });
+      }
+    },
+  },
+  {
+    pattern: /CLI:.*Delegating hierarchical memory load/,
+    handle: (_match, sink) => progress(sink, 'Gemini is initializing context loading'),
+  },
+  {
+    pattern: /Tool execution[^:]*(?::\s*([\w.-]+))?/,
+    handle: ([, name], sink) => {
+      sink.log.debug('Gemini is executing a tool');
+      sink.emit({ type: 'tool_call', name: name ?? 'unknown' });
+    },
+  },
+  {
+    pattern: /Tool result/,
+    handle: (_match, sink) => {
+      sink.log.debug('Gemini tool execution completed');
+      sink.emit({ type: 'tool_result', isError: false });
+    },
+  },
+];
+
+/**
+ * Stdout lines that are CLI notices rather than part of the answer in text mode
+ */
+export const GEMINI_NOISE_PATTERNS: readonly RegExp[] = [
+  /^\s*\[DEBUG\]/,
+  /^\s*Loaded cached credentials/,
+  /^\s*Flushing log events/,
+];
+
+/**
+ * Parser for plain text output with `--debug` activity on stderr
+ */
+class TextParser implements GeminiOutputParser {
+  readonly format = 'text';
+  readonly args: readonly string[];
+  private readonly sink: GeminiParserSink;
+  private readonly lines: string[] = [];
+
+  constructor(sink: GeminiParserSink) {
+    this.sink = sink;
+    this.args = process.env['NODE_ENV'] !== 'production' ? ['--debug'] : [];
+  }
+
+  stdoutLine(line: string): void {
+    if (GEMINI_NOISE_PATTERNS.some((pattern) => pattern.test(line))) return;
+    this.lines.push(line);
+    this.sink.emit({ type: 'text_delta', text: `${line}\n` });
+  }
+
+  stderrLine(line: string): void {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('[DEBUG]')) return;
+
+    for (const rule of GEMINI_DEBUG_RULES) {
+      const match = trimmed.match(rule.pattern);
+      if (match) {
+        rule.handle(match, this.sink);
+        return;
+      }
+    }
+  }
+
+  finish(): GeminiParseResult {
+    return {
+      text: this.lines
+        .filter((line) => line.trim())
+        .join('\n')
+        .trim(),
+    };
+  }
+}
+
+/**
+ * Built-in parsers by output mode
+ */
+export const GEMINI_OUTPUT_PARSERS: Readonly<Record<GeminiOutputFormat, GeminiParserFactory>> = {
+  'stream-json': (sink) => new StreamJsonParser(sink),
+  json: (sink) => new JsonParser(sink),
+  text: (sink) => new TextParser(sink),
+};
@@ -0,0 +1,127 @@
+import { EventEmitter } from 'node:events';
+import { PassThrough, Writable } from 'node:stream';
+import type { AgentProcess } from './recording.js';
+
+/**
+ * HTTP request presented to CLIAgent as if it were a child process
+ *
+ * The response body is written to stdout as it arrives. A non-2xx response
+ * writes its status line and body to stderr and closes with exit code 1, so
+ * the usual exit error classification applies (e.g., 429 becomes a rate limit
+ * error). Killing the process aborts the request. A request that cannot be
+ * sent at all (connection refused, DNS failure) is reported as an `error`
+ * event, like a CLI that could not be spawned.
+ */
+export class HttpProcess extends EventEmitter implements AgentProcess {
+  readonly pid = undefined;
+  readonly stdin: Writable;
+  readonly stdout = new PassThrough();
+  readonly stderr = new PassThrough();
+  private readonly controller = new AbortController();
+  private responded = false;
+  private finished = false;
+
+  /**
+   * Sends the request on the next event-loop turn, once handlers are attached
+   *
+   * @param url - Request URL
+   * @param init - Request options; the signal is managed by this process
+   */
+  constructor(url: string, init: Omit<RequestInit, 'signal'>) {
+    super();
+
+    // Accept and discard whatever the agent writes (e.g., the prompt)
+    this.stdin = new Writable({
+      write: (_chunk, _encoding, callback) => callback(),
+    });
+
+    setImmediate(() => {
+      this.send(url, init).catch((error: unknown) => this.fail(error));
+    });
+  }
+
+  /**
+   * Aborts the request as if the process had been killed
+   *
+   * @param signal - Signal reported in the close event
+   */
+  kill(signal: NodeJS.Signals | number = 'SIGTERM'): boolean {
+    if (this.finished) return false;
+
+    this.controller.abort();
+    this.finish(null, typeof signal === 'string' ? signal : 'SIGTERM');
+    return true;
+  }
+
+  /**
+   * Performs the request and streams the response body
+   */
+  private async send(url: string, init: Omit<RequestInit, 'signal'>): Promise<void> {
+    const response = await fetch(url, { ...init, signal: this.controller.signal });
+    this.responded = true;
+    const target = response.ok ? this.stdout : this.stderr;
+
+    if (!response.ok) {
+      this.stderr.write(`HTTP ${response.status} ${response.statusText}\n`);
+    }
+
+    if (response.body) {
+      for await (const chunk of response.body) {
+        if (this.finished) return;
+        target.write(Buffer.from(chunk));
+      }
+    }
+
+    this.finish(response.ok ? 0 : 1);
+  }
+
+  /**
+   * Reports a request that failed before or while receiving the response
+   */
+  private fail(error: unknown): void {
+    if (this.finished) return;
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (this.responded) {
+      // The connection broke while the body was being received
+      this.stderr.write(`${message}\n`);
+      this.finish(1);
+      return;
+    }
+
+    // The request never reached the server; `fetch` keeps the socket error as its cause
+    const cause =
+      error instanceof Error ? (error.cause as NodeJS.ErrnoException | undefined) : undefined;
+    const requestError: NodeJS.ErrnoException = new Error(cause?.message ?? message, {
+      cause: error,
+    });
+    if (cause?.code !== undefined) requestError.code = cause.code;
+    this.finished = true;
+    this.emit('error', requestError);
+  }
+
+  /**
+   * Ends the streams and emits exit/close once they have been drained
+   */
+  private finish(exitCode: number | null, signal: NodeJS.Signals | null = null): void {
+    if (this.finished) return;
+    this.finished = true;
+
+    let pending = 2;
+    const onEnd = (): void => {
+      pending--;
+      if (pending === 0) {
+        this.emit('exit', exitCode, signal);
+        this.emit('close', exitCode, signal);
+      }
+    };
+
+    this.stdout.once('end', onEnd);
+    this.stderr.once('end', onEnd);
+    this.stdout.end();
+    this.stderr.end();
+    // 'end' only fires once the data has been consumed
+    this.stdout.resume();
+    this.stderr.resume();
+  }
+}
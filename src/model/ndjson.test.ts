@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { NdjsonDecoder, type NdjsonWarning } from './ndjson.js';
+import type { Recording } from './recording.js';
+
+/**
+ * Stdout of a recorded Codex run, followed by events with multi-byte characters
+ */
+const STREAM = Buffer.concat([
+  ...(
+    JSON.parse(
+      readFileSync(join(__dirname, 'codex', 'fixtures', 'success-with-tools.json'), 'utf-8')
+    ) as Recording
+  ).chunks
+    .filter((chunk) => chunk.stream === 'stdout')
+    .map((chunk) => Buffer.from(chunk.data, 'base64')),
+  Buffer.from(
+    `${JSON.stringify({ type: 'text', text: 'Grüße, 日本語 and 🚀🚀' })}\r\n\n` +
+      `${JSON.stringify({ type: 'text', text: '𝔘𝔫𝔦𝔠𝔬𝔡𝔢' })}\n`
+  ),
+]);
+
+const EXPECTED = STREAM.toString('utf-8')
+  .split('\n')
+  .filter((line) => line.trim())
+  .map((line) => JSON.parse(line) as unknown);
+
+/**
+ * Small seeded generator, so that a failing split can be reproduced
+ */
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Decodes a stream delivered in the given chunks
+ */
+function decodeChunks(
+  chunks: readonly Buffer[],
+  options: ConstructorParameters<typeof NdjsonDecoder>[0] = {}
+): { values: unknown[]; warnings: NdjsonWarning[] } {
+  const warnings: NdjsonWarning[] = [];
+  const decoder = new NdjsonDecoder({ ...options, onWarning: (warning) => warnings.push(warning) });
+  const values = chunks.flatMap((chunk) => decoder.write(chunk));
+  values.push(...decoder.end());
+  return { values, warnings };
+}
+
+/**
+ * Splits bytes at the given offsets
+ */
+function splitAt(bytes: Buffer, offsets: readonly number[]): Buffer[] {
+  const bounds = [0, ...[...offsets].sort((a, b) => a - b), bytes.length];
+  return bounds.slice(1).map((end, i) => bytes.subarray(bounds[i], end));
+}
+
+/**
+ * Whether an offset falls inside a multi-byte UTF-8 sequence
+ */
+function insideCharacter(bytes: Buffer, offset: number): boolean {
+  return offset < bytes.length && ((bytes[offset] ?? 0) & 0xc0) === 0x80;
+}
+
+describe('NdjsonDecoder', () => {
+  it('decodes a recorded stream split in two at every byte', () => {
+    for (let offset = 0; offset <= STREAM.length; offset++) {
+      const { values, warnings } = decodeChunks(splitAt(STREAM, [offset]));
+      assert.deepEqual(values, EXPECTED, `split at ${offset}`);
+      assert.deepEqual(warnings, []);
+    }
+  });
+
+  it('decodes a recorded stream re-chunked at random offsets', () => {
+    const next = random(0x5eed);
+    let splitCharacters = 0;
+
+    for (let round = 0; round < 300; round++) {
+      const count = 1 + Math.floor(next() * 40);
+      const offsets = Array.from({ length: count }, () => Math.floor(next() * STREAM.length));
+      splitCharacters += offsets.filter((offset) => insideCharacter(STREAM, offset)).length;
+
+      const { values, warnings } = decodeChunks(splitAt(STREAM, offsets));
+      assert.deepEqual(values, EXPECTED, `round ${round}, offsets ${offsets.join(',')}`);
+      assert.deepEqual(warnings, []);
+    }
+
+    assert.ok(splitCharacters > 0, 'some splits fell inside multi-byte characters');
+  });
+
+  it('decodes a stream delivered one byte at a time', () => {
+    const chunks = Array.from({ length: STREAM.length }, (_, i) => STREAM.subarray(i, i + 1));
+
+    assert.deepEqual(decodeChunks(chunks).values, EXPECTED);
+  });
+
+  it('skips an oversized line, at any chunking, and decodes the lines around it', () => {
+    const long = JSON.stringify({ text: 'ü'.repeat(100) });
+    const bytes = Buffer.from(`{"n":1}\n${long}\n{"n":2}\n`);
+    const next = random(18);
+
+    for (let round = 0; round < 100; round++) {
+      const offsets = Array.from({ length: 5 }, () => Math.floor(next() * bytes.length));
+      const { values, warnings } = decodeChunks(splitAt(bytes, offsets), { maxLineLength: 50 });
+
+      assert.deepEqual(values, [{ n: 1 }, { n: 2 }]);
+      assert.equal(warnings.length, 1);
+      assert.equal(warnings[0]?.kind, 'oversized');
+      assert.equal(warnings[0]?.line, 2);
+    }
+  });
+
+  it('skips an oversized line at the end of the stream', () => {
+    const bytes = Buffer.from(`{"n":1}\n{"text":"${'x'.repeat(100)}`);
+    const { values, warnings } = decodeChunks([bytes], { maxLineLength: 50 });
+
+    assert.deepEqual(values, [{ n: 1 }]);
+    assert.deepEqual(
+      warnings.map((warning) => [warning.kind, warning.line]),
+      [['oversized', 2]]
+    );
+  });
+
+  it('reports malformed lines with their line numbers and keeps going', () => {
+    const bytes = Buffer.from('{"n":1}\nnot json\n\n{"n": \n{"n":2}\n');
+    const { values, warnings } = decodeChunks(splitAt(bytes, [3, 12, 20]));
+
+    assert.deepEqual(values, [{ n: 1 }, { n: 2 }]);
+    assert.deepEqual(
+      warnings.map((warning) => [warning.kind, warning.line, warning.preview]),
+      [
+        ['malformed', 2, 'not json'],
+        ['malformed', 4, '{"n":'],
+      ]
+    );
+  });
+
+  it('decodes a final line without newline at the end of the stream', () => {
+    const { values, warnings } = decodeChunks([Buffer.from('{"n":1}\n{"n":'), Buffer.from('2}')]);
+
+    assert.deepEqual(values, [{ n: 1 }, { n: 2 }]);
+    assert.deepEqual(warnings, []);
+  });
+
+  it('reports a partial line at the end of the stream, even inside a character', () => {
+    const bytes = Buffer.from('{"n":1}\n{"text":"🚀');
+    const { values, warnings } = decodeChunks([bytes.subarray(0, bytes.length - 2)]);
+
+    assert.deepEqual(values, [{ n: 1 }]);
+    assert.equal(warnings.length, 1);
+    assert.equal(warnings[0]?.kind, 'malformed');
+    assert.equal(warnings[0]?.line, 2);
+  });
+});
@@ -0,0 +1,164 @@
+import { StringDecoder } from 'node:string_decoder';
+
+/**
+ * Problem with a single line of an NDJSON stream; the line is skipped
+ */
+export type NdjsonWarning = {
+  readonly kind: 'malformed' | 'oversized';
+  /** 1-based line number within the stream */
+  readonly line: number;
+  readonly message: string;
+  /** Start of the offending line */
+  readonly preview: string;
+};
+
+/**
+ * Options of an NdjsonDecoder
+ */
+export type NdjsonDecoderOptions = {
+  /** Longest line (in characters) that is buffered; longer lines are skipped */
+  readonly maxLineLength?: number;
+  readonly onWarning?: (warning: NdjsonWarning) => void;
+};
+
+/**
+ * Default line limit; generous because tool results are embedded in single events
+ */
+const DEFAULT_MAX_LINE_LENGTH = 64 * 1024 * 1024;
+
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Incremental decoder for newline-delimited JSON
+ *
+ * Chunks may split lines and multi-byte UTF-8 sequences at any byte. Each
+ * complete line is parsed once; partial lines are kept as a list of parts so
+ * that very large lines are not re-scanned for every chunk.
+ *
+ * @example
+ * ```typescript
+ * const decoder = new NdjsonDecoder<LogEvent>({ onWarning: (w) => log.warn(w.message, w) });
+ * child.stdout.on('data', (chunk) => decoder.write(chunk).forEach(handleEvent));
+ * child.on('close', () => decoder.end().forEach(handleEvent));
+ * ```
+ */
+export class NdjsonDecoder<T = unknown> {
+  private readonly textDecoder = new StringDecoder('utf8');
+  private readonly maxLineLength: number;
+  private readonly onWarning: ((warning: NdjsonWarning) => void) | undefined;
+  private parts: string[] = [];
+  private partLength = 0;
+  /** Set while the rest of an oversized line is being skipped */
+  private discarding = false;
+  private lineNumber = 0;
+  private warningCount = 0;
+
+  /**
+   * @param options - Line limit and warning callback
+   */
+  constructor(options: NdjsonDecoderOptions = {}) {
+    this.maxLineLength = options.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH;
+    this.onWarning = options.onWarning;
+  }
+
+  /**
+   * Number of lines skipped because of warnings
+   */
+  get warnings(): number {
+    return this.warningCount;
+  }
+
+  /**
+   * Decodes a chunk of the stream
+   *
+   * @param chunk - Raw bytes or already decoded text
+   * @returns Values of the lines completed by this chunk
+   */
+  write(chunk: Buffer | string): T[] {
+    const text = typeof chunk === 'string' ? chunk : this.textDecoder.write(chunk);
+    const values: T[] = [];
+
+    let start = 0;
+    let newline = text.indexOf('\n', start);
+    while (newline !== -1) {
+      this.append(text.slice(start, newline));
+      this.completeLine(values);
+      start = newline + 1;
+      newline = text.indexOf('\n', start);
+    }
+    this.append(text.slice(start));
+
+    return values;
+  }
+
+  /**
+   * Ends the stream, decoding a final line without trailing newline
+   *
+   * @returns Value of the final line, if any
+   */
+  end(): T[] {
+    this.append(this.textDecoder.end());
+    const values: T[] = [];
+    if (this.partLength > 0 || this.discarding) {
+      this.completeLine(values);
+    }
+    return values;
+  }
+
+  /**
+   * Adds text to the current line, switching to skip mode when it grows too long
+   */
+  private append(text: string): void {
+    if (!text || this.discarding) return;
+
+    if (this.partLength + text.length > this.maxLineLength) {
+      const preview = (this.parts.join('') + text).slice(0, PREVIEW_LENGTH);
+      this.parts = [];
+      this.partLength = 0;
+      this.discarding = true;
+      this.warn(
+        'oversized',
+        this.lineNumber + 1,
+        `Line exceeds ${this.maxLineLength} characters`,
+        preview
+      );
+      return;
+    }
+
+    this.parts.push(text);
+    this.partLength += text.length;
+  }
+
+  /**
+   * Parses the buffered line and resets the buffer
+   */
+  private completeLine(values: T[]): void {
+    const wasDiscarding = this.discarding;
+    const line = this.parts.join('').trim();
+    this.parts = [];
+    this.partLength = 0;
+    this.discarding = false;
+
+    this.lineNumber++;
+    if (wasDiscarding || !line) return;
+
+    try {
+      values.push(JSON.parse(line) as T);
+    } catch (error) {
+      this.warn(
+        'malformed',
+        this.lineNumber,
+        error instanceof Error ? error.message : String(error),
+        line.slice(0, PREVIEW_LENGTH)
+      );
+    }
+  }
+
+  /**
+   * Counts and reports a skipped line
+   */
+  private warn(kind: NdjsonWarning['kind'], line: number, message: string, preview: string): void {
+    this.warningCount++;
+    this.onWarning?.({ kind, line, message, preview });
+  }
+}
@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { setTimeout as delay } from 'node:timers/promises';
+import { AgentConfigError, AgentRateLimitError } from '../errors.js';
+import { OpenAICompatible } from './main.js';
+
+/**
+ * Request received by the stub server
+ */
+type StubRequest = { readonly headers: IncomingMessage['headers']; readonly body: unknown };
+
+type StubHandler = (request: StubRequest, response: ServerResponse) => Promise<void> | void;
+
+/**
+ * Formats a chat completion chunk as a server-sent event
+ */
+function sse(chunk: unknown): string {
+  return `data: ${JSON.stringify(chunk)}\n\n`;
+}
+
+describe('OpenAICompatible against a stub server', () => {
+  const requests: StubRequest[] = [];
+  let handler: StubHandler = () => {};
+  let baseUrl = '';
+  const server = createServer((request, response) => {
+    const body: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => body.push(chunk));
+    request.on('end', () => {
+      const received = {
+        headers: request.headers,
+        body: JSON.parse(Buffer.concat(body).toString('utf-8')) as unknown,
+      };
+      requests.push(received);
+      Promise.resolve(handler(received, response)).catch(() => response.destroy());
+    });
+  });
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('streams the answer, keeping characters split across chunks intact', async () => {
+    handler = async (_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const body = Buffer.from(
+        sse({ id: 'c1', model: 'stub', choices: [{ delta: { content: 'Grüße 🚀' } }] }) +
+          sse({ choices: [{ delta: { content: ' 日本' } }] }) +
+          sse({ choices: [], usage: { prompt_tokens: 3, completion_tokens: 4 } }) +
+          'data: [DONE]\n\n'
+      );
+      // Split inside the four bytes of the emoji, flushing each part separately
+      const split = body.indexOf(Buffer.from('🚀')) + 2;
+      response.write(body.subarray(0, split));
+      await delay(20);
+      response.end(body.subarray(split));
+    };
+    const agent = new OpenAICompatible({ baseUrl, model: 'stub' });
+
+    const result = await agent.executeDetailed('Greet me');
+    assert.equal(result.text, 'Grüße 🚀 日本');
+    assert.deepEqual(result.usage, { inputTokens: 3, outputTokens: 4 });
+    assert.equal(result.model, 'stub');
+    // A completion id cannot be resumed, so it is not reported as a session
+    assert.equal(result.sessionId, undefined);
+    assert.deepEqual(requests.at(-1)?.body, {
+      messages: [{ role: 'user', content: 'Greet me' }],
+      stream: true,
+      stream_options: { include_usage: true },
+      model: 'stub',
+    });
+  });
+
+  it('accepts a single JSON response from servers that do not stream', async () => {
+    handler = (_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ choices: [{ message: { content: 'Whole answer' } }] }));
+    };
+    const agent = new OpenAICompatible({ baseUrl });
+
+    assert.equal(await agent.execute('prompt'), 'Whole answer');
+  });
+
+  it('classifies an HTTP 429 response as a rate limit', async () => {
+    handler = (_request, response) => {
+      response.writeHead(429, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ error: { message: 'Slow down' } }));
+    };
+    const agent = new OpenAICompatible({ baseUrl });
+
+    await assert.rejects(agent.execute('prompt'), AgentRateLimitError);
+  });
+
+  it('sends OPENAI_API_KEY only to api.openai.com', async () => {
+    handler = (_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      response.end(sse({ choices: [{ delta: { content: 'ok' } }] }));
+    };
+    const previous = process.env['OPENAI_API_KEY'];
+    process.env['OPENAI_API_KEY'] = 'sk-from-env';
+    try {
+      await new OpenAICompatible({ baseUrl }).execute('prompt');
+      assert.equal(requests.at(-1)?.headers.authorization, undefined);
+
+      await new OpenAICompatible({ baseUrl, apiKey: 'local-key' }).execute('prompt');
+      assert.equal(requests.at(-1)?.headers.authorization, 'Bearer local-key');
+    } finally {
+      if (previous === undefined) {
+        Reflect.deleteProperty(process.env, 'OPENAI_API_KEY');
+      } else {
+        process.env['OPENAI_API_KEY'] = previous;
+      }
+    }
+  });
+
+  it('rejects an invalid base URL', () => {
+    assert.throws(() => new OpenAICompatible({ baseUrl: '127.0.0.1 port 8080' }), AgentConfigError);
+  });
+});
@@ -0,0 +1,412 @@
+import type { SpawnOptions } from 'node:child_process';
+import { StringDecoder } from 'node:string_decoder';
+import { CLIAgent, type CLIAgentConfig, type ExecutionContext } from '../agent.js';
+import { AgentConfigError, AgentParseError } from '../errors.js';
+import type { TokenUsage } from '../events.js';
+import { HttpProcess } from '../http.js';
+import type { AgentProcess } from '../recording.js';
+import type { PromptDelivery, PromptTransport } from '../transport.js';
+
+/**
+ * Configuration options for OpenAI-compatible chat completion servers
+ */
+export type OpenAICompatibleConfig = CLIAgentConfig & {
+  /** API root including `/v1`; defaults to `OPENAI_BASE_URL` or llama.cpp's default address */
+  readonly baseUrl?: string;
+  /** Model name; required by Ollama, ignored by single-model servers */
+  readonly model?: string;
+  /**
+   * Bearer token; defaults to `OPENAI_API_KEY` only when `baseUrl` is api.openai.com,
+   * so the OpenAI key is never sent to another server
+   */
+  readonly apiKey?: string;
+  readonly systemPrompt?: string;
+  readonly temperature?: number;
+  readonly maxTokens?: number;
+  readonly headers?: Readonly<Record<string, string>>;
+};
+
+/**
+ * Chunk of a streamed `/v1/chat/completions` response, or a complete response
+ * from servers that ignore `stream: true`
+ */
+type ChatCompletionChunk = {
+  readonly model?: string;
+  readonly choices?: Array<{
+    readonly delta?: { readonly content?: string | null };
+    readonly message?: { readonly content?: string | null };
+    readonly finish_reason?: string | null;
+  }>;
+  readonly usage?: {
+    readonly prompt_tokens?: number;
+    readonly completion_tokens?: number;
+    readonly prompt_tokens_details?: { readonly cached_tokens?: number };
+  } | null;
+  readonly error?: { readonly message?: string } | string;
+};
+
+/**
+ * Per-execution parsing state of an OpenAI-compatible response
+ */
+type OpenAICompatibleRunState = {
+  /** Keeps multi-byte characters split across body chunks together */
+  textDecoder: StringDecoder;
+  pendingLine: string;
+  /** Body lines that are not server-sent events, for non-streaming responses */
+  rawBody: string;
+  result: string;
+  error: string;
+  chunkCount: number;
+  sessionStarted: boolean;
+  usage: TokenUsage | null;
+};
+
+const DEFAULT_BASE_URL = 'http://127.0.0.1:8080/v1';
+
+/**
+ * Host for which `OPENAI_API_KEY` is used when no API key is configured
+ */
+const OPENAI_API_HOST = 'api.openai.com';
+
+/**
+ * Agent for local model servers (llama.cpp, Ollama, vLLM, ...) that expose an
+ * OpenAI-compatible `/v1/chat/completions` endpoint
+ *
+ * The request runs in place of a CLI process, so timeouts, cancellation,
+ * retries, events and recordings behave as for the CLI agents.
+ *
+ * @example
+ * ```typescript
+ * const agent = new OpenAICompatible({ baseUrl: 'http://localhost:11434/v1', model: 'qwen3' });
+ * const result = await agent.execute("Summarize the findings");
+ * console.log(result);
+ * ```
+ */
+export class OpenAICompatible extends CLIAgent<OpenAICompatibleRunState> {
+  private readonly endpoint: string;
+  private readonly model: string | undefined;
+  private readonly apiKey: string | undefined;
+  private readonly systemPrompt: string | undefined;
+  private readonly temperature: number | undefined;
+  private readonly maxTokens: number | undefined;
+  private readonly headers: Readonly<Record<string, string>>;
+
+  /**
+   * Creates a new OpenAI-compatible agent
+   *
+   * @param config - Server address, model and request options
+   * @throws AgentConfigError if the base URL is not a valid URL
+   */
+  constructor(config: OpenAICompatibleConfig = {}) {
+    super('OpenAICompatible', config);
+    const baseUrl = config.baseUrl ?? process.env['OPENAI_BASE_URL'] ?? DEFAULT_BASE_URL;
+    let host: string;
+    try {
+      host = new URL(baseUrl).hostname;
+    } catch (error) {
+      throw new AgentConfigError(this.getAgentName(), `Invalid base URL '${baseUrl}'`, {
+        cause: error,
+      });
+    }
+    this.endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    this.model = config.model;
+    this.apiKey =
+      config.apiKey ?? (host === OPENAI_API_HOST ? process.env['OPENAI_API_KEY'] : undefined);
+    this.systemPrompt = config.systemPrompt;
+    this.temperature = config.temperature;
+    this.maxTokens = config.maxTokens;
+    this.headers = config.headers ?? {};
+  }
+
+  /**
+   * Returns the endpoint, which takes the place of a command in logs and errors
+   */
+  protected getCommandName(): string {
+    return this.endpoint;
+  }
+
+  /**
+   * Returns the agent name for logging
+   */
+  protected getAgentName(): string {
+    return 'OpenAI-compatible server';
+  }
+
+  /**
+   * The prompt is sent in the request body, which has no size limit
+   */
+  protected override getSupportedPromptTransports(): readonly PromptTransport[] {
+    return ['stdin'];
+  }
+
+  /**
+   * Output schemas are sent as a `json_schema` response format
+   */
+  protected override supportsOutputSchema(): boolean {
+    return true;
+  }
+
+  /**
+   * There is no command line; the request is built from the execution's prompt
+   */
+  protected buildCommandArgs(_delivery: PromptDelivery): string[] {
+    return [];
+  }
+
+  /**
+   * Sends the chat completion request in place of spawning a CLI
+   *
+   * @param context - Execution context the request belongs to
+   * @returns The request, presented as a process
+   */
+  protected override createProcess(
+    context: ExecutionContext<OpenAICompatibleRunState>,
+    _args: string[],
+    _options: SpawnOptions
+  ): AgentProcess {
+    const messages = [
+      ...(this.systemPrompt ? [{ role: 'system', content: this.systemPrompt }] : []),
+      { role: 'user', content: context.prompt },
+    ];
+
+    return new HttpProcess(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        ...this.headers,
+      },
+      body: JSON.stringify({
+        messages,
+        stream: true,
+        stream_options: { include_usage: true },
+        ...(this.model && { model: this.model }),
+        ...(this.temperature !== undefined && { temperature: this.temperature }),
+        ...(this.maxTokens !== undefined && { max_tokens: this.maxTokens }),
+        ...(context.options.outputSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              name: context.options.outputSchema.name,
+              schema: context.options.outputSchema.schema,
+            },
+          },
+        }),
+      }),
+    });
+  }
+
+  /**
+   * Announces the session once the request has been sent
+   */
+  protected override handleProcessStart(
+    context: ExecutionContext<OpenAICompatibleRunState>,
+    _args: string[]
+  ): void {
+    if (this.model) {
+      context.state.sessionStarted = true;
+      this.emit(context, { type: 'session_started', model: this.model });
+    }
+  }
+
+  /**
+   * Creates the per-execution parsing state
+   */
+  protected createRunState(): OpenAICompatibleRunState {
+    return {
+      textDecoder: new StringDecoder('utf8'),
+      pendingLine: '',
+      rawBody: '',
+      result: '',
+      error: '',
+      chunkCount: 0,
+      sessionStarted: false,
+      usage: null,
+    };
+  }
+
+  /**
+   * Handles response body data
+   *
+   * @param context - Execution context the data belongs to
+   * @param data - Raw response body data
+   */
+  protected handleStdoutData(
+    context: ExecutionContext<OpenAICompatibleRunState>,
+    data: Buffer
+  ): void {
+    const output = context.state.textDecoder.write(data);
+    this.log.debug('Received response data', {
+      executionId: context.id,
+      dataLength: output.length,
+    });
+
+    const lines = (context.state.pendingLine + output).split('\n');
+    context.state.pendingLine = lines.pop() ?? '';
+
+    for (const line of lines) {
+      this.parseLine(context, line);
+    }
+  }
+
+  /**
+   * Handles the body of an unsuccessful response
+   *
+   * @param context - Execution context the data belongs to
+   * @param data - Raw error response data
+   */
+  protected handleStderrData(
+    context: ExecutionContext<OpenAICompatibleRunState>,
+    data: Buffer
+  ): void {
+    this.log.debug('Received error response data', {
+      executionId: context.id,
+      content: data.toString().trim(),
+    });
+  }
+
+  /**
+   * Handles the end of the response
+   *
+   * @param context - Execution context of the finished request
+   * @param code - 0 for a successful response, 1 otherwise
+   * @param resolve - Promise resolve function
+   * @param reject - Promise reject function
+   */
+  protected handleProcessExit(
+    context: ExecutionContext<OpenAICompatibleRunState>,
+    code: number | null,
+    resolve: (result: string) => void,
+    reject: (error: Error) => void
+  ): void {
+    const { state } = context;
+    state.pendingLine += state.textDecoder.end();
+
+    // Process a trailing line that was not newline-terminated
+    if (state.pendingLine) {
+      this.parseLine(context, state.pendingLine);
+      state.pendingLine = '';
+    }
+
+    // Servers that ignore `stream: true` answer with a single JSON document
+    if (state.chunkCount === 0 && state.rawBody.trim()) {
+      this.parseChunk(context, state.rawBody);
+    }
+
+    const exitCode = code || 0;
+
+    this.log.debug('Response finished', {
+      executionId: context.id,
+      exitCode,
+      chunkCount: state.chunkCount,
+      resultLength: state.result.length,
+    });
+
+    if (exitCode === 0 && state.chunkCount === 0) {
+      const error = new AgentParseError(
+        this.getAgentName(),
+        'Response contained no chat completion',
+        state.rawBody
+      );
+      this.log.error('Chat completion failed', { prompt: context.prompt, error: error.message });
+      reject(error);
+    } else if (exitCode === 0 && !state.error) {
+      this.log.info('Chat completion finished successfully', {
+        prompt: context.prompt,
+        resultLength: state.result.length,
+      });
+      this.emit(context, {
+        type: 'result',
+        text: state.result,
+        isError: false,
+        ...(state.usage && { usage: state.usage }),
+      });
+      resolve(state.result);
+    } else {
+      const error = this.createExitError(context, exitCode, state.error);
+      this.log.error('Chat completion failed', {
+        prompt: context.prompt,
+        exitCode,
+        error: error.message,
+      });
+      reject(error);
+    }
+  }
+
+  /**
+   * Parses a line of a server-sent event stream
+   *
+   * @param context - Execution context the line belongs to
+   * @param line - One line of the response body
+   */
+  private parseLine(context: ExecutionContext<OpenAICompatibleRunState>, line: string): void {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) {
+      // Comments and event names carry nothing; anything else may be a plain JSON body
+      if (trimmed && !trimmed.startsWith(':') && !trimmed.startsWith('event:')) {
+        context.state.rawBody += `${line}\n`;
+      }
+      return;
+    }
+
+    const payload = trimmed.slice('data:'.length).trim();
+    if (payload && payload !== '[DONE]') {
+      this.parseChunk(context, payload);
+    }
+  }
+
+  /**
+   * Applies one chat completion chunk (or full response) to the run state
+   *
+   * @param context - Execution context the chunk belongs to
+   * @param payload - JSON text of the chunk
+   */
+  private parseChunk(context: ExecutionContext<OpenAICompatibleRunState>, payload: string): void {
+    const { state } = context;
+
+    let chunk: ChatCompletionChunk;
+    try {
+      chunk = JSON.parse(payload) as ChatCompletionChunk;
+    } catch (error) {
+      this.log.trace('Failed to parse chat completion chunk', {
+        data: payload.substring(0, 100),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    state.chunkCount++;
+
+    if (chunk.error) {
+      state.error =
+        typeof chunk.error === 'string' ? chunk.error : (chunk.error.message ?? 'Unknown error');
+      this.log.error('Server reported an error', { message: state.error });
+      return;
+    }
+
+    // The chunk id names a single completion, not a session that could be resumed
+    if (!state.sessionStarted) {
+      state.sessionStarted = true;
+      this.emit(context, { type: 'session_started', ...(chunk.model && { model: chunk.model }) });
+    }
+
+    for (const choice of chunk.choices ?? []) {
+      const text = choice.delta?.content ?? choice.message?.content;
+      if (text) {
+        state.result += text;
+        this.emit(context, { type: 'text_delta', text });
+      }
+    }
+
+    if (chunk.usage) {
+      state.usage = {
+        inputTokens: chunk.usage.prompt_tokens ?? 0,
+        outputTokens: chunk.usage.completion_tokens ?? 0,
+        ...(chunk.usage.prompt_tokens_details?.cached_tokens !== undefined && {
+          cachedInputTokens: chunk.usage.prompt_tokens_details.cached_tokens,
+        }),
+      };
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { after, describe, it, mock } from 'node:test';
+import { setTimeout as delay } from 'node:timers/promises';
+import { CLIAgent, type CLIAgentConfig, type ExecutionContext } from './agent.js';
+import { AgentTerminatedError, AgentTimeoutError } from './errors.js';
+import type { PromptDelivery } from './transport.js';
+
+/**
+ * Starts a grandchild that ignores SIGTERM and, once it is ready, prints both
+ * pids and keeps running
+ */
+const SPAWN_SCRIPT = `
+const { spawn } = require('node:child_process');
+const grandchild = spawn(process.execPath, [
+  '-e',
+  "process.on('SIGTERM', () => {}); process.stdout.write('ready'); setInterval(() => {}, 1000);",
+], { stdio: ['ignore', 'pipe', 'ignore'] });
+grandchild.stdout.once('data', () => {
+  process.stdout.write(JSON.stringify({ child: process.pid, grandchild: grandchild.pid }) + '\\n');
+});
+setInterval(() => {}, 1000);
+`;
+
+type SpawnedPids = { child: number; grandchild: number };
+
+/**
+ * Pids reported by the test processes, killed after the tests in any case
+ */
+const spawned: number[] = [];
+
+/**
+ * Agent whose CLI leaves a process tree behind until it is killed
+ */
+class TreeAgent extends CLIAgent<{ output: string }> {
+  /** Resolves with the pids once the process tree is up */
+  readonly started: Promise<SpawnedPids>;
+  private onStarted: (pids: SpawnedPids) => void = () => {};
+
+  constructor(config: CLIAgentConfig) {
+    super('TreeAgent', { killGracePeriodMs: 300, ...config });
+    this.started = new Promise((resolve) => {
+      this.onStarted = resolve;
+    });
+  }
+
+  protected getCommandName(): string {
+    return process.execPath;
+  }
+
+  protected getAgentName(): string {
+    return 'Tree';
+  }
+
+  protected buildCommandArgs(_delivery: PromptDelivery): string[] {
+    return ['-e', SPAWN_SCRIPT];
+  }
+
+  protected createRunState(): { output: string } {
+    return { output: '' };
+  }
+
+  protected handleStdoutData(context: ExecutionContext<{ output: string }>, data: Buffer): void {
+    context.state.output += data.toString();
+    if (context.state.output.includes('\n')) {
+      const pids = JSON.parse(context.state.output) as SpawnedPids;
+      spawned.push(pids.child, pids.grandchild);
+      this.onStarted(pids);
+    }
+  }
+
+  protected handleStderrData(): void {}
+
+  protected handleProcessExit(
+    context: ExecutionContext<{ output: string }>,
+    code: number | null,
+    resolve: (result: string) => void,
+    reject: (error: Error) => void
+  ): void {
+    if (code === 0) {
+      resolve(context.state.output);
+    } else {
+      reject(this.createExitError(context, code));
+    }
+  }
+}
+
+/**
+ * Agent whose CLI exits at once with a rate limit error, to be retried
+ */
+class RateLimitedAgent extends TreeAgent {
+  protected override buildCommandArgs(_delivery: PromptDelivery): string[] {
+    return ['-e', "process.stderr.write('429 Too Many Requests'); process.exit(1);"];
+  }
+}
+
+/**
+ * Whether a process is running; zombies awaiting a reaper count as gone
+ */
+function isRunning(pid: number): boolean {
+  try {
+    const stat = readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    return stat.slice(stat.lastIndexOf(')') + 2)[0] !== 'Z';
+  } catch {
+    // No procfs entry: either gone, or a platform without procfs
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Waits until none of the processes is running, up to a limit
+ */
+async function waitUntilGone(pids: readonly number[], timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (!pids.some(isRunning)) return true;
+    await delay(50);
+  }
+  return !pids.some(isRunning);
+}
+
+describe('process tree reaping', { skip: process.platform === 'win32' }, () => {
+  after(() => {
+    for (const pid of spawned) {
+      try {
+        process.kill(pid, 'SIGKILL');
+      } catch {
+        // Already gone
+      }
+    }
+  });
+
+  it('kills the whole tree, including a grandchild ignoring SIGTERM, on timeout', async () => {
+    const agent = new TreeAgent({ timeoutMs: 3000 });
+    const result = agent.execute('prompt');
+    const pids = await agent.started;
+    assert.ok(isRunning(pids.grandchild));
+
+    await assert.rejects(result, AgentTimeoutError);
+    assert.equal(await waitUntilGone([pids.child, pids.grandchild], 5000), true);
+  });
+
+  it('kills the whole tree on terminate()', async () => {
+    const agent = new TreeAgent({});
+    const execution = agent.start('prompt');
+    const pids = await agent.started;
+
+    execution.terminate();
+    await assert.rejects(execution.result, AgentTerminatedError);
+    assert.equal(await waitUntilGone([pids.child, pids.grandchild], 5000), true);
+  });
+
+  it('kills the whole tree when the signal is aborted', async () => {
+    const agent = new TreeAgent({});
+    const controller = new AbortController();
+    const result = agent.execute('prompt', { signal: controller.signal });
+    const pids = await agent.started;
+
+    controller.abort();
+    await assert.rejects(result, { name: 'AbortError' });
+    assert.equal(await waitUntilGone([pids.child, pids.grandchild], 5000), true);
+  });
+
+  it('does not signal an exited process when terminated during a retry delay', async () => {
+    const agent = new RateLimitedAgent({ retry: { maxAttempts: 2, initialDelayMs: 60000 } });
+    const execution = agent.start('prompt');
+    await new Promise<void>((resolve) => {
+      execution.subscribe((event) => {
+        if (event.type === 'progress' && event.message === 'Retrying after error') resolve();
+      });
+    });
+
+    const kill = mock.method(process, 'kill');
+    try {
+      const startedAt = Date.now();
+      execution.terminate();
+      await assert.rejects(execution.result, AgentTerminatedError);
+      assert.ok(Date.now() - startedAt < 1000, 'the retry delay was cut short');
+      assert.equal(kill.mock.callCount(), 0);
+    } finally {
+      kill.mock.restore();
+    }
+  });
+});
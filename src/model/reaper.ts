@@ -0,0 +1,115 @@
+import type { AgentProcess } from './recording.js';
+
+/**
+ * Processes started by any agent whose process groups may still be alive
+ */
+const liveProcesses = new Set<AgentProcess>();
+
+/**
+ * Signals after which live agents are reaped before the process terminates
+ */
+const REAPED_SIGNALS: readonly NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+
+let handlersInstalled = false;
+
+/**
+ * Sends a signal to a child and every process in its process group
+ *
+ * Children are spawned as process group leaders, so a negative pid reaches
+ * the tool subprocesses they started as well. Falls back to signalling the
+ * child alone where process groups are unavailable (Windows, replays).
+ *
+ * @param child - Process started by an agent
+ * @param signal - Signal to send
+ * @returns True if the signal was delivered to the group
+ */
+export function killProcessTree(child: AgentProcess, signal: NodeJS.Signals): boolean {
+  if (child.pid !== undefined && process.platform !== 'win32') {
+    try {
+      process.kill(-child.pid, signal);
+      return true;
+    } catch {
+      // The group is gone (ESRCH) or not ours; fall back to the child itself
+    }
+  }
+
+  child.kill(signal);
+  return false;
+}
+
+/**
+ * Checks whether any process of the child's process group is still running
+ *
+ * @param child - Process started by an agent
+ */
+export function isProcessTreeAlive(child: AgentProcess): boolean {
+  if (child.pid === undefined || process.platform === 'win32') {
+    return false;
+  }
+
+  try {
+    // Signal 0 only checks for existence
+    process.kill(-child.pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the group exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Registers a process to be killed if the Node.js process exits while it is alive
+ *
+ * @param child - Process started by an agent
+ * @returns Function that unregisters the process once it has been reaped
+ */
+export function trackProcess(child: AgentProcess): () => void {
+  installExitHandlers();
+  liveProcesses.add(child);
+  return () => {
+    liveProcesses.delete(child);
+  };
+}
+
+/**
+ * Kills the process groups of all tracked agent processes
+ *
+ * @param signal - Signal to send; defaults to SIGKILL since this runs on shutdown
+ */
+export function reapAll(signal: NodeJS.Signals = 'SIGKILL'): void {
+  for (const child of liveProcesses) {
+    try {
+      killProcessTree(child, signal);
+    } catch {
+      // Best effort: the process may already be gone
+    }
+  }
+  liveProcesses.clear();
+}
+
+/**
+ * Installs the exit and signal handlers that reap live agents, once per process
+ *
+ * Signal handlers only act when nothing else handles the signal, in which case
+ * they restore the default behavior by re-raising the signal after reaping.
+ */
+function installExitHandlers(): void {
+  if (handlersInstalled) return;
+  handlersInstalled = true;
+
+  process.once('exit', () => reapAll());
+
+  for (const signal of REAPED_SIGNALS) {
+    const onSignal = (): void => {
+      if (process.listenerCount(signal) > 1) {
+        // The application handles this signal itself (e.g., to abort agents)
+        return;
+      }
+
+      reapAll();
+      process.removeListener(signal, onSignal);
+      process.kill(process.pid, signal);
+    };
+    process.on(signal, onSignal);
+  }
+}
@@ -0,0 +1,269 @@
+import { EventEmitter } from 'node:events';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { PassThrough, type Readable, Writable } from 'node:stream';
+
+/**
+ * Minimal view of a child process used by CLIAgent
+ *
+ * Satisfied by `ChildProcess` as well as by `ReplayProcess`, which lets recorded
+ * or scripted output flow through exactly the same handlers as a live run.
+ */
+export interface AgentProcess {
+  readonly pid?: number | undefined;
+  readonly stdin: Writable | null;
+  readonly stdout: Readable | null;
+  readonly stderr: Readable | null;
+  kill(signal?: NodeJS.Signals | number): boolean;
+  on(event: 'close', listener: (code: number | null, signal: NodeJS.Signals | null) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+  once(
+    event: 'close',
+    listener: (code: number | null, signal: NodeJS.Signals | null) => void
+  ): this;
+}
+
+/**
+ * A single chunk of process output as it was received
+ */
+export type RecordedChunk = {
+  readonly stream: 'stdout' | 'stderr';
+  /** Milliseconds since the process was spawned */
+  readonly offsetMs: number;
+  /** Raw bytes, base64-encoded so split multi-byte sequences survive */
+  readonly data: string;
+};
+
+/**
+ * Raw stdout/stderr stream of one CLI run, stored as a JSON fixture
+ */
+export type Recording = {
+  readonly version: 1;
+  readonly agent: string;
+  readonly command: string;
+  readonly args: string[];
+  readonly prompt: string;
+  readonly recordedAt: string;
+  readonly durationMs: number;
+  readonly exitCode: number | null;
+  readonly signal: NodeJS.Signals | null;
+  readonly chunks: RecordedChunk[];
+};
+
+/**
+ * How recorded chunks are paced during replay
+ *
+ * - `instant`: one chunk per event-loop turn, deterministic and fast
+ * - `realtime`: chunks are delivered at their recorded offsets
+ */
+export type ReplayTiming = 'instant' | 'realtime';
+
+/**
+ * Reads a recording fixture from disk
+ *
+ * @param path - Path of the JSON fixture
+ * @returns Parsed recording
+ */
+export async function loadRecording(path: string): Promise<Recording> {
+  const content = await readFile(path, 'utf-8');
+  const recording = JSON.parse(content) as Recording;
+
+  if (recording.version !== 1 || !Array.isArray(recording.chunks)) {
+    throw new Error(`Unsupported recording format in ${path}`);
+  }
+
+  return recording;
+}
+
+/**
+ * Writes a recording fixture to disk, creating parent directories as needed
+ *
+ * @param path - Destination path
+ * @param recording - Recording to store
+ */
+export async function saveRecording(path: string, recording: Recording): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(recording, null, 2)}\n`, 'utf-8');
+}
+
+/**
+ * Builds a recording from plain strings, e.g. for scripted fake runs
+ *
+ * @param agent - Agent name stored in the recording
+ * @param output - Output chunks and exit code
+ * @returns Recording whose chunks replay in the given order
+ */
+export function createRecording(
+  agent: string,
+  output: {
+    readonly stdout?: readonly string[];
+    readonly stderr?: readonly string[];
+    readonly exitCode?: number;
+    readonly prompt?: string;
+  }
+): Recording {
+  const toChunks = (stream: 'stdout' | 'stderr', parts: readonly string[] = []): RecordedChunk[] =>
+    parts.map((part) => ({
+      stream,
+      offsetMs: 0,
+      data: Buffer.from(part, 'utf-8').toString('base64'),
+    }));
+
+  return {
+    version: 1,
+    agent,
+    command: agent,
+    args: [],
+    prompt: output.prompt ?? '',
+    recordedAt: new Date(0).toISOString(),
+    durationMs: 0,
+    exitCode: output.exitCode ?? 0,
+    signal: null,
+    chunks: [...toChunks('stderr', output.stderr), ...toChunks('stdout', output.stdout)],
+  };
+}
+
+/**
+ * Captures the raw output of a live process into a Recording
+ *
+ * @param child - Process to observe
+ * @param metadata - Descriptive fields stored alongside the chunks
+ * @param onComplete - Called with the finished recording when the process closes
+ */
+export function recordProcess(
+  child: AgentProcess,
+  metadata: Pick<Recording, 'agent' | 'command' | 'args' | 'prompt'>,
+  onComplete: (recording: Recording) => void
+): void {
+  const startedAt = Date.now();
+  const chunks: RecordedChunk[] = [];
+
+  const capture = (stream: 'stdout' | 'stderr') => (data: Buffer) => {
+    chunks.push({ stream, offsetMs: Date.now() - startedAt, data: data.toString('base64') });
+  };
+
+  child.stdout?.on('data', capture('stdout'));
+  child.stderr?.on('data', capture('stderr'));
+
+  child.once('close', (exitCode, signal) => {
+    onComplete({
+      version: 1,
+      ...metadata,
+      recordedAt: new Date(startedAt).toISOString(),
+      durationMs: Date.now() - startedAt,
+      exitCode,
+      signal,
+      chunks,
+    });
+  });
+}
+
+/**
+ * Stand-in for a child process that plays back a Recording
+ *
+ * Emits the recorded chunks on `stdout`/`stderr` with their original chunk
+ * boundaries, then `exit` and `close` with the recorded exit code.
+ */
+export class ReplayProcess extends EventEmitter implements AgentProcess {
+  readonly pid = undefined;
+  readonly stdin: Writable;
+  readonly stdout = new PassThrough();
+  readonly stderr = new PassThrough();
+  private readonly recording: Recording;
+  private readonly timers: NodeJS.Timeout[] = [];
+  private finished = false;
+
+  /**
+   * Starts replaying on the next event-loop turn
+   *
+   * @param recording - Recording to play back
+   * @param timing - Pacing of the chunks
+   */
+  constructor(recording: Recording, timing: ReplayTiming = 'instant') {
+    super();
+    this.recording = recording;
+
+    // Accept and discard whatever the agent writes (e.g., the prompt)
+    this.stdin = new Writable({
+      write: (_chunk, _encoding, callback) => callback(),
+    });
+
+    if (timing === 'realtime') {
+      for (const chunk of recording.chunks) {
+        this.timers.push(setTimeout(() => this.push(chunk), chunk.offsetMs));
+      }
+      this.timers.push(setTimeout(() => this.finish(), recording.durationMs));
+    } else {
+      this.playSequentially(0);
+    }
+  }
+
+  /**
+   * Stops the replay as if the process had been killed
+   *
+   * @param signal - Signal reported in the close event
+   */
+  kill(signal: NodeJS.Signals | number = 'SIGTERM'): boolean {
+    if (this.finished) return false;
+
+    for (const timer of this.timers) clearTimeout(timer);
+    this.finish(null, typeof signal === 'string' ? signal : 'SIGTERM');
+    return true;
+  }
+
+  /**
+   * Pushes one chunk per event-loop turn so handlers see each chunk separately
+   */
+  private playSequentially(index: number): void {
+    this.timers.push(
+      setTimeout(() => {
+        if (this.finished) return;
+
+        const chunk = this.recording.chunks[index];
+        if (!chunk) {
+          this.finish();
+          return;
+        }
+
+        this.push(chunk);
+        this.playSequentially(index + 1);
+      }, 0)
+    );
+  }
+
+  /**
+   * Writes a recorded chunk to its stream
+   */
+  private push(chunk: RecordedChunk): void {
+    const target = chunk.stream === 'stdout' ? this.stdout : this.stderr;
+    target.write(Buffer.from(chunk.data, 'base64'));
+  }
+
+  /**
+   * Ends the streams and emits exit/close once they have been drained
+   */
+  private finish(
+    exitCode: number | null = this.recording.exitCode,
+    signal: NodeJS.Signals | null = this.recording.signal
+  ): void {
+    if (this.finished) return;
+    this.finished = true;
+
+    let pending = 2;
+    const onEnd = (): void => {
+      pending--;
+      if (pending === 0) {
+        this.emit('exit', exitCode, signal);
+        this.emit('close', exitCode, signal);
+      }
+    };
+
+    this.stdout.once('end', onEnd);
+    this.stderr.once('end', onEnd);
+    this.stdout.end();
+    this.stderr.end();
+    // 'end' only fires once the data has been consumed
+    this.stdout.resume();
+    this.stderr.resume();
+  }
+}
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ClaudeCode } from './claude/main.js';
+import { AgentConfigError } from './errors.js';
+import { FakeAgent } from './fake/main.js';
+import {
+  AgentRegistry,
+  CLI_AGENT_CONFIG_SCHEMA,
+  createAgent,
+  createAgentFromSpec,
+  registerTemplateAgent,
+  validateAgentConfig,
+} from './registry.js';
+import { TemplateAgent } from './template/main.js';
+
+describe('createAgent', () => {
+  it('creates built-in backends by name', async () => {
+    assert.ok(createAgent('claude', { permissionProfile: 'read-only' }) instanceof ClaudeCode);
+
+    const fake = createAgent('fake', { responses: { stdout: 'hello' } });
+    assert.ok(fake instanceof FakeAgent);
+    assert.equal(await fake.execute('prompt'), 'hello');
+  });
+
+  it('rejects an unknown backend and lists the registered ones', () => {
+    assert.throws(
+      () => createAgent('claude-code'),
+      (error: unknown) =>
+        error instanceof AgentConfigError &&
+        /Unknown agent 'claude-code' \(registered: claude, gemini, /.test(error.message)
+    );
+  });
+
+  it('rejects unknown and wrongly typed options', () => {
+    assert.throws(
+      () => createAgent('claude', { timeoutMs: '60s', permisionProfile: 'full' }),
+      (error: unknown) =>
+        error instanceof AgentConfigError &&
+        error.message.includes("'timeoutMs' must be of type number") &&
+        error.message.includes("unknown option 'permisionProfile'")
+    );
+  });
+
+  it('applies spec config over the defaults', async () => {
+    const agent = createAgentFromSpec(
+      { name: 'fake', config: { responses: { stdout: 'from spec' } } },
+      { responses: { stdout: 'default' }, timeoutMs: 1000 }
+    );
+
+    assert.equal(await agent.execute('prompt'), 'from spec');
+  });
+});
+
+describe('validateAgentConfig', () => {
+  const schema = {
+    ...CLI_AGENT_CONFIG_SCHEMA,
+    command: { type: 'string', required: true },
+    mode: { type: ['string', 'object'], values: ['fast', 'slow'] },
+  } as const;
+
+  it('accepts a valid config and ignores undefined values', () => {
+    validateAgentConfig('test', schema, { command: 'cli', mode: 'fast', cwd: undefined });
+  });
+
+  it('reports every problem in one error', () => {
+    assert.throws(() => validateAgentConfig('test', schema, { mode: 'medium', retry: [] }), {
+      name: 'AgentConfigError',
+      message:
+        "Invalid config for agent 'test': 'mode' must be one of fast, slow; " +
+        "'retry' must be of type object; missing required option 'command'",
+    });
+  });
+});
+
+describe('AgentRegistry', () => {
+  it('registers a third-party backend and refuses to replace it silently', async () => {
+    const registry = new AgentRegistry();
+    const definition = {
+      name: 'my-cli',
+      schema: CLI_AGENT_CONFIG_SCHEMA,
+      create: () => new FakeAgent({ responses: { stdout: 'first' } }),
+    };
+    registry.register(definition);
+
+    assert.deepEqual(registry.list(), ['my-cli']);
+    assert.throws(() => registry.register(definition), AgentConfigError);
+    assert.throws(() => registry.create('my-cli', { model: 'x' }), AgentConfigError);
+
+    registry.register(
+      { ...definition, create: () => new FakeAgent({ responses: { stdout: 'second' } }) },
+      { replace: true }
+    );
+    assert.equal(await registry.create('my-cli').execute('prompt'), 'second');
+
+    assert.equal(registry.unregister('my-cli'), true);
+    assert.equal(registry.has('my-cli'), false);
+  });
+
+  it('registers a template as a backend with fixed settings', async () => {
+    const registry = new AgentRegistry();
+    registerTemplateAgent(
+      {
+        name: 'echo',
+        description: 'Prints its prompt',
+        command: process.execPath,
+        args: ['-e', "process.stdout.write('echo: ' + process.argv[1])", '{prompt}'],
+      },
+      registry
+    );
+
+    const agent = registry.create('echo', { timeoutMs: 10000 });
+    assert.ok(agent instanceof TemplateAgent);
+    assert.equal(registry.get('echo')?.description, 'Prints its prompt');
+    assert.equal(await agent.execute('hi'), 'echo: hi');
+    // The template is fixed, so only the common options are accepted
+    assert.throws(() => registry.create('echo', { command: 'other' }), AgentConfigError);
+  });
+
+  it('rejects an invalid template before registering it', () => {
+    const registry = new AgentRegistry();
+
+    assert.throws(
+      () => registerTemplateAgent({ name: 'broken', command: 42 as unknown as string }, registry),
+      AgentConfigError
+    );
+    assert.equal(registry.has('broken'), false);
+  });
+});
@@ -0,0 +1,409 @@
+import type { CLIAgent, CLIAgentConfig } from './agent.js';
+import { Aider, type AiderConfig } from './aider/main.js';
+import { ClaudeCode, type ClaudeConfig } from './claude/main.js';
+import { Codex, type CodexConfig } from './codex/main.js';
+import { AgentConfigError } from './errors.js';
+import { FakeAgent, type FakeAgentConfig } from './fake/main.js';
+import { Gemini, type GeminiConfig } from './gemini/main.js';
+import { OpenAICompatible, type OpenAICompatibleConfig } from './openai/main.js';
+import {
+  TemplateAgent,
+  type TemplateAgentConfig,
+  type TemplateDefinition,
+} from './template/main.js';
+
+/**
+ * Value kinds a config field can be checked against
+ */
+export type ConfigFieldType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'any';
+
+/**
+ * Description of a single config field
+ */
+export type ConfigField = {
+  readonly type: ConfigFieldType | readonly ConfigFieldType[];
+  readonly required?: boolean;
+  /** Allowed values, for enumerations */
+  readonly values?: readonly unknown[];
+  readonly description?: string;
+};
+
+/**
+ * Config schema of an agent backend, keyed by field name
+ *
+ * Unknown fields are rejected so that typos in configuration files surface early.
+ */
+export type AgentConfigSchema = Readonly<Record<string, ConfigField>>;
+
+/**
+ * Fields understood by every CLIAgent
+ */
+export const CLI_AGENT_CONFIG_SCHEMA: AgentConfigSchema = {
+  additionalArgs: { type: 'array', description: 'Extra command line arguments' },
+  cwd: { type: 'string', description: 'Working directory of the CLI' },
+  env: { type: 'object', description: 'Environment allowlist and overrides' },
+  writableScope: { type: 'array', description: 'Paths the agent may modify' },
+  scopeIgnore: { type: 'array', description: 'Directories the writable scope check skips' },
+  timeoutMs: { type: 'number', description: 'Total time limit' },
+  idleTimeoutMs: { type: 'number', description: 'Time limit without output' },
+  heartbeatIntervalMs: { type: 'number', description: 'Interval of heartbeat callbacks' },
+  killGracePeriodMs: { type: 'number', description: 'Time between SIGTERM and SIGKILL' },
+  promptTransport: { type: 'string', values: ['arg', 'stdin', 'file'] },
+  retry: { type: 'object', description: 'Retry policy' },
+  recordDir: { type: 'string', description: 'Directory for output recordings' },
+  replayFrom: { type: ['string', 'object'], description: 'Recording to replay' },
+  replayTiming: { type: 'string', values: ['instant', 'realtime'] },
+};
+
+/**
+ * Config types of registered backends, used to type `createAgent()`
+ *
+ * Third-party backends can add their entry through declaration merging:
+ *
+ * ```typescript
+ * declare module './model/registry.js' {
+ *   interface AgentConfigMap { 'my-cli': MyCliConfig }
+ * }
+ * ```
+ */
+export interface AgentConfigMap {
+  claude: ClaudeConfig;
+  gemini: GeminiConfig;
+  codex: CodexConfig;
+  aider: AiderConfig;
+  'openai-compatible': OpenAICompatibleConfig;
+  template: TemplateAgentConfig;
+  fake: FakeAgentConfig;
+}
+
+/**
+ * Name of an agent backend
+ */
+export type AgentName = keyof AgentConfigMap | (string & {});
+
+/**
+ * Reference to a backend together with its config, as used in subagent and workflow configs
+ */
+export type AgentSpec = {
+  readonly name: AgentName;
+  readonly config?: Readonly<Record<string, unknown>>;
+};
+
+/**
+ * Registration of an agent backend
+ */
+export type AgentDefinition<TConfig extends CLIAgentConfig = CLIAgentConfig> = {
+  readonly name: string;
+  readonly description?: string;
+  readonly schema: AgentConfigSchema;
+  readonly create: (config: TConfig) => CLIAgent;
+};
+
+/**
+ * Registry of agent backends, selectable by name
+ *
+ * @example
+ * ```typescript
+ * agentRegistry.register({
+ *   name: 'my-cli',
+ *   schema: CLI_AGENT_CONFIG_SCHEMA,
+ *   create: (config) => new MyCliAgent(config),
+ * });
+ * const agent = createAgent('my-cli', { timeoutMs: 60000 });
+ * ```
+ */
+export class AgentRegistry {
+  private readonly definitions = new Map<string, AgentDefinition>();
+
+  /**
+   * Registers a backend
+   *
+   * @param definition - Name, config schema and factory of the backend
+   * @param options - Set `replace` to override an existing registration
+   */
+  register<TConfig extends CLIAgentConfig>(
+    definition: AgentDefinition<TConfig>,
+    options: { readonly replace?: boolean } = {}
+  ): void {
+    if (this.definitions.has(definition.name) && !options.replace) {
+      throw new AgentConfigError(
+        definition.name,
+        `An agent named '${definition.name}' is already registered`
+      );
+    }
+    this.definitions.set(definition.name, definition as unknown as AgentDefinition);
+  }
+
+  /**
+   * Removes a backend
+   *
+   * @param name - Name the backend was registered under
+   * @returns True if a backend was removed
+   */
+  unregister(name: string): boolean {
+    return this.definitions.delete(name);
+  }
+
+  /**
+   * Checks whether a backend is registered
+   *
+   * @param name - Backend name
+   */
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  /**
+   * Returns the registration of a backend
+   *
+   * @param name - Backend name
+   */
+  get(name: string): AgentDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  /**
+   * Returns the names of all registered backends
+   */
+  list(): string[] {
+    return [...this.definitions.keys()];
+  }
+
+  /**
+   * Validates a config against a backend's schema and creates the agent
+   *
+   * @param name - Backend name
+   * @param config - Backend config
+   * @returns New agent instance
+   */
+  create(name: string, config: Readonly<Record<string, unknown>> = {}): CLIAgent {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new AgentConfigError(
+        name,
+        `Unknown agent '${name}' (registered: ${this.list().join(', ') || 'none'})`
+      );
+    }
+
+    validateAgentConfig(name, definition.schema, config);
+    return definition.create(config as CLIAgentConfig);
+  }
+}
+
+/**
+ * Registry used by `createAgent()`, preloaded with the built-in backends
+ */
+export const agentRegistry = new AgentRegistry();
+
+agentRegistry.register<ClaudeConfig>({
+  name: 'claude',
+  description: 'Claude Code CLI',
+  schema: {
+    ...CLI_AGENT_CONFIG_SCHEMA,
+    model: { type: 'string' },
+    appendSystemPrompt: { type: 'string', description: 'Text appended to the system prompt' },
+    allowedTools: { type: 'array', description: 'Tool rules to allow' },
+    disallowedTools: { type: 'array', description: 'Tool rules to deny' },
+    maxTurns: { type: 'number' },
+    mcpConfig: { type: ['string', 'object'], description: 'MCP config file or object' },
+    permissionProfile: { type: 'string', values: ['read-only', 'edit-in-cwd', 'full'] },
+  },
+  create: (config) => new ClaudeCode(config),
+});
+
+agentRegistry.register<GeminiConfig>({
+  name: 'gemini',
+  description: 'Gemini CLI',
+  schema: {
+    ...CLI_AGENT_CONFIG_SCHEMA,
+    outputFormat: { type: 'string', values: ['auto', 'stream-json', 'json', 'text'] },
+    cliVersion: { type: 'string', description: 'Installed CLI version, to skip detection' },
+    parser: { type: 'any', description: 'Custom output parser factory' },
+  },
+  create: (config) => new Gemini(config),
+});
+
+agentRegistry.register<CodexConfig>({
+  name: 'codex',
+  description: 'OpenAI Codex CLI',
+  schema: CLI_AGENT_CONFIG_SCHEMA,
+  create: (config) => new Codex(config),
+});
+
+agentRegistry.register<AiderConfig>({
+  name: 'aider',
+  description: 'Aider, for git-aware multi-file edits',
+  schema: {
+    ...CLI_AGENT_CONFIG_SCHEMA,
+    files: { type: 'array', description: 'Files to edit' },
+    readOnlyFiles: { type: 'array', description: 'Files added as read-only context' },
+    model: { type: 'string' },
+    autoCommits: { type: 'boolean', description: 'Commit edits (default: true)' },
+  },
+  create: (config) => new Aider(config),
+});
+
+agentRegistry.register<OpenAICompatibleConfig>({
+  name: 'openai-compatible',
+  description: 'Model server with an OpenAI-compatible chat completions API',
+  schema: {
+    ...CLI_AGENT_CONFIG_SCHEMA,
+    baseUrl: { type: 'string', description: 'API root including /v1' },
+    model: { type: 'string' },
+    apiKey: { type: 'string' },
+    systemPrompt: { type: 'string' },
+    temperature: { type: 'number' },
+    maxTokens: { type: 'number' },
+    headers: { type: 'object', description: 'Extra request headers' },
+  },
+  create: (config) => new OpenAICompatible(config),
+});
+
+/**
+ * Fields of a TemplateAgent's template
+ */
+const TEMPLATE_CONFIG_SCHEMA: AgentConfigSchema = {
+  name: { type: 'string', description: 'Name used in logs and errors' },
+  command: { type: 'string', required: true, description: 'Executable to run' },
+  args: { type: 'array', description: 'Argument template with {prompt}/{promptFile}' },
+  output: { type: 'object', description: 'Output mode: text, ndjson or last-block' },
+  noiseFilters: { type: 'array', description: 'Patterns of stdout lines to drop' },
+  requiredEnv: { type: 'array', description: 'Variables the CLI always needs' },
+  promptTransports: { type: 'array', description: 'Transports the CLI accepts' },
+};
+
+agentRegistry.register<TemplateAgentConfig>({
+  name: 'template',
+  description: 'Generic CLI described by a template',
+  schema: { ...CLI_AGENT_CONFIG_SCHEMA, ...TEMPLATE_CONFIG_SCHEMA },
+  create: (config) => new TemplateAgent(config),
+});
+
+agentRegistry.register<FakeAgentConfig>({
+  name: 'fake',
+  description: 'Scripted offline agent for tests',
+  schema: {
+    ...CLI_AGENT_CONFIG_SCHEMA,
+    responses: { type: 'any', required: true, description: 'Scripted responses' },
+    agentName: { type: 'string' },
+  },
+  create: (config) => new FakeAgent(config),
+});
+
+/**
+ * Registers a template as a backend of its own, so it can be selected by name
+ *
+ * The template's settings are fixed; the agent config only carries the common
+ * CLIAgent options.
+ *
+ * @param template - Template with the name to register it under
+ * @param registry - Registry to add the backend to
+ */
+export function registerTemplateAgent(
+  template: TemplateDefinition & { readonly name: string; readonly description?: string },
+  registry: AgentRegistry = agentRegistry
+): void {
+  const { description, ...definition } = template;
+  validateAgentConfig(template.name, TEMPLATE_CONFIG_SCHEMA, definition);
+  registry.register<CLIAgentConfig>({
+    name: template.name,
+    ...(description && { description }),
+    schema: CLI_AGENT_CONFIG_SCHEMA,
+    create: (config) => new TemplateAgent({ ...config, ...definition }),
+  });
+}
+
+/**
+ * Creates an agent by backend name
+ *
+ * @param name - Backend name (e.g., 'claude', 'gemini')
+ * @param config - Backend config, validated against the backend's schema
+ * @returns New agent instance
+ */
+export function createAgent<K extends keyof AgentConfigMap>(
+  name: K,
+  config?: AgentConfigMap[K]
+): CLIAgent;
+export function createAgent(name: string, config?: Readonly<Record<string, unknown>>): CLIAgent;
+export function createAgent(
+  name: string,
+  config: Readonly<Record<string, unknown>> = {}
+): CLIAgent {
+  return agentRegistry.create(name, config);
+}
+
+/**
+ * Creates an agent from a name or spec, applying defaults under the spec's own config
+ *
+ * @param spec - Backend name or spec
+ * @param defaults - Config used where the spec does not set a value
+ * @returns New agent instance
+ */
+export function createAgentFromSpec(
+  spec: AgentName | AgentSpec,
+  defaults: Readonly<Record<string, unknown>> = {}
+): CLIAgent {
+  const { name, config } = typeof spec === 'string' ? { name: spec, config: {} } : spec;
+  return agentRegistry.create(name, { ...defaults, ...config });
+}
+
+/**
+ * Checks a config against a schema
+ *
+ * @param agent - Backend name for error messages
+ * @param schema - Schema to check against
+ * @param config - Config to check
+ * @throws AgentConfigError listing every problem found
+ */
+export function validateAgentConfig(
+  agent: string,
+  schema: AgentConfigSchema,
+  config: Readonly<Record<string, unknown>>
+): void {
+  const problems: string[] = [];
+
+  for (const [key, value] of Object.entries(config)) {
+    const field = schema[key];
+    if (!field) {
+      problems.push(`unknown option '${key}'`);
+      continue;
+    }
+    if (value === undefined) continue;
+
+    const types = typeof field.type === 'string' ? [field.type] : field.type;
+    if (!types.some((type) => matchesType(value, type))) {
+      problems.push(`'${key}' must be of type ${types.join(' | ')}`);
+    } else if (field.values && !field.values.includes(value)) {
+      problems.push(`'${key}' must be one of ${field.values.join(', ')}`);
+    }
+  }
+
+  for (const [key, field] of Object.entries(schema)) {
+    if (field.required && config[key] === undefined) {
+      problems.push(`missing required option '${key}'`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new AgentConfigError(
+      agent,
+      `Invalid config for agent '${agent}': ${problems.join('; ')}`
+    );
+  }
+}
+
+/**
+ * Checks a value against a config field type
+ */
+function matchesType(value: unknown, type: ConfigFieldType): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'any':
+      return true;
+    default:
+      return typeof value === type;
+  }
+}
@@ -0,0 +1,195 @@
+import type { AgentEvent, TokenUsage } from './events.js';
+
+/**
+ * A single tool invocation made during an execution
+ */
+export type ToolInvocation = {
+  readonly id?: string;
+  readonly name: string;
+  readonly input?: unknown;
+  readonly output?: unknown;
+  readonly isError?: boolean;
+  /** Whether a result was reported for the call */
+  readonly completed: boolean;
+  /** Event timestamps (ms since epoch) of the call and its result */
+  readonly startedAt: number;
+  readonly finishedAt?: number;
+  readonly durationMs?: number;
+};
+
+/**
+ * Entry of an execution's transcript, in the order the agent produced them
+ */
+export type TranscriptEntry =
+  | { readonly type: 'text'; readonly text: string; readonly timestamp: number }
+  | { readonly type: 'tool'; readonly call: ToolInvocation };
+
+/**
+ * Detailed outcome of an execution, as returned by `CLIAgent.executeDetailed()`
+ *
+ * Fields a backend does not report (e.g., cost for Gemini) are left undefined.
+ */
+export type ExecutionResult = {
+  readonly agent: string;
+  readonly executionId: string;
+  readonly text: string;
+  /** Whether the backend reported the result as an error */
+  readonly isError: boolean;
+  readonly exitCode: number | null;
+  /** Wall time of the whole execution, including retries */
+  readonly wallTimeMs: number;
+  /** Duration reported by the backend itself */
+  readonly durationMs?: number;
+  readonly costUsd?: number;
+  readonly usage?: TokenUsage;
+  readonly model?: string;
+  readonly sessionId?: string;
+  readonly cwd?: string;
+  readonly tools?: string[];
+  readonly toolCalls: ToolInvocation[];
+  /** Assistant text and tool calls in order; consecutive text deltas are merged */
+  readonly transcript: TranscriptEntry[];
+  readonly stderrTail: string;
+  readonly attempts: number;
+  /** Absolute paths of files changed below the working directory, when a writable scope was set */
+  readonly changedFiles?: string[];
+};
+
+/**
+ * Fields of an ExecutionResult that do not come from the event stream
+ */
+export type ExecutionOutcome = Pick<
+  ExecutionResult,
+  'executionId' | 'text' | 'exitCode' | 'wallTimeMs' | 'stderrTail' | 'attempts' | 'changedFiles'
+>;
+
+/**
+ * Tool invocation as it is updated while events arrive
+ */
+type OpenToolInvocation = {
+  -readonly [K in keyof ToolInvocation]: ToolInvocation[K];
+};
+
+/**
+ * Reduces the event stream of one execution into an ExecutionResult
+ *
+ * Tool results are matched to their calls by id; backends that do not report
+ * ids get each result attached to the oldest call that is still open.
+ */
+export class ExecutionResultCollector {
+  private readonly agent: string;
+  private readonly toolCalls: OpenToolInvocation[] = [];
+  private readonly entries: Array<
+    { type: 'text'; text: string; timestamp: number } | { type: 'tool'; call: OpenToolInvocation }
+  > = [];
+  private session: Partial<Pick<ExecutionResult, 'model' | 'sessionId' | 'cwd' | 'tools'>> = {};
+  private result: Partial<Pick<ExecutionResult, 'isError' | 'durationMs' | 'costUsd' | 'usage'>> & {
+    sessionId?: string;
+  } = {};
+
+  /**
+   * @param agent - Name of the agent the events come from
+   */
+  constructor(agent: string) {
+    this.agent = agent;
+  }
+
+  /**
+   * Folds an event into the collected data
+   *
+   * @param event - Event emitted by the execution
+   */
+  add(event: AgentEvent): void {
+    switch (event.type) {
+      case 'session_started':
+        this.session = {
+          ...this.session,
+          ...(event.sessionId && { sessionId: event.sessionId }),
+          ...(event.model && { model: event.model }),
+          ...(event.cwd && { cwd: event.cwd }),
+          ...(event.tools && { tools: event.tools }),
+        };
+        break;
+
+      case 'text_delta': {
+        const last = this.entries[this.entries.length - 1];
+        if (last?.type === 'text') {
+          last.text += event.text;
+        } else {
+          this.entries.push({ type: 'text', text: event.text, timestamp: event.timestamp });
+        }
+        break;
+      }
+
+      case 'tool_call': {
+        const call: OpenToolInvocation = {
+          ...(event.id && { id: event.id }),
+          name: event.name,
+          ...(event.input !== undefined && { input: event.input }),
+          completed: false,
+          startedAt: event.timestamp,
+        };
+        this.toolCalls.push(call);
+        this.entries.push({ type: 'tool', call });
+        break;
+      }
+
+      case 'tool_result': {
+        const call =
+          event.toolCallId !== undefined
+            ? this.toolCalls.find((c) => c.id === event.toolCallId)
+            : this.toolCalls.find((c) => !c.completed);
+        if (call) {
+          call.completed = true;
+          call.finishedAt = event.timestamp;
+          call.durationMs = event.timestamp - call.startedAt;
+          if (event.output !== undefined) call.output = event.output;
+          if (event.isError !== undefined) call.isError = event.isError;
+        }
+        break;
+      }
+
+      case 'result':
+        this.result = {
+          isError: event.isError,
+          ...(event.sessionId && { sessionId: event.sessionId }),
+          ...(event.durationMs !== undefined && { durationMs: event.durationMs }),
+          ...(event.costUsd !== undefined && { costUsd: event.costUsd }),
+          ...(event.usage && { usage: event.usage }),
+        };
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Builds the result from the collected events and the execution's outcome
+   *
+   * @param outcome - Data known only to the agent (exit code, timing, stderr)
+   */
+  build(outcome: ExecutionOutcome): ExecutionResult {
+    const sessionId = this.result.sessionId ?? this.session.sessionId;
+    const copies = new Map(this.toolCalls.map((call) => [call, { ...call }]));
+
+    return {
+      agent: this.agent,
+      ...outcome,
+      isError: this.result.isError ?? false,
+      ...(this.result.durationMs !== undefined && { durationMs: this.result.durationMs }),
+      ...(this.result.costUsd !== undefined && { costUsd: this.result.costUsd }),
+      ...(this.result.usage && { usage: this.result.usage }),
+      ...(this.session.model && { model: this.session.model }),
+      ...(sessionId && { sessionId }),
+      ...(this.session.cwd && { cwd: this.session.cwd }),
+      ...(this.session.tools && { tools: this.session.tools }),
+      toolCalls: [...copies.values()],
+      transcript: this.entries.map((entry) =>
+        entry.type === 'text'
+          ? { ...entry }
+          : { type: 'tool', call: copies.get(entry.call) ?? { ...entry.call } }
+      ),
+    };
+  }
+}
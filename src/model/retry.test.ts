@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AbortError, AgentExitError, AgentRateLimitError, AgentTimeoutError } from './errors.js';
+import { computeRetryDelay, isRetryableError, resolveRetryPolicy, withRetry } from './retry.js';
+
+describe('withRetry', () => {
+  it('retries retryable errors up to maxAttempts', async () => {
+    const attempts: number[] = [];
+    const result = await withRetry(
+      async (attempt) => {
+        attempts.push(attempt);
+        if (attempt < 3) throw new AgentTimeoutError('Agent', 10);
+        return 'done';
+      },
+      { maxAttempts: 3, initialDelayMs: 1 }
+    );
+
+    assert.equal(result, 'done');
+    assert.deepEqual(attempts, [1, 2, 3]);
+  });
+
+  it('passes non-retryable errors through at once', async () => {
+    let calls = 0;
+    const failure = new AgentExitError('Agent', 1, '');
+    await assert.rejects(
+      withRetry(
+        async () => {
+          calls++;
+          throw failure;
+        },
+        { maxAttempts: 5, initialDelayMs: 1 }
+      ),
+      (error) => error === failure
+    );
+    assert.equal(calls, 1);
+  });
+
+  it('stops waiting as soon as the signal is aborted during a delay', async () => {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    const result = withRetry(
+      async () => {
+        throw new AgentRateLimitError('Agent', 1, '');
+      },
+      { maxAttempts: 2, initialDelayMs: 60000 },
+      { signal: controller.signal, onRetry: () => controller.abort(new Error('stop')) }
+    );
+
+    await assert.rejects(result, /stop/);
+    assert.ok(Date.now() - startedAt < 1000);
+  });
+});
+
+describe('retry policy', () => {
+  it('grows delays exponentially up to the maximum', () => {
+    const policy = resolveRetryPolicy({
+      initialDelayMs: 100,
+      backoffMultiplier: 3,
+      maxDelayMs: 1000,
+      jitter: 0,
+    });
+
+    assert.deepEqual(
+      [1, 2, 3, 4].map((attempt) => computeRetryDelay(attempt, policy)),
+      [100, 300, 900, 1000]
+    );
+  });
+
+  it('never retries cancellations', () => {
+    const policy = resolveRetryPolicy({ retryOn: [Error] });
+
+    assert.equal(isRetryableError(new AbortError('Agent'), policy), false);
+    assert.equal(isRetryableError(new Error('x'), policy), true);
+  });
+});
@@ -0,0 +1,138 @@
+import { AbortError, AgentRateLimitError, AgentTimeoutError } from './errors.js';
+
+/**
+ * Constructor of an error class that a retry policy matches with `instanceof`
+ */
+export type ErrorClass = abstract new (...args: never[]) => Error;
+
+/**
+ * Retry policy for agent executions
+ *
+ * Delays grow exponentially from `initialDelayMs` by `backoffMultiplier` up to
+ * `maxDelayMs`; `jitter` randomizes each delay by up to that fraction.
+ */
+export type RetryPolicy = {
+  readonly maxAttempts?: number;
+  readonly initialDelayMs?: number;
+  readonly maxDelayMs?: number;
+  readonly backoffMultiplier?: number;
+  readonly jitter?: number;
+  readonly retryOn?: readonly ErrorClass[];
+};
+
+/**
+ * Retryable errors used when a policy does not list its own
+ */
+export const DEFAULT_RETRYABLE_ERRORS: readonly ErrorClass[] = [
+  AgentTimeoutError,
+  AgentRateLimitError,
+];
+
+/**
+ * Fills in defaults for a retry policy; the default is a single attempt
+ *
+ * @param policy - Partial retry policy
+ * @returns Policy with every field set
+ */
+export function resolveRetryPolicy(policy: RetryPolicy = {}): Required<RetryPolicy> {
+  return {
+    maxAttempts: Math.max(1, policy.maxAttempts ?? 1),
+    initialDelayMs: policy.initialDelayMs ?? 1000,
+    maxDelayMs: policy.maxDelayMs ?? 30000,
+    backoffMultiplier: policy.backoffMultiplier ?? 2,
+    jitter: Math.min(1, Math.max(0, policy.jitter ?? 0.2)),
+    retryOn: policy.retryOn ?? DEFAULT_RETRYABLE_ERRORS,
+  };
+}
+
+/**
+ * Computes the delay before the next attempt
+ *
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param policy - Resolved retry policy
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(attempt: number, policy: Required<RetryPolicy>): number {
+  const base = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * policy.backoffMultiplier ** (attempt - 1)
+  );
+  const spread = base * policy.jitter;
+  return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+}
+
+/**
+ * Checks whether an error may be retried under a policy
+ *
+ * Cancellations are never retried.
+ *
+ * @param error - The error thrown by the failed attempt
+ * @param policy - Resolved retry policy
+ */
+export function isRetryableError(error: unknown, policy: Required<RetryPolicy>): boolean {
+  if (error instanceof AbortError) return false;
+  return policy.retryOn.some((errorClass) => error instanceof errorClass);
+}
+
+/**
+ * Hooks and cancellation for `withRetry`
+ */
+export type RetryOptions = {
+  readonly signal?: AbortSignal | undefined;
+  readonly onRetry?: (error: Error, attempt: number, delayMs: number) => void;
+};
+
+/**
+ * Runs an operation, retrying retryable failures according to the policy
+ *
+ * @param operation - Operation to run; receives the 1-based attempt number
+ * @param policy - Retry policy
+ * @param options - Abort signal and retry callback
+ * @returns Result of the first successful attempt
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = {},
+  options: RetryOptions = {}
+): Promise<T> {
+  const resolved = resolveRetryPolicy(policy);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= resolved.maxAttempts || !isRetryableError(error, resolved)) {
+        throw error;
+      }
+
+      const delayMs = computeRetryDelay(attempt, resolved);
+      options.onRetry?.(error as Error, attempt, delayMs);
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
+
+/**
+ * Waits for the given time, rejecting with the signal's reason when aborted
+ *
+ * @param ms - Time to wait in milliseconds
+ * @param signal - Optional abort signal
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
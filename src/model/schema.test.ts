@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  assertSchema,
+  formatSchemaExample,
+  SchemaValidationError,
+  schema,
+  toJsonSchema,
+  validateSchema,
+} from './schema.js';
+
+const STEP = schema.object({
+  id: schema.string({ example: 'step-1' }),
+  priority: schema.enum(['high', 'low']),
+  minutes: schema.number({ integer: true, minimum: 0 }),
+  dependencies: schema.optional(schema.array(schema.string())),
+});
+
+const PLAN = schema.object({
+  done: schema.boolean({ description: 'Whether the plan is complete' }),
+  steps: schema.array(STEP),
+});
+
+describe('validateSchema', () => {
+  it('accepts a matching value, with or without optional properties', () => {
+    const value = {
+      done: false,
+      steps: [
+        { id: 'a', priority: 'high', minutes: 5 },
+        { id: 'b', priority: 'low', minutes: 0, dependencies: ['a'] },
+      ],
+    };
+
+    assert.deepEqual(validateSchema(PLAN, value), []);
+  });
+
+  it('reports every mismatch with the path of the offending value', () => {
+    const value = {
+      done: 'no',
+      steps: [
+        { id: 'a', priority: 'urgent', minutes: 1.5 },
+        { priority: 'low', minutes: -1, dependencies: ['a', 7] },
+        'step-3',
+      ],
+    };
+
+    assert.deepEqual(validateSchema(PLAN, value), [
+      { path: '$.done', message: '$.done must be a boolean (got "no")' },
+      {
+        path: '$.steps[0].priority',
+        message: '$.steps[0].priority must be one of "high", "low" (got "urgent")',
+      },
+      { path: '$.steps[0].minutes', message: '$.steps[0].minutes must be an integer (got 1.5)' },
+      { path: '$.steps[1].id', message: '$.steps[1].id is required' },
+      { path: '$.steps[1].minutes', message: '$.steps[1].minutes must be at least 0 (got -1)' },
+      {
+        path: '$.steps[1].dependencies[1]',
+        message: '$.steps[1].dependencies[1] must be a string (got 7)',
+      },
+      { path: '$.steps[2]', message: '$.steps[2] must be an object (got "step-3")' },
+    ]);
+  });
+
+  it('reports the wrong type of the root value', () => {
+    assert.deepEqual(
+      validateSchema(PLAN, [1]).map((issue) => issue.path),
+      ['$']
+    );
+    assert.match(validateSchema(PLAN, null)[0]?.message ?? '', /must be an object \(got null\)/);
+  });
+
+  it('treats null as present and non-finite numbers as invalid', () => {
+    assert.deepEqual(
+      validateSchema(STEP, { id: null, priority: 'high', minutes: Number.NaN }).map(
+        (issue) => issue.message
+      ),
+      ['$.id must be a string (got null)', '$.minutes must be a number (got NaN)']
+    );
+  });
+
+  it('shortens long strings in messages', () => {
+    const [issue] = validateSchema(schema.number(), 'x'.repeat(100));
+
+    assert.equal(issue?.message, `$ must be a number (got "${'x'.repeat(40)}…")`);
+  });
+});
+
+describe('assertSchema', () => {
+  it('throws SchemaValidationError with all issues', () => {
+    assert.throws(
+      () => assertSchema(STEP, { id: 1, priority: 'high' }),
+      (error) => {
+        assert.ok(error instanceof SchemaValidationError);
+        assert.deepEqual(
+          error.issues.map((issue) => issue.path),
+          ['$.minutes', '$.id']
+        );
+        assert.equal(error.message, '$.minutes is required; $.id must be a string (got 1)');
+        return true;
+      }
+    );
+  });
+});
+
+describe('toJsonSchema', () => {
+  it('converts to JSON Schema with required keys, enums and annotations', () => {
+    assert.deepEqual(toJsonSchema(PLAN), {
+      type: 'object',
+      properties: {
+        done: { type: 'boolean', description: 'Whether the plan is complete' },
+        steps: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              priority: { type: 'string', enum: ['high', 'low'] },
+              minutes: { type: 'integer', minimum: 0 },
+              dependencies: { type: 'array', items: { type: 'string' } },
+            },
+            required: ['id', 'priority', 'minutes'],
+          },
+        },
+      },
+      required: ['done', 'steps'],
+    });
+  });
+});
+
+describe('formatSchemaExample', () => {
+  it('renders examples, enumerations and one array element', () => {
+    assert.deepEqual(JSON.parse(formatSchemaExample(PLAN)), {
+      done: false,
+      steps: [{ id: 'step-1', priority: 'high|low', minutes: 0, dependencies: ['string'] }],
+    });
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * JSON Schema document, as passed to backends with a native schema mode
+ */
+export type JsonSchema = { readonly [key: string]: unknown };
+
+/**
+ * Named JSON Schema for `ExecuteOptions.outputSchema`
+ */
+export type OutputSchema = {
+  /** Identifier of the output type (letters, digits, `_` and `-`) */
+  readonly name: string;
+  readonly schema: JsonSchema;
+};
+
+/**
+ * Structure of a schema node
+ */
+type SchemaNode =
+  | {
+      readonly kind: 'string';
+      readonly values?: readonly string[];
+      readonly description?: string;
+      readonly example?: string;
+    }
+  | {
+      readonly kind: 'number';
+      readonly integer?: boolean;
+      readonly minimum?: number;
+      readonly description?: string;
+      readonly example?: number;
+    }
+  | { readonly kind: 'boolean'; readonly description?: string }
+  | { readonly kind: 'array'; readonly items: SchemaNode; readonly description?: string }
+  | {
+      readonly kind: 'object';
+      readonly properties: Readonly<Record<string, SchemaNode>>;
+      readonly required: readonly string[];
+      readonly description?: string;
+    };
+
+/**
+ * Schema of a JSON value whose TypeScript type is `T`
+ *
+ * Schemas are built with the `schema` helpers; `Infer<typeof X>` gives the type.
+ */
+export type Schema<T> = {
+  readonly node: SchemaNode;
+  readonly optional: boolean;
+  /** Carries the TypeScript type; never set at runtime */
+  readonly __type?: T;
+};
+
+/**
+ * Schema of an object property that may be absent
+ */
+export type OptionalSchema<T> = Schema<T> & { readonly optional: true };
+
+/**
+ * TypeScript type described by a schema
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Readonly<Record<string, Schema<unknown>>>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Object type of a shape; optional properties become optional keys
+ */
+type InferShape<S extends Shape> = Simplify<
+  {
+    readonly [K in keyof S as S[K] extends OptionalSchema<unknown> ? never : K]: Infer<S[K]>;
+  } & {
+    readonly [K in keyof S as S[K] extends OptionalSchema<unknown> ? K : never]?: Infer<S[K]>;
+  }
+>;
+
+/**
+ * Annotations shared by all schema builders
+ */
+type Annotations = { readonly description?: string };
+
+/**
+ * Creates a required schema from a node
+ */
+function define<T>(node: SchemaNode): Schema<T> {
+  return { node, optional: false };
+}
+
+/**
+ * Builders for schemas of structured agent output
+ *
+ * @example
+ * ```typescript
+ * const STEP = schema.object({
+ *   id: schema.string({ example: 'step-1' }),
+ *   priority: schema.enum(['high', 'medium', 'low']),
+ *   dependencies: schema.optional(schema.array(schema.string())),
+ * });
+ * type Step = Infer<typeof STEP>;
+ * ```
+ */
+export const schema = {
+  /**
+   * String; the type parameter narrows it, e.g. to a branded id type
+   */
+  string<T extends string = string>(
+    options: Annotations & { readonly example?: string } = {}
+  ): Schema<T> {
+    return define({ kind: 'string', ...options });
+  },
+
+  /**
+   * One of a fixed list of strings
+   */
+  enum<const V extends readonly string[]>(values: V, options: Annotations = {}): Schema<V[number]> {
+    return define({ kind: 'string', values, ...options });
+  },
+
+  number(
+    options: Annotations & {
+      readonly integer?: boolean;
+      readonly minimum?: number;
+      readonly example?: number;
+    } = {}
+  ): Schema<number> {
+    return define({ kind: 'number', ...options });
+  },
+
+  boolean(options: Annotations = {}): Schema<boolean> {
+    return define({ kind: 'boolean', ...options });
+  },
+
+  array<T>(items: Schema<T>, options: Annotations = {}): Schema<T[]> {
+    return define({ kind: 'array', items: items.node, ...options });
+  },
+
+  object<S extends Shape>(shape: S, options: Annotations = {}): Schema<InferShape<S>> {
+    return define({
+      kind: 'object',
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, value.node])
+      ),
+      required: Object.entries(shape)
+        .filter(([, value]) => !value.optional)
+        .map(([key]) => key),
+      ...options,
+    });
+  },
+
+  /**
+   * Marks an object property as optional
+   */
+  optional<T>(inner: Schema<T>): OptionalSchema<T> {
+    return { node: inner.node, optional: true };
+  },
+} as const;
+
+/**
+ * Mismatch between a value and its schema
+ */
+export type SchemaIssue = {
+  /** Location of the mismatch, e.g. `$.steps[2].priority` */
+  readonly path: string;
+  readonly message: string;
+};
+
+/**
+ * Error raised for a value that does not match its schema
+ */
+export class SchemaValidationError extends Error {
+  override readonly name = 'SchemaValidationError';
+  readonly issues: readonly SchemaIssue[];
+
+  /**
+   * @param issues - All mismatches found
+   */
+  constructor(issues: readonly SchemaIssue[]) {
+    super(issues.map((issue) => issue.message).join('; '));
+    this.issues = issues;
+  }
+}
+
+/**
+ * Checks a value against a schema
+ *
+ * @param target - Schema to check against
+ * @param value - Parsed JSON value
+ * @returns All mismatches, with paths; empty if the value matches
+ */
+export function validateSchema(target: Schema<unknown>, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  checkNode(target.node, value, '$', issues);
+  return issues;
+}
+
+/**
+ * Checks a value against a schema and narrows its type
+ *
+ * @param target - Schema to check against
+ * @param value - Parsed JSON value
+ * @throws SchemaValidationError listing every mismatch
+ */
+export function assertSchema<T>(target: Schema<T>, value: unknown): asserts value is T {
+  const issues = validateSchema(target, value);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(issues);
+  }
+}
+
+/**
+ * Checks a value against a schema node, collecting mismatches
+ */
+function checkNode(node: SchemaNode, value: unknown, path: string, issues: SchemaIssue[]): void {
+  const fail = (expected: string): void => {
+    issues.push({ path, message: `${path} must be ${expected} (got ${describeValue(value)})` });
+  };
+
+  switch (node.kind) {
+    case 'string':
+      if (typeof value !== 'string') {
+        fail('a string');
+      } else if (node.values && !node.values.includes(value)) {
+        fail(`one of ${node.values.map((v) => JSON.stringify(v)).join(', ')}`);
+      }
+      break;
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        fail('a number');
+      } else if (node.integer && !Number.isInteger(value)) {
+        fail('an integer');
+      } else if (node.minimum !== undefined && value < node.minimum) {
+        fail(`at least ${node.minimum}`);
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') fail('a boolean');
+      break;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        fail('an array');
+      } else {
+        for (const [index, item] of value.entries()) {
+          checkNode(node.items, item, `${path}[${index}]`, issues);
+        }
+      }
+      break;
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        fail('an object');
+        break;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of node.required) {
+        if (record[key] === undefined) {
+          issues.push({
+            path: `${path}.${key}`,
+            message: `${path}.${key} is required`,
+          });
+        }
+      }
+      for (const [key, property] of Object.entries(node.properties)) {
+        if (record[key] !== undefined) {
+          checkNode(property, record[key], `${path}.${key}`, issues);
+        }
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Short description of a value for error messages
+ */
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  }
+  return String(value);
+}
+
+/**
+ * Converts a schema to a JSON Schema document
+ *
+ * @param target - Schema to convert
+ * @returns JSON Schema (draft 2020-12 subset)
+ */
+export function toJsonSchema(target: Schema<unknown>): JsonSchema {
+  return nodeToJsonSchema(target.node);
+}
+
+/**
+ * Converts a schema node to JSON Schema
+ */
+function nodeToJsonSchema(node: SchemaNode): JsonSchema {
+  const description = node.description !== undefined ? { description: node.description } : {};
+
+  switch (node.kind) {
+    case 'string':
+      return { type: 'string', ...(node.values && { enum: node.values }), ...description };
+    case 'number':
+      return {
+        type: node.integer ? 'integer' : 'number',
+        ...(node.minimum !== undefined && { minimum: node.minimum }),
+        ...description,
+      };
+    case 'boolean':
+      return { type: 'boolean', ...description };
+    case 'array':
+      return { type: 'array', items: nodeToJsonSchema(node.items), ...description };
+    case 'object':
+      return {
+        type: 'object',
+        properties: Object.fromEntries(
+          Object.entries(node.properties).map(([key, value]) => [key, nodeToJsonSchema(value)])
+        ),
+        required: node.required,
+        ...description,
+      };
+  }
+}
+
+/**
+ * Renders a schema as an example document for a prompt's output format section
+ *
+ * Enumerations are shown as `a|b|c`; other values use their example or
+ * description, falling back to the type name. Arrays show one element.
+ *
+ * @param target - Schema to render
+ * @returns Pretty-printed JSON example
+ */
+export function formatSchemaExample(target: Schema<unknown>): string {
+  return JSON.stringify(exampleOf(target.node), null, 2);
+}
+
+/**
+ * Builds the example value of a schema node
+ */
+function exampleOf(node: SchemaNode): unknown {
+  switch (node.kind) {
+    case 'string':
+      return node.values ? node.values.join('|') : (node.example ?? node.description ?? 'string');
+    case 'number':
+      return node.example ?? 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return [exampleOf(node.items)];
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(node.properties).map(([key, value]) => [key, exampleOf(value)])
+      );
+  }
+}
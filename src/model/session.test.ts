@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { ClaudeCode } from './claude/main.js';
+import { AgentConfigError } from './errors.js';
+import { FakeAgent } from './fake/main.js';
+import { type AgentProcess, createRecording, ReplayProcess } from './recording.js';
+import { AgentSession, FileSessionStore, type SessionRecord } from './session.js';
+
+/**
+ * Claude Code that records its command lines and answers every turn in the given session
+ */
+class ScriptedClaude extends ClaudeCode {
+  readonly argsPerTurn: string[][] = [];
+
+  constructor(private readonly sessionIds: readonly string[]) {
+    super();
+  }
+
+  protected override createProcess(_context: unknown, args: string[]): AgentProcess {
+    const sessionId = this.sessionIds[this.argsPerTurn.length] ?? 'unexpected';
+    this.argsPerTurn.push(args);
+    const events = [
+      { type: 'system', subtype: 'init', session_id: sessionId, model: 'claude-test' },
+      { type: 'result', subtype: 'success', result: 'Done.', session_id: sessionId },
+    ];
+    return new ReplayProcess(
+      createRecording('Claude Code', {
+        stdout: events.map((event) => `${JSON.stringify(event)}\n`),
+      })
+    );
+  }
+
+  /**
+   * Resume flags of each turn
+   */
+  resumeArgs(): string[][] {
+    return this.argsPerTurn.map((args) =>
+      args.flatMap((arg, i) =>
+        arg === '--continue' ? [arg] : arg === '--resume' ? [arg, args[i + 1] ?? ''] : []
+      )
+    );
+  }
+}
+
+describe('AgentSession', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'session-test-'));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('resumes the session reported by the previous turn', async () => {
+    const claude = new ScriptedClaude(['session-1', 'session-1']);
+    const session = claude.createSession();
+
+    await session.send('Implement the cache');
+    const second = await session.send('Add tests');
+
+    assert.deepEqual(claude.resumeArgs(), [[], ['--resume', 'session-1']]);
+    assert.equal(second.sessionId, 'session-1');
+    assert.equal(session.sessionId, 'session-1');
+    assert.equal(session.turns, 2);
+  });
+
+  it('continues the latest session on the first turn only', async () => {
+    const claude = new ScriptedClaude(['session-7', 'session-7']);
+    const session = claude.createSession({ continueLatest: true });
+
+    await session.send('Where were we?');
+    await session.send('Go on');
+
+    assert.deepEqual(claude.resumeArgs(), [['--continue'], ['--resume', 'session-7']]);
+  });
+
+  it('restores a stored session in another session and store instance', async () => {
+    const path = join(directory, 'restore', 'sessions.json');
+    const first = new ScriptedClaude(['session-2']);
+    await first.createSession({ store: new FileSessionStore(path), key: 'step-1' }).send('Start');
+
+    const second = new ScriptedClaude(['session-2']);
+    const session = second.createSession({ store: new FileSessionStore(path), key: 'step-1' });
+    await session.send('Continue');
+
+    assert.deepEqual(second.resumeArgs(), [['--resume', 'session-2']]);
+    assert.equal(session.turns, 2);
+    const records = JSON.parse(await readFile(path, 'utf-8')) as Record<string, SessionRecord>;
+    assert.equal(records['step-1']?.sessionId, 'session-2');
+    assert.equal(records['step-1']?.agent, 'Claude Code');
+    assert.equal(records['step-1']?.turns, 2);
+  });
+
+  it('starts a new session after a reset and removes the stored one', async () => {
+    const store = new FileSessionStore(join(directory, 'reset', 'sessions.json'));
+    const claude = new ScriptedClaude(['session-3', 'session-4']);
+    const session = claude.createSession({ store, key: 'step-2' });
+
+    await session.send('First attempt');
+    await session.reset();
+    assert.equal(await store.get('step-2'), undefined);
+    assert.equal(session.turns, 0);
+
+    await session.send('Second attempt');
+    assert.deepEqual(claude.resumeArgs(), [[], []]);
+    assert.equal((await store.get('step-2'))?.sessionId, 'session-4');
+  });
+
+  it('keeps records of other keys when writing to a file store', async () => {
+    const store = new FileSessionStore(join(directory, 'keys', 'sessions.json'));
+    await new ScriptedClaude(['a']).createSession({ store, key: 'a' }).send('prompt');
+    await new ScriptedClaude(['b']).createSession({ store, key: 'b' }).send('prompt');
+
+    assert.deepEqual((await store.list()).map((record) => record.sessionId).sort(), ['a', 'b']);
+    assert.equal(await store.delete('a'), true);
+    assert.equal(await store.delete('a'), false);
+    assert.deepEqual(
+      (await new FileSessionStore(join(directory, 'keys', 'sessions.json')).list()).map(
+        (record) => record.key
+      ),
+      ['b']
+    );
+  });
+
+  it('rejects a turn in a different working directory', async () => {
+    const agent = new FakeAgent({ responses: { stdout: 'Done.' } });
+    const session = new AgentSession(agent, { cwd: directory });
+
+    await session.send('First', { cwd: `${directory}/` });
+    const error = await session.send('Second', { cwd: tmpdir() }).catch((e: unknown) => e);
+    assert.ok(error instanceof AgentConfigError);
+    assert.deepEqual(agent.prompts, ['First']);
+  });
+});
@@ -0,0 +1,296 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, resolve as resolvePath } from 'node:path';
+import type { CLIAgent, ExecuteOptions } from './agent.js';
+import { AgentConfigError } from './errors.js';
+import type { ExecutionResult } from './result.js';
+
+/**
+ * Persisted state of a multi-turn agent conversation
+ */
+export type SessionRecord = {
+  readonly key: string;
+  readonly agent: string;
+  /** Backend session id, as reported by the agent's CLI */
+  readonly sessionId: string;
+  /** Working directory the session belongs to; CLIs keep sessions per project */
+  readonly cwd?: string;
+  readonly turns: number;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+};
+
+/**
+ * Storage for session records, so that a workflow can return to a conversation later
+ */
+export interface SessionStore {
+  get(key: string): Promise<SessionRecord | undefined>;
+  set(record: SessionRecord): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  list(): Promise<SessionRecord[]>;
+}
+
+/**
+ * Session store that lives as long as the current process
+ */
+export class MemorySessionStore implements SessionStore {
+  private readonly records = new Map<string, SessionRecord>();
+
+  async get(key: string): Promise<SessionRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  async set(record: SessionRecord): Promise<void> {
+    this.records.set(record.key, record);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.records.delete(key);
+  }
+
+  async list(): Promise<SessionRecord[]> {
+    return [...this.records.values()];
+  }
+}
+
+/**
+ * Session store kept in a single JSON file
+ *
+ * Writes replace the file atomically; concurrent writers in other processes
+ * may overwrite each other's changes.
+ */
+export class FileSessionStore implements SessionStore {
+  private readonly path: string;
+  /** Serializes read-modify-write cycles within this process */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param path - Path of the JSON file; created on the first write
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get(key: string): Promise<SessionRecord | undefined> {
+    const records = await this.read();
+    return records[key];
+  }
+
+  async set(record: SessionRecord): Promise<void> {
+    await this.update((records) => {
+      records[record.key] = record;
+    });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    let deleted = false;
+    await this.update((records) => {
+      deleted = key in records;
+      delete records[key];
+    });
+    return deleted;
+  }
+
+  async list(): Promise<SessionRecord[]> {
+    return Object.values(await this.read());
+  }
+
+  /**
+   * Reads all records; a missing file is an empty store
+   */
+  private async read(): Promise<Record<string, SessionRecord>> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf-8')) as Record<string, SessionRecord>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+
+  /**
+   * Applies a change to the stored records and writes them back
+   */
+  private update(change: (records: Record<string, SessionRecord>) => void): Promise<void> {
+    const next = this.pending.then(async () => {
+      const records = await this.read();
+      change(records);
+      await mkdir(dirname(this.path), { recursive: true });
+      const tempPath = `${this.path}.${process.pid}.tmp`;
+      await writeFile(tempPath, `${JSON.stringify(records, null, 2)}\n`, 'utf-8');
+      await rename(tempPath, this.path);
+    });
+    this.pending = next.catch(() => {});
+    return next;
+  }
+}
+
+/**
+ * Options of an AgentSession
+ */
+export type AgentSessionOptions = {
+  /** Key to persist the session under; requires `store` */
+  readonly key?: string;
+  readonly store?: SessionStore;
+  /** Backend session to continue; by default the stored one, if any */
+  readonly sessionId?: string;
+  /** Continue the most recent session in the working directory on the first turn */
+  readonly continueLatest?: boolean;
+  /**
+   * Working directory of every turn; by default the stored one, if any, or the
+   * one of the first turn
+   */
+  readonly cwd?: string;
+};
+
+/**
+ * Multi-turn conversation with an agent whose CLI can resume sessions
+ *
+ * The first turn starts a new backend session (or continues an existing one);
+ * every later turn resumes the session reported by the previous turn. Turns
+ * run one at a time, all in the session's working directory, since CLIs keep
+ * their sessions per project.
+ *
+ * @example
+ * ```typescript
+ * const session = new AgentSession(new ClaudeCode(), { store, key: 'step-3' });
+ * await session.send('Implement the cache layer');
+ * await session.send('Now add tests for it');
+ * ```
+ */
+export class AgentSession {
+  private readonly agent: CLIAgent;
+  private readonly key: string | undefined;
+  private readonly store: SessionStore | undefined;
+  private continueLatest: boolean;
+  private sessionIdValue: string | undefined;
+  private cwdValue: string | undefined;
+  private turnCount = 0;
+  private createdAt: string | undefined;
+  private loaded: boolean;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param agent - Agent that runs the turns
+   * @param options - Persistence and resume options
+   */
+  constructor(agent: CLIAgent, options: AgentSessionOptions = {}) {
+    this.agent = agent;
+    this.key = options.key;
+    this.store = options.store;
+    this.continueLatest = options.continueLatest ?? false;
+    this.sessionIdValue = options.sessionId;
+    this.cwdValue = options.cwd;
+    this.loaded = !(options.key && options.store);
+  }
+
+  /**
+   * Backend session id, once the first turn has reported it
+   */
+  get sessionId(): string | undefined {
+    return this.sessionIdValue;
+  }
+
+  /**
+   * Number of turns sent through this session, including stored ones
+   */
+  get turns(): number {
+    return this.turnCount;
+  }
+
+  /**
+   * Sends one turn of the conversation
+   *
+   * @param prompt - The prompt for this turn
+   * @param options - Per-call options; `resume` is managed by the session
+   * @returns Result of the turn
+   * @throws AgentConfigError if `options.cwd` differs from the session's working directory
+   */
+  send(prompt: string, options: ExecuteOptions = {}): Promise<ExecutionResult> {
+    const turn = this.pending.then(() => this.runTurn(prompt, options));
+    this.pending = turn.catch(() => {});
+    return turn;
+  }
+
+  /**
+   * Forgets the session, locally and in the store
+   */
+  async reset(): Promise<void> {
+    await this.pending;
+    this.sessionIdValue = undefined;
+    this.continueLatest = false;
+    this.turnCount = 0;
+    this.createdAt = undefined;
+    if (this.key && this.store) {
+      await this.store.delete(this.key);
+    }
+  }
+
+  /**
+   * Runs a turn after the previous one has finished
+   */
+  private async runTurn(prompt: string, options: ExecuteOptions): Promise<ExecutionResult> {
+    await this.load();
+
+    const resume = this.sessionIdValue ?? (this.continueLatest ? 'latest' : undefined);
+    const cwd = this.cwdValue ?? options.cwd;
+    if (
+      options.cwd !== undefined &&
+      cwd !== undefined &&
+      resolvePath(options.cwd) !== resolvePath(cwd)
+    ) {
+      throw new AgentConfigError(
+        'AgentSession',
+        `Session runs in ${resolvePath(cwd)} and cannot send a turn in ${resolvePath(options.cwd)}`
+      );
+    }
+    const result = await this.agent.executeDetailed(prompt, {
+      ...options,
+      ...(resume !== undefined && { resume }),
+      ...(cwd !== undefined && { cwd }),
+    });
+
+    this.continueLatest = false;
+    this.sessionIdValue = result.sessionId ?? this.sessionIdValue;
+    this.cwdValue = cwd ?? result.cwd;
+    this.turnCount++;
+    this.createdAt ??= new Date().toISOString();
+    await this.save(result.agent);
+
+    return result;
+  }
+
+  /**
+   * Restores the session from the store before the first turn
+   */
+  private async load(): Promise<void> {
+    if (this.loaded || !this.key || !this.store) return;
+    this.loaded = true;
+
+    const record = await this.store.get(this.key);
+    if (!record) return;
+
+    this.sessionIdValue ??= record.sessionId;
+    if (this.sessionIdValue === record.sessionId) {
+      this.cwdValue ??= record.cwd;
+      this.turnCount = record.turns;
+      this.createdAt = record.createdAt;
+    }
+  }
+
+  /**
+   * Writes the session to the store once a session id is known
+   */
+  private async save(agent: string): Promise<void> {
+    if (!this.key || !this.store || !this.sessionIdValue) return;
+
+    const now = new Date().toISOString();
+    await this.store.set({
+      key: this.key,
+      agent,
+      sessionId: this.sessionIdValue,
+      ...(this.cwdValue !== undefined && { cwd: resolvePath(this.cwdValue) }),
+      turns: this.turnCount,
+      createdAt: this.createdAt ?? now,
+      updatedAt: now,
+    });
+  }
+}
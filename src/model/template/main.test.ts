@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AgentConfigError, AgentExitError } from '../errors.js';
+import { createRecording, type Recording } from '../recording.js';
+import { MAX_ARG_PROMPT_BYTES } from '../transport.js';
+import { TemplateAgent, type TemplateAgentConfig, type TemplateArg } from './main.js';
+
+/**
+ * Prints how the prompt arrived: from `--prompt`, from `--prompt-file` or from stdin
+ */
+const ECHO_SCRIPT = `
+const { readFileSync } = require('node:fs');
+const [flag, value] = process.argv.slice(1);
+const prompt =
+  flag === '--prompt' ? value : readFileSync(flag === '--prompt-file' ? value : 0, 'utf-8');
+process.stdout.write(JSON.stringify({ via: flag ?? 'stdin', prompt }));
+`;
+
+/**
+ * Template agent running the echo script with the given prompt arguments
+ */
+function echoAgent(
+  args: readonly TemplateArg[],
+  config: Partial<TemplateAgentConfig> = {}
+): TemplateAgent {
+  return new TemplateAgent({
+    command: process.execPath,
+    args: ['-e', ECHO_SCRIPT, '--', ...args],
+    ...config,
+  });
+}
+
+/**
+ * Recordings of the output split once inside every multi-byte character
+ */
+function splitInsideCharacters(output: string): Recording[] {
+  const bytes = Buffer.from(output);
+  const recordings: Recording[] = [];
+  for (let offset = 1; offset < bytes.length; offset++) {
+    if (((bytes[offset] ?? 0) & 0xc0) !== 0x80) continue;
+    recordings.push({
+      ...createRecording('tool', {}),
+      chunks: [bytes.subarray(0, offset), bytes.subarray(offset)].map((part) => ({
+        stream: 'stdout' as const,
+        offsetMs: 0,
+        data: part.toString('base64'),
+      })),
+    });
+  }
+  return recordings;
+}
+
+async function echo(
+  agent: TemplateAgent,
+  prompt: string
+): Promise<{ via: string; prompt: string }> {
+  return JSON.parse(await agent.execute(prompt)) as { via: string; prompt: string };
+}
+
+describe('TemplateAgent prompt transports', () => {
+  it('passes the prompt as an argument for a {prompt} template', async () => {
+    const agent = echoAgent([['--prompt', '{prompt}']]);
+
+    assert.deepEqual(await echo(agent, 'hello'), { via: '--prompt', prompt: 'hello' });
+  });
+
+  it('passes the prompt in a file for a {promptFile}-only template', async () => {
+    const agent = echoAgent([['--prompt-file', '{promptFile}']]);
+
+    assert.deepEqual(await echo(agent, 'hello'), { via: '--prompt-file', prompt: 'hello' });
+  });
+
+  it('pipes the prompt to stdin for a template without placeholders', async () => {
+    const agent = echoAgent([]);
+
+    assert.deepEqual(await echo(agent, 'hello'), { via: 'stdin', prompt: 'hello' });
+  });
+
+  it('falls back from {prompt} to {promptFile} for a prompt larger than ARG_MAX', async () => {
+    const agent = echoAgent([
+      ['--prompt', '{prompt}'],
+      ['--prompt-file', '{promptFile}'],
+    ]);
+    const prompt = 'x'.repeat(MAX_ARG_PROMPT_BYTES + 1);
+
+    assert.deepEqual(await echo(agent, prompt), { via: '--prompt-file', prompt });
+  });
+
+  it('rejects a transport whose placeholder the template lacks', () => {
+    assert.throws(
+      () => echoAgent([['--prompt-file', '{promptFile}']], { promptTransport: 'arg' }),
+      AgentConfigError
+    );
+    assert.throws(() => echoAgent([], { promptTransport: 'file' }), AgentConfigError);
+    assert.throws(
+      () => echoAgent([['--prompt', '{prompt}']], { promptTransports: ['arg', 'file'] }),
+      AgentConfigError
+    );
+  });
+
+  it('accepts stdin for any template', async () => {
+    const agent = echoAgent([['--prompt', '{prompt}']], { promptTransport: 'stdin' });
+
+    assert.deepEqual(await echo(agent, 'hello'), { via: 'stdin', prompt: 'hello' });
+  });
+});
+
+describe('TemplateAgent output parsing', () => {
+  const answer = 'Übersetzt: „Grüße“ → こんにちは 🚀';
+  const outputs: [TemplateAgentConfig['output'], string][] = [
+    [{ mode: 'text' }, `${answer}\n`],
+    [{ mode: 'last-block' }, `Working…\n\n${answer}\n`],
+    [
+      { mode: 'ndjson', resultPath: '$.result', textPath: '$.delta' },
+      `${JSON.stringify({ delta: 'こん' })}\n${JSON.stringify({ result: answer })}\n`,
+    ],
+  ];
+
+  for (const [output, stdout] of outputs) {
+    it(`keeps characters split across chunks intact in ${output?.mode} mode`, async () => {
+      for (const recording of splitInsideCharacters(stdout)) {
+        const agent = new TemplateAgent({
+          command: 'tool',
+          ...(output && { output }),
+          replayFrom: recording,
+        });
+        assert.equal(await agent.execute('prompt'), answer);
+      }
+    });
+  }
+
+  it('fails a run killed by an outside signal instead of returning partial output', async () => {
+    const agent = new TemplateAgent({
+      command: 'tool',
+      replayFrom: {
+        ...createRecording('tool', { stdout: ['Partial answer\n'] }),
+        exitCode: null,
+        signal: 'SIGKILL',
+      },
+    });
+
+    const error = await agent.execute('prompt').catch((e: unknown) => e);
+    assert.ok(error instanceof AgentExitError);
+    assert.equal(error.exitCode, null);
+    assert.match(error.message, /killed by a signal/);
+  });
+});
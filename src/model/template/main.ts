@@ -0,0 +1,541 @@
+import { readFile } from 'node:fs/promises';
+import { StringDecoder } from 'node:string_decoder';
+import { CLIAgent, type CLIAgentConfig, type ExecutionContext } from '../agent.js';
+import { AgentConfigError, AgentParseError } from '../errors.js';
+import type { PromptDelivery, PromptTransport } from '../transport.js';
+
+/**
+ * Argument template entry
+ *
+ * Strings may contain the `{prompt}` and `{promptFile}` placeholders. `{prompt}`
+ * is only filled for the `arg` transport and `{promptFile}` only for `file`;
+ * entries whose placeholders cannot be filled are dropped. A nested array is
+ * kept or dropped as a whole, so a flag and its value stay together:
+ *
+ * ```json
+ * ["run", "--quiet", ["--prompt", "{prompt}"], ["--prompt-file", "{promptFile}"]]
+ * ```
+ */
+export type TemplateArg = string | readonly string[];
+
+/**
+ * How the CLI's stdout is turned into a result
+ *
+ * - `text`: the whole output, without noise lines
+ * - `ndjson`: one JSON object per line; the result is read from `resultPath`
+ *   (e.g., `$.result` or `$.message.content[0].text`) of the last line that has it
+ * - `last-block`: the last paragraph of the output, for CLIs that echo their
+ *   progress before the answer
+ */
+export type TemplateOutput =
+  | { readonly mode: 'text' }
+  | {
+      readonly mode: 'ndjson';
+      readonly resultPath: string;
+      /** Path of incremental text, emitted as text_delta events */
+      readonly textPath?: string;
+      /** Path of an error message; a line that has it fails the execution */
+      readonly errorPath?: string;
+    }
+  | { readonly mode: 'last-block' };
+
+/**
+ * Declarative description of a CLI backend, loadable from JSON
+ */
+export type TemplateDefinition = {
+  /** Name used in logs and errors; defaults to the command */
+  readonly name?: string;
+  readonly command: string;
+  readonly args?: readonly TemplateArg[];
+  readonly output?: TemplateOutput;
+  /** Regular expressions; matching stdout lines are dropped from text results */
+  readonly noiseFilters?: readonly string[];
+  /** Variables the CLI needs even when the environment is restricted */
+  readonly requiredEnv?: readonly string[];
+  /** Transports the CLI accepts; derived from the placeholders when omitted */
+  readonly promptTransports?: readonly PromptTransport[];
+};
+
+/**
+ * Configuration options for TemplateAgent execution
+ */
+export type TemplateAgentConfig = CLIAgentConfig & TemplateDefinition;
+
+/**
+ * Per-execution output buffers of a TemplateAgent
+ */
+type TemplateRunState = {
+  outputBuffer: string;
+  pendingLine: string;
+  /** Keeps multi-byte characters split across chunks together */
+  textDecoder: StringDecoder;
+  result: string | null;
+  error: string;
+};
+
+/**
+ * Segment of a parsed JSON path
+ */
+type JsonPathSegment = string | number;
+
+const PROMPT_PLACEHOLDER = '{prompt}';
+const PROMPT_FILE_PLACEHOLDER = '{promptFile}';
+
+/**
+ * Generic CLI agent driven by a declarative template instead of a subclass
+ *
+ * @example
+ * ```typescript
+ * const agent = await TemplateAgent.fromFile('agents/internal-coder.json');
+ * const result = await agent.execute("Create a hello world function");
+ * console.log(result);
+ * ```
+ */
+export class TemplateAgent extends CLIAgent<TemplateRunState> {
+  private readonly name: string;
+  private readonly command: string;
+  private readonly args: readonly TemplateArg[];
+  private readonly output: TemplateOutput;
+  private readonly noiseFilters: readonly RegExp[];
+  private readonly requiredEnv: readonly string[];
+  private readonly promptTransports: readonly PromptTransport[];
+  private readonly resultPath: readonly JsonPathSegment[] = [];
+  private readonly textPath: readonly JsonPathSegment[] | null = null;
+  private readonly errorPath: readonly JsonPathSegment[] | null = null;
+
+  /**
+   * Creates a new TemplateAgent instance
+   *
+   * @param config - Template and configuration options
+   * @throws AgentConfigError if the template is invalid
+   */
+  constructor(config: TemplateAgentConfig) {
+    const name = config.name ?? config.command;
+    const args = config.args ?? [];
+    const promptTransports = config.promptTransports ?? defaultPromptTransports(args);
+    // The first derived transport is the one the placeholders ask for
+    const promptTransport = config.promptTransport ?? promptTransports[0] ?? 'stdin';
+    super(name, { ...config, promptTransport });
+
+    if (typeof config.command !== 'string' || !config.command.trim()) {
+      throw new AgentConfigError(name, 'Template agent requires a command');
+    }
+
+    for (const transport of new Set([promptTransport, ...promptTransports])) {
+      const placeholder = placeholderOf(transport);
+      if (placeholder && !args.flat().some((arg) => arg.includes(placeholder))) {
+        throw new AgentConfigError(
+          name,
+          `Prompt transport '${transport}' requires a ${placeholder} placeholder in the template args`
+        );
+      }
+    }
+
+    this.name = name;
+    this.command = config.command;
+    this.args = args;
+    this.output = config.output ?? { mode: 'text' };
+    this.requiredEnv = config.requiredEnv ?? [];
+    this.promptTransports = promptTransports;
+    this.noiseFilters = (config.noiseFilters ?? []).map((source) => {
+      try {
+        return new RegExp(source);
+      } catch (error) {
+        throw new AgentConfigError(name, `Invalid noise filter '${source}'`, { cause: error });
+      }
+    });
+
+    switch (this.output.mode) {
+      case 'text':
+      case 'last-block':
+        break;
+      case 'ndjson':
+        this.resultPath = parseJsonPath(name, this.output.resultPath);
+        this.textPath = this.output.textPath ? parseJsonPath(name, this.output.textPath) : null;
+        this.errorPath = this.output.errorPath ? parseJsonPath(name, this.output.errorPath) : null;
+        break;
+      default:
+        throw new AgentConfigError(
+          name,
+          `Unknown output mode '${(this.output as { mode: unknown }).mode}'`
+        );
+    }
+  }
+
+  /**
+   * Creates an agent from a JSON template file
+   *
+   * @param path - Path of the JSON file
+   * @param overrides - Options applied over the file's contents
+   * @returns New agent instance
+   */
+  static async fromFile(
+    path: string,
+    overrides: Partial<TemplateAgentConfig> = {}
+  ): Promise<TemplateAgent> {
+    const contents = await readFile(path, 'utf-8');
+    let template: TemplateAgentConfig;
+    try {
+      template = JSON.parse(contents) as TemplateAgentConfig;
+    } catch (error) {
+      throw new AgentConfigError(path, `Template ${path} is not valid JSON`, { cause: error });
+    }
+    return new TemplateAgent({ ...template, ...overrides });
+  }
+
+  /**
+   * Returns the command name to execute
+   */
+  protected getCommandName(): string {
+    return this.command;
+  }
+
+  /**
+   * Returns the agent name for logging
+   */
+  protected getAgentName(): string {
+    return this.name;
+  }
+
+  /**
+   * Returns the transports declared by, or derived from, the template
+   */
+  protected override getSupportedPromptTransports(): readonly PromptTransport[] {
+    return this.promptTransports;
+  }
+
+  /**
+   * Returns the variables listed in the template's `requiredEnv`
+   */
+  protected override getRequiredEnvironment(): readonly string[] {
+    return this.requiredEnv;
+  }
+
+  /**
+   * Expands the argument template for a prompt delivery
+   *
+   * @param delivery - How the prompt is delivered
+   * @returns Array of command line arguments
+   */
+  protected buildCommandArgs(delivery: PromptDelivery): string[] {
+    const values: Record<string, string | undefined> = {
+      [PROMPT_PLACEHOLDER]: delivery.transport === 'arg' ? delivery.prompt : undefined,
+      [PROMPT_FILE_PLACEHOLDER]: delivery.transport === 'file' ? delivery.path : undefined,
+    };
+
+    const args: string[] = [];
+    for (const entry of this.args) {
+      const group = typeof entry === 'string' ? [entry] : entry;
+      const expanded = group.map((arg) => expandPlaceholders(arg, values));
+      if (expanded.every((arg) => arg !== null)) {
+        args.push(...(expanded as string[]));
+      }
+    }
+
+    // Add any additional arguments
+    args.push(...this.config.additionalArgs);
+
+    return args;
+  }
+
+  /**
+   * Creates the per-execution output buffers
+   */
+  protected createRunState(): TemplateRunState {
+    return {
+      outputBuffer: '',
+      pendingLine: '',
+      textDecoder: new StringDecoder('utf8'),
+      result: null,
+      error: '',
+    };
+  }
+
+  /**
+   * Handles stdout data from the CLI process
+   *
+   * @param context - Execution context the data belongs to
+   * @param data - Raw stdout data
+   */
+  protected handleStdoutData(context: ExecutionContext<TemplateRunState>, data: Buffer): void {
+    const output = context.state.textDecoder.write(data);
+    this.log.debug('Received stdout data', {
+      executionId: context.id,
+      dataLength: output.length,
+      content: output,
+    });
+
+    const lines = (context.state.pendingLine + output).split('\n');
+    context.state.pendingLine = lines.pop() ?? '';
+
+    for (const line of lines) {
+      this.handleLine(context, line);
+    }
+  }
+
+  /**
+   * Handles stderr data from the CLI process
+   *
+   * @param context - Execution context the data belongs to
+   * @param data - Raw stderr data
+   */
+  protected handleStderrData(context: ExecutionContext<TemplateRunState>, data: Buffer): void {
+    this.log.debug('Received stderr data', {
+      executionId: context.id,
+      content: data.toString().trim(),
+    });
+  }
+
+  /**
+   * Handles process exit
+   *
+   * @param context - Execution context of the finished run
+   * @param code - Exit code
+   * @param resolve - Promise resolve function
+   * @param reject - Promise reject function
+   */
+  protected handleProcessExit(
+    context: ExecutionContext<TemplateRunState>,
+    code: number | null,
+    resolve: (result: string) => void,
+    reject: (error: Error) => void
+  ): void {
+    const { state } = context;
+    state.pendingLine += state.textDecoder.end();
+
+    // Process a trailing line that was not newline-terminated
+    if (state.pendingLine) {
+      this.handleLine(context, state.pendingLine);
+      state.pendingLine = '';
+    }
+
+    // Null when an outside signal killed the CLI; cancellations and timeouts never get here
+    const exitCode = code;
+    const result = this.extractResult(state);
+
+    this.log.debug('Process exited', {
+      executionId: context.id,
+      exitCode,
+      resultLength: result?.length ?? 0,
+    });
+
+    if (exitCode === 0 && result === null && !state.error) {
+      const error = new AgentParseError(
+        this.name,
+        `${this.name} output has no value at ${this.describeOutput()}`,
+        state.outputBuffer
+      );
+      this.log.error('Template agent execution failed', {
+        prompt: context.prompt,
+        error: error.message,
+      });
+      reject(error);
+    } else if (exitCode === 0 && !state.error) {
+      const text = result ?? '';
+      this.log.info('Template agent execution completed successfully', {
+        prompt: context.prompt,
+        resultLength: text.length,
+      });
+      this.emit(context, { type: 'result', text, isError: false });
+      resolve(text);
+    } else {
+      const error = this.createExitError(context, exitCode, state.error);
+      this.log.error('Template agent execution failed', {
+        prompt: context.prompt,
+        exitCode,
+        error: error.message,
+      });
+      reject(error);
+    }
+  }
+
+  /**
+   * Processes one complete line of stdout according to the output mode
+   *
+   * @param context - Execution context the line belongs to
+   * @param line - One line of stdout
+   */
+  private handleLine(context: ExecutionContext<TemplateRunState>, line: string): void {
+    const { state } = context;
+
+    if (this.output.mode !== 'ndjson') {
+      if (this.isNoiseLine(line)) return;
+      state.outputBuffer += `${line}\n`;
+      if (line.trim()) {
+        this.emit(context, { type: 'text_delta', text: `${line}\n` });
+      }
+      return;
+    }
+
+    state.outputBuffer += `${line}\n`;
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(trimmed);
+    } catch (error) {
+      this.log.trace('Failed to parse template agent output', {
+        data: trimmed.substring(0, 100),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    const text = this.textPath ? readJsonPath(value, this.textPath) : undefined;
+    if (typeof text === 'string' && text) {
+      this.emit(context, { type: 'text_delta', text });
+    }
+
+    const result = readJsonPath(value, this.resultPath);
+    if (result !== undefined && result !== null) {
+      state.result = typeof result === 'string' ? result : JSON.stringify(result);
+    }
+
+    const error = this.errorPath ? readJsonPath(value, this.errorPath) : undefined;
+    if (error !== undefined && error !== null && error !== false) {
+      state.error = typeof error === 'string' ? error : JSON.stringify(error);
+      this.log.error('Template agent reported an error', { message: state.error });
+    }
+  }
+
+  /**
+   * Extracts the result from the collected output
+   *
+   * @param state - Output buffers of the finished run
+   * @returns The result, or null if an NDJSON stream never contained one
+   */
+  private extractResult(state: TemplateRunState): string | null {
+    switch (this.output.mode) {
+      case 'ndjson':
+        return state.result;
+      case 'last-block': {
+        const blocks = state.outputBuffer
+          .split(/\n\s*\n/)
+          .map((block) => block.trim())
+          .filter(Boolean);
+        return blocks[blocks.length - 1] ?? '';
+      }
+      default:
+        return state.outputBuffer
+          .split('\n')
+          .filter((line) => line.trim())
+          .join('\n')
+          .trim();
+    }
+  }
+
+  /**
+   * Checks whether a stdout line matches one of the template's noise filters
+   *
+   * @param line - Single line of CLI output
+   * @returns True if the line is not part of the answer
+   */
+  private isNoiseLine(line: string): boolean {
+    return this.noiseFilters.some((filter) => filter.test(line));
+  }
+
+  /**
+   * Describes where the result is read from, for error messages
+   */
+  private describeOutput(): string {
+    return this.output.mode === 'ndjson' ? this.output.resultPath : this.output.mode;
+  }
+}
+
+/**
+ * Derives the supported transports from the placeholders used in an argument template,
+ * most preferred first: `{prompt}` → arg, `{promptFile}` → file, then stdin
+ */
+function defaultPromptTransports(args: readonly TemplateArg[]): PromptTransport[] {
+  const flat = args.flat();
+  const transports: PromptTransport[] = [];
+  if (flat.some((arg) => arg.includes(PROMPT_PLACEHOLDER))) {
+    transports.push('arg');
+  }
+  if (flat.some((arg) => arg.includes(PROMPT_FILE_PLACEHOLDER))) {
+    transports.push('file');
+  }
+  transports.push('stdin');
+  return transports;
+}
+
+/**
+ * Returns the placeholder through which a transport hands the prompt to the CLI
+ *
+ * @param transport - Prompt transport
+ * @returns The placeholder, or null for stdin
+ */
+function placeholderOf(transport: PromptTransport): string | null {
+  switch (transport) {
+    case 'arg':
+      return PROMPT_PLACEHOLDER;
+    case 'file':
+      return PROMPT_FILE_PLACEHOLDER;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Replaces placeholders in a template argument
+ *
+ * @param arg - Template argument
+ * @param values - Placeholder values; undefined for placeholders that cannot be filled
+ * @returns The expanded argument, or null if it uses a placeholder without value
+ */
+function expandPlaceholders(
+  arg: string,
+  values: Record<string, string | undefined>
+): string | null {
+  let expanded = arg;
+  for (const [placeholder, value] of Object.entries(values)) {
+    if (!arg.includes(placeholder)) continue;
+    if (value === undefined) return null;
+    expanded = expanded.split(placeholder).join(value);
+  }
+  return expanded;
+}
+
+/**
+ * Parses a JSONPath subset: `$`, `.key`, `["key"]` and `[index]`
+ *
+ * @param agent - Agent name for error messages
+ * @param path - Path such as `$.message.content[0].text`
+ * @throws AgentConfigError if the path uses unsupported syntax
+ */
+function parseJsonPath(agent: string, path: string): JsonPathSegment[] {
+  const pattern = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[(["'])(.*?)\3\]/y;
+  const segments: JsonPathSegment[] = [];
+  // Allow the bare `result.text` form
+  const normalized = /^[$.[]/.test(path) ? path : `.${path}`;
+  let position = normalized.startsWith('$') ? 1 : 0;
+
+  while (position < normalized.length) {
+    pattern.lastIndex = position;
+    const match = pattern.exec(normalized);
+    if (!match) {
+      throw new AgentConfigError(agent, `Unsupported JSON path '${path}' at position ${position}`);
+    }
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else segments.push(match[4] ?? '');
+    position = pattern.lastIndex;
+  }
+
+  return segments;
+}
+
+/**
+ * Reads the value at a parsed JSON path
+ *
+ * @returns The value, or undefined if the path does not exist
+ */
+function readJsonPath(value: unknown, path: readonly JsonPathSegment[]): unknown {
+  let current = value;
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
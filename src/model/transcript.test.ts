@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ClaudeCode } from './claude/main.js';
+import { createRecording } from './recording.js';
+import type { ExecutionResult } from './result.js';
+import { formatTranscriptJson, formatTranscriptMarkdown } from './transcript.js';
+
+/**
+ * Runs a recorded Claude session that calls two tools whose results arrive in reverse order
+ */
+async function runWithTools(): Promise<ExecutionResult> {
+  const events = [
+    { type: 'system', subtype: 'init', session_id: 'session-1', model: 'claude-test', cwd: '/w' },
+    {
+      type: 'assistant',
+      message: {
+        content: [
+          { type: 'text', text: 'Reading both files.' },
+          { type: 'tool_use', id: 'tool-1', name: 'Read', input: { path: 'a.ts' } },
+          { type: 'tool_use', id: 'tool-2', name: 'Read', input: { path: 'b.ts' } },
+        ],
+      },
+    },
+    {
+      type: 'user',
+      message: {
+        content: [{ type: 'tool_result', tool_use_id: 'tool-2', content: 'const b = "```";' }],
+      },
+    },
+    {
+      type: 'user',
+      message: {
+        content: [
+          { type: 'tool_result', tool_use_id: 'tool-1', content: 'missing', is_error: true },
+        ],
+      },
+    },
+    {
+      type: 'result',
+      subtype: 'success',
+      is_error: false,
+      result: 'b.ts exists, a.ts does not.',
+      session_id: 'session-1',
+      total_cost_usd: 0.0123,
+    },
+  ];
+  const claude = new ClaudeCode({
+    replayFrom: createRecording('Claude Code', {
+      stdout: events.map((event) => `${JSON.stringify(event)}\n`),
+    }),
+  });
+  return claude.executeDetailed('Read a.ts and b.ts');
+}
+
+describe('transcript', () => {
+  it('matches tool results to their calls by tool_use_id', async () => {
+    const result = await runWithTools();
+
+    assert.deepEqual(
+      result.toolCalls.map((call) => [call.id, call.output, call.isError ?? false]),
+      [
+        ['tool-1', 'missing', true],
+        ['tool-2', 'const b = "```";', false],
+      ]
+    );
+    assert.ok(result.toolCalls.every((call) => call.completed));
+  });
+
+  it('exports the transcript as JSON with ISO timestamps', async () => {
+    const result = await runWithTools();
+    const document = JSON.parse(formatTranscriptJson(result, { prompt: 'Read a.ts and b.ts' }));
+
+    assert.equal(document.prompt, 'Read a.ts and b.ts');
+    assert.equal(document.sessionId, 'session-1');
+    assert.equal(document.costUsd, 0.0123);
+    assert.equal(document.result, 'b.ts exists, a.ts does not.');
+    assert.deepEqual(
+      document.entries.map((entry: { type: string }) => entry.type),
+      ['text', 'tool', 'tool']
+    );
+    const [text, first] = document.entries;
+    assert.match(text.at, /^\d{4}-\d{2}-\d{2}T/);
+    assert.equal(first.id, 'tool-1');
+    assert.deepEqual(first.input, { path: 'a.ts' });
+    assert.equal(first.isError, true);
+    assert.match(first.finishedAt, /^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  it('renders the transcript as Markdown with safe fences and truncated values', async () => {
+    const result = await runWithTools();
+    const markdown = formatTranscriptMarkdown(result, { prompt: 'Read a.ts', maxValueLength: 14 });
+
+    assert.match(markdown, /^# Claude Code transcript\n/);
+    assert.match(markdown, /- Session: `session-1`/);
+    assert.match(markdown, /- Cost: \$0\.0123/);
+    assert.match(markdown, /## Prompt\n\nRead a\.ts\n/);
+    assert.match(markdown, /### 1\. `Read` \(error, \d+ ms\)/);
+    assert.match(markdown, /### 2\. `Read` \(ok, \d+ ms\)/);
+    // The output contains a backtick run, so its fence is longer
+    assert.match(markdown, /````\nconst b = "```\n… \(2 more characters\)\n````/);
+    assert.match(markdown, /## Result\n\nb\.ts exists, a\.ts does not\.\n$/);
+  });
+});
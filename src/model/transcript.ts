@@ -0,0 +1,140 @@
+import type { ExecutionResult, ToolInvocation } from './result.js';
+
+/**
+ * Options for exporting a transcript
+ */
+export type TranscriptExportOptions = {
+  /** Prompt of the execution, which the result itself does not contain */
+  readonly prompt?: string;
+  /** Longest tool input/output kept in Markdown; longer values are truncated */
+  readonly maxValueLength?: number;
+};
+
+const DEFAULT_MAX_VALUE_LENGTH = 4000;
+
+/**
+ * Serializes the transcript of an execution as JSON, with ISO timestamps
+ *
+ * @param result - Detailed execution result
+ * @param options - Export options
+ * @returns Pretty-printed JSON document
+ */
+export function formatTranscriptJson(
+  result: ExecutionResult,
+  options: TranscriptExportOptions = {}
+): string {
+  const document = {
+    agent: result.agent,
+    executionId: result.executionId,
+    ...(options.prompt !== undefined && { prompt: options.prompt }),
+    ...(result.model && { model: result.model }),
+    ...(result.sessionId && { sessionId: result.sessionId }),
+    ...(result.cwd && { cwd: result.cwd }),
+    isError: result.isError,
+    exitCode: result.exitCode,
+    wallTimeMs: result.wallTimeMs,
+    ...(result.costUsd !== undefined && { costUsd: result.costUsd }),
+    ...(result.usage && { usage: result.usage }),
+    entries: result.transcript.map((entry) =>
+      entry.type === 'text'
+        ? { type: 'text', at: new Date(entry.timestamp).toISOString(), text: entry.text }
+        : { type: 'tool', ...serializeToolCall(entry.call) }
+    ),
+    result: result.text,
+    ...(result.changedFiles && { changedFiles: result.changedFiles }),
+  };
+
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/**
+ * Renders the transcript of an execution as Markdown for review
+ *
+ * @param result - Detailed execution result
+ * @param options - Export options
+ * @returns Markdown document
+ */
+export function formatTranscriptMarkdown(
+  result: ExecutionResult,
+  options: TranscriptExportOptions = {}
+): string {
+  const maxLength = options.maxValueLength ?? DEFAULT_MAX_VALUE_LENGTH;
+  const lines: string[] = [`# ${result.agent} transcript`, ''];
+
+  lines.push(`- Execution: \`${result.executionId}\``);
+  if (result.model) lines.push(`- Model: ${result.model}`);
+  if (result.sessionId) lines.push(`- Session: \`${result.sessionId}\``);
+  if (result.cwd) lines.push(`- Working directory: \`${result.cwd}\``);
+  lines.push(`- Status: ${result.isError ? 'error' : 'success'} (exit code ${result.exitCode})`);
+  lines.push(`- Wall time: ${result.wallTimeMs} ms`);
+  if (result.costUsd !== undefined) lines.push(`- Cost: $${result.costUsd.toFixed(4)}`);
+  lines.push('');
+
+  if (options.prompt !== undefined) {
+    lines.push('## Prompt', '', options.prompt, '');
+  }
+
+  lines.push('## Activity', '');
+  let toolNumber = 0;
+  for (const entry of result.transcript) {
+    if (entry.type === 'text') {
+      lines.push(entry.text.trim(), '');
+      continue;
+    }
+
+    const { call } = entry;
+    toolNumber++;
+    const status = !call.completed ? 'no result' : call.isError ? 'error' : 'ok';
+    const timing = call.durationMs !== undefined ? `, ${call.durationMs} ms` : '';
+    lines.push(`### ${toolNumber}. \`${call.name}\` (${status}${timing})`, '');
+    if (call.input !== undefined) {
+      lines.push('Input:', '', fence(formatValue(call.input, maxLength)), '');
+    }
+    if (call.output !== undefined) {
+      lines.push('Output:', '', fence(formatValue(call.output, maxLength)), '');
+    }
+  }
+
+  if (result.changedFiles && result.changedFiles.length > 0) {
+    lines.push('## Changed files', '', ...result.changedFiles.map((file) => `- \`${file}\``), '');
+  }
+
+  lines.push('## Result', '', result.text || '_(empty)_', '');
+  return lines.join('\n');
+}
+
+/**
+ * Converts a tool call to its JSON export form
+ */
+function serializeToolCall(call: ToolInvocation): Record<string, unknown> {
+  return {
+    ...(call.id && { id: call.id }),
+    name: call.name,
+    ...(call.input !== undefined && { input: call.input }),
+    ...(call.output !== undefined && { output: call.output }),
+    isError: call.isError ?? false,
+    completed: call.completed,
+    startedAt: new Date(call.startedAt).toISOString(),
+    ...(call.finishedAt !== undefined && { finishedAt: new Date(call.finishedAt).toISOString() }),
+    ...(call.durationMs !== undefined && { durationMs: call.durationMs }),
+  };
+}
+
+/**
+ * Formats a tool input or output for display, truncating long values
+ */
+function formatValue(value: unknown, maxLength: number): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  return text.length > maxLength
+    ? `${text.slice(0, maxLength)}\n… (${text.length - maxLength} more characters)`
+    : text;
+}
+
+/**
+ * Wraps text in a code fence that is longer than any backtick run inside it
+ */
+function fence(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${marker}\n${text}\n${marker}`;
+}
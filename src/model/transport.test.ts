@@ -0,0 +1,186 @@
+import assert from 'node:assert/strict';
+import { readFile, stat } from 'node:fs/promises';
+import { describe, it } from 'node:test';
+import { CLIAgent, type CLIAgentConfig, type ExecutionContext } from './agent.js';
+import { AgentConfigError } from './errors.js';
+import {
+  MAX_ARG_PROMPT_BYTES,
+  type PromptDelivery,
+  type PromptTransport,
+  preparePrompt,
+} from './transport.js';
+
+/**
+ * Prints the prompt it received, and how, as JSON
+ */
+const ECHO_SCRIPT = `
+const { readFileSync } = require('node:fs');
+const [transport, value] = process.argv.slice(1);
+const prompt =
+  transport === 'arg' ? value : readFileSync(transport === 'file' ? value : 0, 'utf-8');
+process.stdout.write(JSON.stringify({ transport, prompt }));
+`;
+
+type EchoReport = { transport: PromptTransport; prompt: string };
+
+/**
+ * Agent running a Node.js script that echoes the delivered prompt
+ */
+class EchoAgent extends CLIAgent<{ output: Buffer[] }> {
+  private readonly transports: readonly PromptTransport[];
+
+  constructor(config: CLIAgentConfig, transports: readonly PromptTransport[] = ['arg', 'stdin']) {
+    super('EchoAgent', config);
+    this.transports = transports;
+  }
+
+  protected getCommandName(): string {
+    return process.execPath;
+  }
+
+  protected getAgentName(): string {
+    return 'Echo';
+  }
+
+  protected override getSupportedPromptTransports(): readonly PromptTransport[] {
+    return this.transports;
+  }
+
+  protected buildCommandArgs(delivery: PromptDelivery): string[] {
+    const value =
+      delivery.transport === 'arg'
+        ? [delivery.prompt]
+        : delivery.transport === 'file'
+          ? [delivery.path]
+          : [];
+    return ['-e', ECHO_SCRIPT, '--', delivery.transport, ...value];
+  }
+
+  protected createRunState(): { output: Buffer[] } {
+    return { output: [] };
+  }
+
+  protected handleStdoutData(context: ExecutionContext<{ output: Buffer[] }>, data: Buffer): void {
+    context.state.output.push(data);
+  }
+
+  protected handleStderrData(): void {}
+
+  protected handleProcessExit(
+    context: ExecutionContext<{ output: Buffer[] }>,
+    code: number | null,
+    resolve: (result: string) => void,
+    reject: (error: Error) => void
+  ): void {
+    if (code === 0) {
+      resolve(Buffer.concat(context.state.output).toString('utf-8'));
+    } else {
+      reject(this.createExitError(context, code));
+    }
+  }
+
+  async echo(prompt: string): Promise<EchoReport> {
+    return JSON.parse(await this.execute(prompt)) as EchoReport;
+  }
+}
+
+const ADVERSARIAL_PROMPTS: ReadonlyArray<[string, string]> = [
+  ['quotes', `It's a "quoted" 'string' with \\"escapes\\"`],
+  ['backticks', 'Run `rm -rf /` and ```fenced``` code'],
+  ['command substitution', `Expand $(whoami) and \${HOME} and $PATH; echo pwned | sh & wait`],
+  ['newlines', 'line one\nline two\r\nline three\n\n'],
+  ['leading dashes', '--help -v --output-format=text'],
+  ['control characters', 'bell\u0007 escape\u001b[31m tab\t form\u000c'],
+  ['non-ASCII', 'Grüße, 日本語, emoji 🚀 and combining é'],
+];
+
+describe('prompt transports', () => {
+  for (const transport of ['arg', 'stdin', 'file'] as const) {
+    describe(transport, () => {
+      const agent = new EchoAgent({ promptTransport: transport }, ['arg', 'stdin', 'file']);
+
+      for (const [name, prompt] of ADVERSARIAL_PROMPTS) {
+        it(`delivers a prompt with ${name} unchanged`, async () => {
+          assert.deepEqual(await agent.echo(prompt), { transport, prompt });
+        });
+      }
+
+      if (transport !== 'arg') {
+        it('delivers a prompt with NUL characters unchanged', async () => {
+          const prompt = 'before\u0000after\u0000\u0001ÿ';
+          assert.deepEqual(await agent.echo(prompt), { transport, prompt });
+        });
+
+        it('delivers a prompt larger than ARG_MAX', async () => {
+          const prompt = 'x'.repeat(MAX_ARG_PROMPT_BYTES * 3);
+          const report = await agent.echo(prompt);
+          assert.equal(report.transport, transport);
+          assert.equal(report.prompt.length, prompt.length);
+        });
+      }
+    });
+  }
+
+  describe('fallback from arg', () => {
+    it('uses stdin for a prompt larger than ARG_MAX', async () => {
+      const agent = new EchoAgent({ promptTransport: 'arg' }, ['arg', 'stdin']);
+      const prompt = `${'ü'.repeat(MAX_ARG_PROMPT_BYTES)}$(tail)`;
+
+      assert.deepEqual(await agent.echo(prompt), { transport: 'stdin', prompt });
+    });
+
+    it('uses the file transport when the agent does not read stdin', async () => {
+      const agent = new EchoAgent({ promptTransport: 'arg' }, ['arg', 'file']);
+      const prompt = 'y'.repeat(MAX_ARG_PROMPT_BYTES + 1);
+
+      assert.deepEqual(await agent.echo(prompt), { transport: 'file', prompt });
+    });
+
+    it('uses stdin for a prompt with NUL characters', async () => {
+      const agent = new EchoAgent({ promptTransport: 'arg' }, ['arg', 'stdin']);
+      const prompt = 'a\u0000b';
+
+      assert.deepEqual(await agent.echo(prompt), { transport: 'stdin', prompt });
+    });
+
+    it('keeps a prompt of exactly the limit as an argument', async () => {
+      const agent = new EchoAgent({ promptTransport: 'arg' }, ['arg', 'stdin']);
+      const prompt = 'z'.repeat(MAX_ARG_PROMPT_BYTES);
+
+      assert.equal((await agent.echo(prompt)).transport, 'arg');
+    });
+
+    it('fails when the agent only accepts arguments', async () => {
+      const agent = new EchoAgent({ promptTransport: 'arg' }, ['arg']);
+
+      await assert.rejects(agent.echo('w'.repeat(MAX_ARG_PROMPT_BYTES + 1)), AgentConfigError);
+      await assert.rejects(agent.echo('a\u0000b'), AgentConfigError);
+    });
+
+    it('rejects a transport the agent does not support', async () => {
+      const agent = new EchoAgent({ promptTransport: 'file' }, ['arg', 'stdin']);
+
+      await assert.rejects(agent.echo('prompt'), AgentConfigError);
+    });
+  });
+});
+
+describe('preparePrompt', () => {
+  it('writes file prompts to a private temp file and removes it on cleanup', async () => {
+    const prepared = await preparePrompt('secret `$(x)`\n', 'file');
+    assert.equal(prepared.delivery.transport, 'file');
+    const { path } = prepared.delivery as Extract<PromptDelivery, { transport: 'file' }>;
+
+    assert.equal(await readFile(path, 'utf-8'), 'secret `$(x)`\n');
+    assert.equal((await stat(path)).mode & 0o777, 0o600);
+
+    await prepared.cleanup();
+    await prepared.cleanup();
+    await assert.rejects(stat(path), { code: 'ENOENT' });
+  });
+
+  it('pipes stdin only for the stdin transport', async () => {
+    assert.equal((await preparePrompt('p', 'stdin')).openStdin(), 'pipe');
+    assert.equal((await preparePrompt('p', 'arg')).openStdin(), 'ignore');
+  });
+});
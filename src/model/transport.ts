@@ -0,0 +1,93 @@
+import { closeSync, openSync } from 'node:fs';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+/**
+ * How a prompt is handed to the CLI process
+ *
+ * - `arg`: passed as a single argv entry (no shell involved, limited by ARG_MAX)
+ * - `stdin`: written to the child's stdin pipe
+ * - `file`: written to a private temp file that is both attached as the child's
+ *   stdin and exposed by path, for CLIs that take a prompt file argument
+ */
+export type PromptTransport = 'arg' | 'stdin' | 'file';
+
+/**
+ * Prompt delivery handed to `CLIAgent.buildCommandArgs()`
+ */
+export type PromptDelivery =
+  | { readonly transport: 'arg'; readonly prompt: string }
+  | { readonly transport: 'stdin'; readonly prompt: string }
+  | { readonly transport: 'file'; readonly prompt: string; readonly path: string };
+
+/**
+ * Largest prompt (in bytes) that is passed as an argument
+ *
+ * Linux limits a single argv entry to 128 KiB (MAX_ARG_STRLEN); staying below
+ * that leaves room for the rest of the command line and the environment.
+ */
+export const MAX_ARG_PROMPT_BYTES = 100 * 1024;
+
+/**
+ * Prompt delivery together with the resources it holds
+ */
+export type PreparedPrompt = {
+  readonly delivery: PromptDelivery;
+  /**
+   * Returns the value for `stdio[0]` of the spawned process
+   */
+  readonly openStdin: () => 'ignore' | 'pipe' | number;
+  /**
+   * Releases the stdin descriptor once the child has been spawned
+   */
+  readonly closeStdin: () => void;
+  /**
+   * Removes temporary files; safe to call more than once
+   */
+  readonly cleanup: () => Promise<void>;
+};
+
+/**
+ * Prepares a prompt for the given transport, creating a temp file when needed
+ *
+ * @param prompt - The prompt text
+ * @param transport - Transport to use
+ * @returns Prepared delivery and the hooks the spawner needs
+ */
+export async function preparePrompt(
+  prompt: string,
+  transport: PromptTransport
+): Promise<PreparedPrompt> {
+  if (transport !== 'file') {
+    return {
+      delivery: { transport, prompt },
+      openStdin: () => (transport === 'stdin' ? 'pipe' : 'ignore'),
+      closeStdin: () => {},
+      cleanup: async () => {},
+    };
+  }
+
+  const directory = await mkdtemp(join(tmpdir(), 'multicodingagent-'));
+  const path = join(directory, 'prompt.txt');
+  await writeFile(path, prompt, { encoding: 'utf-8', mode: 0o600 });
+
+  let fd: number | null = null;
+
+  return {
+    delivery: { transport, prompt, path },
+    openStdin: () => {
+      fd = openSync(path, 'r');
+      return fd;
+    },
+    closeStdin: () => {
+      if (fd !== null) {
+        closeSync(fd);
+        fd = null;
+      }
+    },
+    cleanup: async () => {
+      await rm(directory, { recursive: true, force: true });
+    },
+  };
+}
@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 
 import { Logger } from 'tslog';
+import { PlanGraph, summarizePlanGraph } from '../subagent/planner/graph.js';
 import { Planner } from '../subagent/planner/main.js';
 
 // Initialize logger
@@ -41,7 +42,7 @@ function getLogLevel(): number {
 async function main(): Promise<void> {
   // Get user prompt from command line arguments
   const args = process.argv.slice(2);
-  
+
   if (args.length === 0) {
     log.error('Error: Please provide a prompt as a command line argument');
     log.error('');
@@ -55,6 +56,13 @@ async function main(): Promise<void> {
 
   const userPrompt = args.join(' ');
 
+  // Agents run in their own process groups, so Ctrl-C has to be forwarded explicitly
+  const abortController = new AbortController();
+  process.once('SIGINT', () => {
+    log.warn('Received SIGINT, aborting running agents');
+    abortController.abort();
+  });
+
   log.info('Starting task planning PoC', {
     userPrompt: userPrompt,
     promptLength: userPrompt.length,
@@ -64,13 +72,14 @@ async function main(): Promise<void> {
     // Initialize planner with extended timeout for complex tasks
     const planner = new Planner({
       timeoutMs: 600000, // 10 minutes
+      idleTimeoutMs: 180000, // 3 minutes without output
       enableStructuredOutput: true,
     });
 
     log.info('Starting planning task', { userPrompt });
 
     const startTime = Date.now();
-    const planningResult = await planner.createPlan(userPrompt);
+    const planningResult = await planner.createPlan(userPrompt, { signal: abortController.signal });
     const duration = Date.now() - startTime;
 
     // Display planning results with comprehensive details
@@ -79,9 +88,13 @@ async function main(): Promise<void> {
       totalSteps: planningResult.totalSteps,
       estimatedDuration: planningResult.estimatedDuration,
       planningTimeSeconds: Math.round(duration / 1000),
-      planningResult: planningResult
+      planningResult: planningResult,
     });
 
+    // Plans are validated by the planner, so the graph can always be built
+    const graph = PlanGraph.fromPlan(planningResult);
+    const rootIds = new Set(graph.roots().map((step) => step.id));
+
     // Log detailed step information
     for (const [index, step] of planningResult.steps.entries()) {
       log.info(`Step ${index + 1}/${planningResult.totalSteps}`, {
@@ -93,41 +106,18 @@ async function main(): Promise<void> {
         estimatedTime: step.estimatedTime,
         dependencies: step.dependencies || [],
         dependencyCount: step.dependencies?.length || 0,
-        canStartImmediately: !step.dependencies || step.dependencies.length === 0
+        dependents: graph.dependentsOf(step.id).map((dependent) => dependent.id),
+        canStartImmediately: rootIds.has(step.id),
       });
     }
-    
+
     // Log summary statistics
-    const kindCounts = planningResult.steps.reduce((acc, step) => {
-      acc[step.kind] = (acc[step.kind] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-    
-    const priorityCounts = planningResult.steps.reduce((acc, step) => {
-      acc[step.priority] = (acc[step.priority] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-    
-    const stepsWithDependencies = planningResult.steps.filter(step => 
-      step.dependencies && step.dependencies.length > 0
-    ).length;
-    
-    const independentSteps = planningResult.totalSteps - stepsWithDependencies;
-    
-    log.info('Planning statistics', {
-      stepsByKind: kindCounts,
-      stepsByPriority: priorityCounts,
-      dependencyAnalysis: {
-        independentSteps,
-        dependentSteps: stepsWithDependencies,
-        dependencyRatio: Math.round((stepsWithDependencies / planningResult.totalSteps) * 100)
-      }
-    });
+    log.info('Planning statistics', summarizePlanGraph(graph));
 
     log.info('Task planning completed successfully', {
       success: true,
       totalSteps: planningResult.totalSteps,
-      duration: duration
+      duration: duration,
     });
 
     log.info('Task planning PoC completed successfully', {
@@ -136,21 +126,20 @@ async function main(): Promise<void> {
       estimatedDuration: planningResult.estimatedDuration,
       planningDuration: duration,
     });
-
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    
+
     log.error('Planning failed', {
       error: errorMessage,
-      userPrompt: userPrompt
+      userPrompt: userPrompt,
     });
-    
+
     log.error('Task planning PoC failed', {
       userPrompt: userPrompt,
       error: errorMessage,
       stack: error instanceof Error ? error.stack : undefined,
     });
-    
+
     process.exit(1);
   }
 }
@@ -161,7 +150,7 @@ main().catch((error) => {
     stack: error instanceof Error ? error.stack : undefined,
   });
   log.fatal('Fatal error occurred', {
-    error: error instanceof Error ? error.message : String(error)
+    error: error instanceof Error ? error.message : String(error),
   });
   process.exit(1);
-});
\ No newline at end of file
+});
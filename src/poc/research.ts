@@ -1,6 +1,8 @@
 #!/usr/bin/env node
 
 import { Logger } from 'tslog';
+import { isAbortError } from '../model/errors.js';
+import { PlanGraph, summarizePlanGraph } from '../subagent/planner/graph.js';
 import { Planner } from '../subagent/planner/main.js';
 import { Researcher } from '../subagent/researcher/main.js';
 
@@ -42,7 +44,7 @@ function getLogLevel(): number {
 async function main(): Promise<void> {
   // Get user prompt from command line arguments
   const args = process.argv.slice(2);
-  
+
   if (args.length === 0) {
     log.error('Error: Please provide a prompt as a command line argument');
     log.error('');
@@ -56,6 +58,13 @@ async function main(): Promise<void> {
 
   const userPrompt = args.join(' ');
 
+  // Agents run in their own process groups, so Ctrl-C has to be forwarded explicitly
+  const abortController = new AbortController();
+  process.once('SIGINT', () => {
+    log.warn('Received SIGINT, aborting running agents');
+    abortController.abort();
+  });
+
   log.info('Starting research workflow PoC', {
     userPrompt: userPrompt,
     promptLength: userPrompt.length,
@@ -65,13 +74,14 @@ async function main(): Promise<void> {
     // Initialize planner with extended timeout for complex tasks
     const planner = new Planner({
       timeoutMs: 600000, // 10 minutes
+      idleTimeoutMs: 180000, // 3 minutes without output
       enableStructuredOutput: true,
     });
 
     log.info('Starting planning task', { userPrompt });
 
     const startTime = Date.now();
-    const planningResult = await planner.createPlan(userPrompt);
+    const planningResult = await planner.createPlan(userPrompt, { signal: abortController.signal });
     const duration = Date.now() - startTime;
 
     // Display planning results with comprehensive details
@@ -80,7 +90,7 @@ async function main(): Promise<void> {
       totalSteps: planningResult.totalSteps,
       estimatedDuration: planningResult.estimatedDuration,
       planningTimeSeconds: Math.round(duration / 1000),
-      planningResult: planningResult
+      planningResult: planningResult,
     });
 
     // Check if first task is web_research and execute it
@@ -97,19 +107,23 @@ async function main(): Promise<void> {
         // Initialize researcher with appropriate timeout
         const researcher = new Researcher({
           timeoutMs: 600000, // 10 minutes
+          idleTimeoutMs: 180000, // 3 minutes without output
           maxDepth: 3,
           includeSources: true,
         });
 
         const researchStartTime = Date.now();
-        
+
         // Execute research task
-        const researchResult = await researcher.investigate({
-          query: firstTask.description,
-          scope: firstTask.priority === 'high' ? 'comprehensive' : 'detailed',
-          focus: [], // Could be extracted from task context
-          constraints: [], // Could be extracted from task constraints
-        });
+        const researchResult = await researcher.investigate(
+          {
+            query: firstTask.description,
+            scope: firstTask.priority === 'high' ? 'comprehensive' : 'detailed',
+            focus: [], // Could be extracted from task context
+            constraints: [], // Could be extracted from task constraints
+          },
+          { signal: abortController.signal }
+        );
 
         const researchDuration = Date.now() - researchStartTime;
 
@@ -150,26 +164,33 @@ async function main(): Promise<void> {
         }
 
         // Log research statistics
-        const categoryDistribution = researchResult.findings.reduce((acc, finding) => {
-          acc[finding.category] = (acc[finding.category] || 0) + 1;
-          return acc;
-        }, {} as Record<string, number>);
+        const categoryDistribution = researchResult.findings.reduce(
+          (acc, finding) => {
+            acc[finding.category] = (acc[finding.category] || 0) + 1;
+            return acc;
+          },
+          {} as Record<string, number>
+        );
 
         log.info('Research statistics', {
           findingsByCategory: categoryDistribution,
           averageImplicationsPerFinding: Math.round(
-            researchResult.findings.reduce((sum, f) => sum + f.implications.length, 0) / 
-            Math.max(researchResult.totalFindings, 1)
+            researchResult.findings.reduce((sum, f) => sum + f.implications.length, 0) /
+              Math.max(researchResult.totalFindings, 1)
           ),
           averageSourcesPerFinding: Math.round(
-            researchResult.findings.reduce((sum, f) => sum + f.sources.length, 0) / 
-            Math.max(researchResult.totalFindings, 1)
+            researchResult.findings.reduce((sum, f) => sum + f.sources.length, 0) /
+              Math.max(researchResult.totalFindings, 1)
           ),
         });
-
       } catch (researchError) {
-        const researchErrorMessage = researchError instanceof Error ? researchError.message : String(researchError);
-        
+        if (isAbortError(researchError)) {
+          throw researchError;
+        }
+
+        const researchErrorMessage =
+          researchError instanceof Error ? researchError.message : String(researchError);
+
         log.error('Research task execution failed', {
           taskId: firstTask.id,
           taskDescription: firstTask.description,
@@ -187,6 +208,9 @@ async function main(): Promise<void> {
       });
     }
 
+    const graph = PlanGraph.fromPlan(planningResult);
+    const rootIds = new Set(graph.roots().map((step) => step.id));
+
     // Log detailed step information
     for (const [index, step] of planningResult.steps.entries()) {
       log.info(`Step ${index + 1}/${planningResult.totalSteps}`, {
@@ -198,37 +222,14 @@ async function main(): Promise<void> {
         estimatedTime: step.estimatedTime,
         dependencies: step.dependencies || [],
         dependencyCount: step.dependencies?.length || 0,
-        canStartImmediately: !step.dependencies || step.dependencies.length === 0,
+        dependents: graph.dependentsOf(step.id).map((dependent) => dependent.id),
+        canStartImmediately: rootIds.has(step.id),
         wasExecuted: index === 0 && step.kind === 'web_research',
       });
     }
-    
+
     // Log summary statistics
-    const kindCounts = planningResult.steps.reduce((acc, step) => {
-      acc[step.kind] = (acc[step.kind] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-    
-    const priorityCounts = planningResult.steps.reduce((acc, step) => {
-      acc[step.priority] = (acc[step.priority] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-    
-    const stepsWithDependencies = planningResult.steps.filter(step => 
-      step.dependencies && step.dependencies.length > 0
-    ).length;
-    
-    const independentSteps = planningResult.totalSteps - stepsWithDependencies;
-    
-    log.info('Planning statistics', {
-      stepsByKind: kindCounts,
-      stepsByPriority: priorityCounts,
-      dependencyAnalysis: {
-        independentSteps,
-        dependentSteps: stepsWithDependencies,
-        dependencyRatio: Math.round((stepsWithDependencies / planningResult.totalSteps) * 100)
-      }
-    });
+    log.info('Planning statistics', summarizePlanGraph(graph));
 
     log.info('Research workflow completed successfully', {
       success: true,
@@ -245,21 +246,20 @@ async function main(): Promise<void> {
       planningDuration: duration,
       workflowType: firstTask?.kind === 'web_research' ? 'research-execution' : 'planning-only',
     });
-
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    
+
     log.error('Research workflow failed', {
       error: errorMessage,
-      userPrompt: userPrompt
+      userPrompt: userPrompt,
     });
-    
+
     log.error('Research PoC failed', {
       userPrompt: userPrompt,
       error: errorMessage,
       stack: error instanceof Error ? error.stack : undefined,
     });
-    
+
     process.exit(1);
   }
 }
@@ -270,7 +270,7 @@ main().catch((error) => {
     stack: error instanceof Error ? error.stack : undefined,
   });
   log.fatal('Fatal error occurred', {
-    error: error instanceof Error ? error.message : String(error)
+    error: error instanceof Error ? error.message : String(error),
   });
   process.exit(1);
-});
\ No newline at end of file
+});
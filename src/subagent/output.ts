@@ -0,0 +1,53 @@
+import {
+  formatSchemaExample,
+  type OutputSchema,
+  type Schema,
+  toJsonSchema,
+} from '../model/schema.js';
+
+/**
+ * Structured output a subagent asks its model for
+ *
+ * The schema is the single source for the prompt's format section, the
+ * runtime validation and the TypeScript type (`Infer<typeof contract.schema>`).
+ */
+export type OutputContract<T> = {
+  /** Identifier of the output type, e.g. for a backend's native schema mode */
+  readonly name: string;
+  readonly schema: Schema<T>;
+};
+
+/**
+ * Defines the structured output of a subagent
+ *
+ * @param name - Identifier of the output type (letters, digits, `_` and `-`)
+ * @param outputSchema - Schema of the JSON document
+ * @returns Output contract
+ */
+export function defineOutputContract<T>(name: string, outputSchema: Schema<T>): OutputContract<T> {
+  return { name, schema: outputSchema };
+}
+
+/**
+ * Renders the `<output_format>` section of a prompt
+ *
+ * @param contract - Expected output
+ * @returns Prompt section with an example document
+ */
+export function formatOutputSection(contract: OutputContract<unknown>): string {
+  return `<output_format>
+Return ONLY a JSON object with this exact structure:
+
+${formatSchemaExample(contract.schema)}
+</output_format>`;
+}
+
+/**
+ * Converts a contract for `ExecuteOptions.outputSchema`, which backends with a
+ * native JSON schema mode enforce during generation
+ *
+ * @param contract - Expected output
+ */
+export function toOutputSchema(contract: OutputContract<unknown>): OutputSchema {
+  return { name: contract.name, schema: toJsonSchema(contract.schema) };
+}
@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TaskID } from '../types.js';
+import { findPlanIssues, PlanGraph, PlanGraphError, summarizePlanGraph } from './graph.js';
+import type { TaskStep } from './main.js';
+
+/**
+ * Builds a step depending on the given steps
+ */
+function step(
+  id: string,
+  dependencies: string[] = [],
+  extra: Partial<Pick<TaskStep, 'kind' | 'priority'>> = {}
+): TaskStep {
+  return {
+    id: id as TaskID,
+    description: `Do ${id}`,
+    priority: 'high',
+    estimatedTime: '1 hour',
+    kind: 'implementation',
+    ...(dependencies.length > 0 && { dependencies: dependencies as TaskID[] }),
+    ...extra,
+  };
+}
+
+/**
+ * Ids of steps, wave by wave
+ */
+function ids(waves: readonly (readonly TaskStep[])[]): string[][] {
+  return waves.map((wave) => wave.map((s) => s.id));
+}
+
+describe('findPlanIssues', () => {
+  it('accepts a valid plan', () => {
+    assert.deepEqual(findPlanIssues({ steps: [step('a'), step('b', ['a'])], totalSteps: 2 }), []);
+  });
+
+  it('reports a cycle once, with the steps in it', () => {
+    const issues = findPlanIssues({
+      steps: [step('a', ['c']), step('b', ['a']), step('c', ['b']), step('d', ['a'])],
+    });
+
+    assert.equal(issues.length, 1);
+    assert.equal(issues[0]?.kind, 'cycle');
+    assert.deepEqual([...(issues[0]?.stepIds ?? [])].sort(), ['a', 'b', 'c']);
+    assert.match(issues[0]?.message ?? '', /a -> c -> b -> a/);
+  });
+
+  it('reports dangling and self dependencies, duplicates and a wrong step count', () => {
+    const issues = findPlanIssues({
+      steps: [step('a', ['a']), step('b', ['missing']), step('b')],
+      totalSteps: 2,
+    });
+
+    assert.deepEqual(
+      issues.map((issue) => [issue.kind, issue.stepIds]),
+      [
+        ['step_count_mismatch', []],
+        ['duplicate_id', ['b']],
+        ['self_dependency', ['a']],
+        ['missing_dependency', ['b', 'missing']],
+      ]
+    );
+  });
+
+  it('throws all issues at once from PlanGraph', () => {
+    assert.throws(
+      () => PlanGraph.fromSteps([step('a', ['b']), step('b', ['a']), step('c', ['x'])]),
+      (error) => {
+        assert.ok(error instanceof PlanGraphError);
+        assert.deepEqual(
+          error.issues.map((issue) => issue.kind),
+          ['missing_dependency', 'cycle']
+        );
+        return true;
+      }
+    );
+  });
+});
+
+describe('PlanGraph', () => {
+  // a -> b -> d, a -> c -> d, e alone
+  const graph = PlanGraph.fromSteps([
+    step('a'),
+    step('b', ['a']),
+    step('c', ['a'], { kind: 'testing', priority: 'low' }),
+    step('d', ['b', 'c']),
+    step('e'),
+  ]);
+
+  it('groups steps into waves after their latest dependency', () => {
+    assert.deepEqual(ids(graph.waves()), [['a', 'e'], ['b', 'c'], ['d']]);
+    assert.deepEqual(
+      graph.topologicalOrder().map((s) => s.id),
+      ['a', 'e', 'b', 'c', 'd']
+    );
+  });
+
+  it('places a step after its longest dependency chain, whatever the plan order', () => {
+    const reordered = PlanGraph.fromSteps([step('z', ['y', 'x']), step('y', ['x']), step('x')]);
+
+    assert.deepEqual(ids(reordered.waves()), [['x'], ['y'], ['z']]);
+  });
+
+  it('does not let callers change the cached waves', () => {
+    graph.waves()[0]?.pop();
+
+    assert.deepEqual(ids(graph.waves())[0], ['a', 'e']);
+  });
+
+  it('answers dependency queries in plan order', () => {
+    assert.deepEqual(
+      graph.dependenciesOf('d' as TaskID).map((s) => s.id),
+      ['b', 'c']
+    );
+    assert.deepEqual(
+      graph.dependentsOf('a' as TaskID).map((s) => s.id),
+      ['b', 'c']
+    );
+    assert.deepEqual(
+      graph.roots().map((s) => s.id),
+      ['a', 'e']
+    );
+    assert.deepEqual(
+      graph.leaves().map((s) => s.id),
+      ['d', 'e']
+    );
+  });
+
+  it('summarizes kinds, priorities and parallelism', () => {
+    assert.deepEqual(summarizePlanGraph(graph), {
+      stepsByKind: { implementation: 4, testing: 1 },
+      stepsByPriority: { high: 4, low: 1 },
+      dependencyAnalysis: {
+        independentSteps: 2,
+        dependentSteps: 3,
+        dependencyRatio: 60,
+        finalSteps: ['d', 'e'],
+        parallelWaves: 3,
+        maxParallelism: 2,
+        executionOrder: ['a', 'e', 'b', 'c', 'd'],
+      },
+    });
+  });
+
+  it('summarizes an empty plan', () => {
+    const summary = summarizePlanGraph(PlanGraph.fromSteps([]));
+
+    assert.equal(summary.dependencyAnalysis.dependencyRatio, 0);
+    assert.equal(summary.dependencyAnalysis.maxParallelism, 0);
+  });
+});
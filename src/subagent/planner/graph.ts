@@ -0,0 +1,372 @@
+import type { TaskID } from '../types.js';
+import type { PlanningResult, TaskStep } from './main.js';
+
+/**
+ * Kind of structural problem in a plan
+ *
+ * - `duplicate_id`: several steps share an id
+ * - `missing_dependency`: a step depends on an id no step has
+ * - `self_dependency`: a step depends on itself
+ * - `cycle`: steps depend on each other in a loop
+ * - `step_count_mismatch`: `totalSteps` differs from the number of steps
+ */
+export type PlanIssueKind =
+  | 'duplicate_id'
+  | 'missing_dependency'
+  | 'self_dependency'
+  | 'cycle'
+  | 'step_count_mismatch';
+
+/**
+ * Structural problem in a plan, with the ids of the steps involved
+ */
+export type PlanIssue = {
+  readonly kind: PlanIssueKind;
+  readonly message: string;
+  readonly stepIds: readonly TaskID[];
+};
+
+/**
+ * Error raised for a plan whose steps do not form a valid dependency graph
+ */
+export class PlanGraphError extends Error {
+  override readonly name = 'PlanGraphError';
+  readonly issues: readonly PlanIssue[];
+
+  /**
+   * @param issues - All problems found in the plan
+   */
+  constructor(issues: readonly PlanIssue[]) {
+    super(`Invalid plan: ${issues.map((issue) => issue.message).join('; ')}`);
+    this.issues = issues;
+  }
+}
+
+/**
+ * Finds all structural problems in a plan
+ *
+ * @param plan - Steps of the plan, and optionally the step count it claims
+ * @returns Problems found; empty for a valid plan
+ */
+export function findPlanIssues(
+  plan: Pick<PlanningResult, 'steps'> & { readonly totalSteps?: number }
+): PlanIssue[] {
+  const { steps } = plan;
+  const issues: PlanIssue[] = [];
+
+  if (plan.totalSteps !== undefined && plan.totalSteps !== steps.length) {
+    issues.push({
+      kind: 'step_count_mismatch',
+      message: `totalSteps is ${plan.totalSteps} but the plan has ${steps.length} steps`,
+      stepIds: [],
+    });
+  }
+
+  const ids = new Set<TaskID>();
+  const duplicates = new Set<TaskID>();
+  for (const step of steps) {
+    if (ids.has(step.id)) duplicates.add(step.id);
+    ids.add(step.id);
+  }
+  for (const id of duplicates) {
+    issues.push({ kind: 'duplicate_id', message: `Step id '${id}' is not unique`, stepIds: [id] });
+  }
+
+  for (const step of steps) {
+    for (const dependency of step.dependencies ?? []) {
+      if (dependency === step.id) {
+        issues.push({
+          kind: 'self_dependency',
+          message: `Step '${step.id}' depends on itself`,
+          stepIds: [step.id],
+        });
+      } else if (!ids.has(dependency)) {
+        issues.push({
+          kind: 'missing_dependency',
+          message: `Step '${step.id}' depends on unknown step '${dependency}'`,
+          stepIds: [step.id, dependency],
+        });
+      }
+    }
+  }
+
+  for (const cycle of findCycles(steps)) {
+    issues.push({
+      kind: 'cycle',
+      message: `Steps form a dependency cycle: ${[...cycle, cycle[0]].join(' -> ')}`,
+      stepIds: cycle,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Finds dependency cycles of two or more steps, each reported once
+ *
+ * Self-dependencies and unknown ids are left to the other checks.
+ */
+function findCycles(steps: readonly TaskStep[]): TaskID[][] {
+  const dependencies = new Map<TaskID, TaskID[]>();
+  for (const step of steps) {
+    const existing = dependencies.get(step.id) ?? [];
+    dependencies.set(step.id, [
+      ...existing,
+      ...(step.dependencies ?? []).filter((id) => id !== step.id),
+    ]);
+  }
+
+  const cycles: TaskID[][] = [];
+  const seen = new Set<string>();
+  const finished = new Set<TaskID>();
+  const path: TaskID[] = [];
+  const onPath = new Set<TaskID>();
+
+  const visit = (id: TaskID): void => {
+    path.push(id);
+    onPath.add(id);
+
+    for (const dependency of dependencies.get(id) ?? []) {
+      if (!dependencies.has(dependency) || finished.has(dependency)) continue;
+      if (onPath.has(dependency)) {
+        const cycle = path.slice(path.indexOf(dependency));
+        const key = [...cycle].sort().join('\n');
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push(cycle);
+        }
+        continue;
+      }
+      visit(dependency);
+    }
+
+    path.pop();
+    onPath.delete(id);
+    finished.add(id);
+  };
+
+  for (const id of dependencies.keys()) {
+    if (!finished.has(id)) visit(id);
+  }
+
+  return cycles;
+}
+
+/**
+ * Dependency graph of a validated plan
+ *
+ * Queries return steps in the order they appear in the plan, so results are
+ * stable for a given plan.
+ *
+ * @example
+ * ```typescript
+ * const graph = PlanGraph.fromPlan(plan);
+ * for (const wave of graph.waves()) {
+ *   await Promise.all(wave.map((step) => runStep(step)));
+ * }
+ * ```
+ */
+export class PlanGraph {
+  private readonly steps: readonly TaskStep[];
+  private readonly stepsById: ReadonlyMap<TaskID, TaskStep>;
+  private readonly dependentIds: ReadonlyMap<TaskID, readonly TaskID[]>;
+  private waveCache: TaskStep[][] | null = null;
+
+  /**
+   * @param steps - Steps already checked by `findPlanIssues()`
+   */
+  private constructor(steps: readonly TaskStep[]) {
+    this.steps = steps;
+    this.stepsById = new Map(steps.map((step) => [step.id, step]));
+
+    const dependentIds = new Map<TaskID, TaskID[]>(steps.map((step) => [step.id, []]));
+    for (const step of steps) {
+      for (const dependency of step.dependencies ?? []) {
+        dependentIds.get(dependency)?.push(step.id);
+      }
+    }
+    this.dependentIds = dependentIds;
+  }
+
+  /**
+   * Builds the graph of a plan, including the `totalSteps` check
+   *
+   * @param plan - Planning result to build the graph of
+   * @returns Graph of the plan's steps
+   * @throws PlanGraphError listing every problem if the plan is not a valid DAG
+   */
+  static fromPlan(plan: PlanningResult): PlanGraph {
+    return PlanGraph.build(plan);
+  }
+
+  /**
+   * Builds the graph of a list of steps
+   *
+   * @param steps - Steps of a plan
+   * @returns Graph of the steps
+   * @throws PlanGraphError listing every problem if the steps do not form a valid DAG
+   */
+  static fromSteps(steps: readonly TaskStep[]): PlanGraph {
+    return PlanGraph.build({ steps: [...steps] });
+  }
+
+  /**
+   * Validates a plan and creates its graph
+   */
+  private static build(
+    plan: Pick<PlanningResult, 'steps'> & { readonly totalSteps?: number }
+  ): PlanGraph {
+    const issues = findPlanIssues(plan);
+    if (issues.length > 0) {
+      throw new PlanGraphError(issues);
+    }
+    return new PlanGraph(plan.steps);
+  }
+
+  /**
+   * Number of steps in the plan
+   */
+  get size(): number {
+    return this.steps.length;
+  }
+
+  /**
+   * Returns a step by id
+   *
+   * @param id - Step id
+   */
+  get(id: TaskID): TaskStep | undefined {
+    return this.stepsById.get(id);
+  }
+
+  /**
+   * Returns the steps a step depends on directly
+   *
+   * @param id - Step id
+   */
+  dependenciesOf(id: TaskID): TaskStep[] {
+    return this.resolve(this.stepsById.get(id)?.dependencies ?? []);
+  }
+
+  /**
+   * Returns the steps that depend directly on a step
+   *
+   * @param id - Step id
+   */
+  dependentsOf(id: TaskID): TaskStep[] {
+    return this.resolve(this.dependentIds.get(id) ?? []);
+  }
+
+  /**
+   * Returns the steps without dependencies, which can start immediately
+   */
+  roots(): TaskStep[] {
+    return this.steps.filter((step) => (step.dependencies ?? []).length === 0);
+  }
+
+  /**
+   * Returns the steps no other step depends on
+   */
+  leaves(): TaskStep[] {
+    return this.steps.filter((step) => (this.dependentIds.get(step.id) ?? []).length === 0);
+  }
+
+  /**
+   * Returns the steps in an order where every step follows its dependencies
+   */
+  topologicalOrder(): TaskStep[] {
+    return this.waves().flat();
+  }
+
+  /**
+   * Groups the steps into waves that can each run in parallel
+   *
+   * A step is in the wave after the latest wave of its dependencies, so the
+   * number of waves is the length of the longest dependency chain.
+   */
+  waves(): TaskStep[][] {
+    if (!this.waveCache) {
+      const waveOf = new Map<TaskID, number>();
+      const waveIndex = (step: TaskStep): number => {
+        const known = waveOf.get(step.id);
+        if (known !== undefined) return known;
+        const index = Math.max(
+          0,
+          ...this.dependenciesOf(step.id).map((dependency) => waveIndex(dependency) + 1)
+        );
+        waveOf.set(step.id, index);
+        return index;
+      };
+
+      const waves: TaskStep[][] = [];
+      for (const step of this.steps) {
+        const index = waveIndex(step);
+        const wave = waves[index] ?? [];
+        wave.push(step);
+        waves[index] = wave;
+      }
+      this.waveCache = waves;
+    }
+    return this.waveCache.map((wave) => [...wave]);
+  }
+
+  /**
+   * Maps ids to steps, keeping plan order
+   */
+  private resolve(ids: readonly TaskID[]): TaskStep[] {
+    const wanted = new Set(ids);
+    return this.steps.filter((step) => wanted.has(step.id));
+  }
+}
+
+/**
+ * Step counts and dependency structure of a plan, for reporting
+ */
+export type PlanGraphSummary = {
+  readonly stepsByKind: Readonly<Record<string, number>>;
+  readonly stepsByPriority: Readonly<Record<string, number>>;
+  readonly dependencyAnalysis: {
+    readonly independentSteps: number;
+    readonly dependentSteps: number;
+    /** Percentage of steps that wait for another step */
+    readonly dependencyRatio: number;
+    readonly finalSteps: readonly TaskID[];
+    readonly parallelWaves: number;
+    readonly maxParallelism: number;
+    readonly executionOrder: readonly TaskID[];
+  };
+};
+
+/**
+ * Summarizes the steps and dependency structure of a plan
+ *
+ * @param graph - Graph of the plan
+ * @returns Counts by kind and priority, and how far the plan can run in parallel
+ */
+export function summarizePlanGraph(graph: PlanGraph): PlanGraphSummary {
+  const order = graph.topologicalOrder();
+  const stepsByKind: Record<string, number> = {};
+  const stepsByPriority: Record<string, number> = {};
+  for (const step of order) {
+    stepsByKind[step.kind] = (stepsByKind[step.kind] ?? 0) + 1;
+    stepsByPriority[step.priority] = (stepsByPriority[step.priority] ?? 0) + 1;
+  }
+
+  const independentSteps = graph.roots().length;
+  const dependentSteps = graph.size - independentSteps;
+  const waves = graph.waves();
+
+  return {
+    stepsByKind,
+    stepsByPriority,
+    dependencyAnalysis: {
+      independentSteps,
+      dependentSteps,
+      dependencyRatio: Math.round((dependentSteps / Math.max(graph.size, 1)) * 100),
+      finalSteps: graph.leaves().map((step) => step.id),
+      parallelWaves: waves.length,
+      maxParallelism: Math.max(0, ...waves.map((wave) => wave.length)),
+      executionOrder: order.map((step) => step.id),
+    },
+  };
+}
@@ -0,0 +1,250 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { setTimeout as delay } from 'node:timers/promises';
+import { AbortError, AgentParseError } from '../../model/errors.js';
+import { FakeAgent } from '../../model/fake/main.js';
+import { TemplateAgent } from '../../model/template/main.js';
+import type { TaskID } from '../types.js';
+import { Planner, type PlanningResult } from './main.js';
+
+/**
+ * Builds a valid task step
+ */
+function step(id: string, extra: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id,
+    description: `Do ${id}`,
+    priority: 'high',
+    estimatedTime: '1 hour',
+    kind: 'implementation',
+    ...extra,
+  };
+}
+
+/**
+ * Builds a plan document from steps
+ */
+function planJson(steps: readonly Record<string, unknown>[]): string {
+  return JSON.stringify({
+    summary: 'Build it',
+    totalSteps: steps.length,
+    estimatedDuration: '2 hours',
+    steps,
+  });
+}
+
+const PLAN = planJson([step('step-1'), step('step-2', { dependencies: ['step-1'] })]);
+
+/**
+ * Agent whose CLI prints its pid and then runs until it is killed
+ */
+function hangingAgent(): TemplateAgent {
+  return new TemplateAgent({
+    command: process.execPath,
+    args: ['-e', 'console.log(process.pid); setInterval(() => {}, 1000);'],
+  });
+}
+
+/**
+ * Waits up to two seconds for a process to exit
+ *
+ * @returns Whether the process has exited
+ */
+async function waitForExit(pid: number): Promise<boolean> {
+  for (let i = 0; i < 40; i++) {
+    try {
+      process.kill(pid, 0);
+    } catch {
+      return true;
+    }
+    await delay(50);
+  }
+  return false;
+}
+
+/**
+ * Aborts the execution once the hanging CLI has started, and reports its pid
+ */
+function abortWhenStarted(agent: TemplateAgent, controller: AbortController): () => number {
+  let pid = 0;
+  agent.subscribe((event) => {
+    if (event.type === 'text_delta' && pid === 0) {
+      pid = Number.parseInt(event.text, 10);
+      controller.abort();
+    }
+  });
+  return () => pid;
+}
+
+describe('Planner.createPlan', () => {
+  it('parses a plan wrapped in prose and a code fence', async () => {
+    const agent = new FakeAgent({
+      responses: { stdout: `Here is the plan:\n\n\`\`\`json\n${PLAN}\n\`\`\`\nGood luck!` },
+    });
+    const plan = await new Planner({ agent }).createPlan('Build a CLI');
+
+    assert.equal(plan.totalSteps, 2);
+    assert.deepEqual(
+      plan.steps.map((s) => s.id),
+      ['step-1', 'step-2']
+    );
+    assert.match(agent.prompts[0] ?? '', /Build a CLI/);
+    assert.match(agent.prompts[0] ?? '', /<output_format>/);
+  });
+
+  it('asks the model to repair a plan with an invalid dependency graph', async () => {
+    const agent = new FakeAgent({
+      responses: [
+        { stdout: planJson([step('step-1', { dependencies: ['step-9'] })]) },
+        { stdout: PLAN },
+      ],
+    });
+    const plan = await new Planner({ agent }).createPlan('Build a CLI');
+
+    assert.equal(plan.steps.length, 2);
+    assert.equal(agent.prompts.length, 2);
+    assert.match(agent.prompts[1] ?? '', /<validation_errors>[\s\S]*step-9/);
+  });
+
+  it('fails with AgentParseError once the repair attempts are used up', async () => {
+    const agent = new FakeAgent({ responses: { stdout: 'I cannot plan this.' } });
+    const planner = new Planner({ agent, repairAttempts: 1 });
+
+    await assert.rejects(planner.createPlan('Build a CLI'), AgentParseError);
+    assert.equal(agent.prompts.length, 2);
+  });
+
+  it(
+    'rejects with AbortError and kills the CLI when aborted',
+    {
+      skip: process.platform === 'win32',
+    },
+    async () => {
+      const agent = hangingAgent();
+      const controller = new AbortController();
+      const startedPid = abortWhenStarted(agent, controller);
+
+      await assert.rejects(
+        new Planner({ agent }).createPlan('Build a CLI', { signal: controller.signal }),
+        AbortError
+      );
+      assert.ok(startedPid() > 0);
+      assert.equal(await waitForExit(startedPid()), true);
+    }
+  );
+
+  it('rejects an empty command without calling the agent', async () => {
+    const agent = new FakeAgent({ responses: { stdout: PLAN } });
+
+    await assert.rejects(new Planner({ agent }).createPlan('  '), /cannot be empty/);
+    assert.equal(agent.prompts.length, 0);
+  });
+});
+
+describe('Planner.revisePlan', () => {
+  const current = JSON.parse(
+    planJson([
+      step('step-1'),
+      step('step-2', { dependencies: ['step-1'] }),
+      step('step-3', { dependencies: ['step-2'] }),
+    ])
+  ) as PlanningResult;
+  const outcomes = [
+    { stepId: 'step-1' as TaskID, status: 'completed' as const, summary: 'Scaffolded' },
+    { stepId: 'step-2' as TaskID, status: 'failed' as const, error: 'API changed' },
+  ];
+
+  it('returns the revised plan with a step-level diff', async () => {
+    const agent = new FakeAgent({
+      responses: {
+        stdout: planJson([
+          step('step-1'),
+          step('step-2b', { dependencies: ['step-1'] }),
+          step('step-3', { dependencies: ['step-2b'] }),
+        ]),
+      },
+    });
+    const { plan, diff } = await new Planner({ agent }).revisePlan(current, {
+      outcomes,
+      findings: ['The v2 API needs a token'],
+    });
+
+    assert.equal(plan.steps.length, 3);
+    assert.deepEqual(
+      diff.added.map((s) => s.id),
+      ['step-2b']
+    );
+    assert.deepEqual(
+      diff.removed.map((s) => s.id),
+      ['step-2']
+    );
+    assert.deepEqual(
+      diff.changed.map((change) => [change.id, change.fields]),
+      [['step-3', ['dependencies']]]
+    );
+    assert.deepEqual(diff.unchanged, ['step-1']);
+    assert.match(agent.prompts[0] ?? '', /step-2: failed - API changed/);
+    assert.match(agent.prompts[0] ?? '', /The v2 API needs a token/);
+  });
+
+  it('asks for a repair when a completed step is dropped', async () => {
+    const agent = new FakeAgent({
+      responses: [
+        { stdout: planJson([step('step-2b'), step('step-3', { dependencies: ['step-2b'] })]) },
+        { stdout: planJson([step('step-1'), step('step-3', { dependencies: ['step-1'] })]) },
+      ],
+    });
+    const { diff } = await new Planner({ agent }).revisePlan(current, { outcomes });
+
+    assert.equal(agent.prompts.length, 2);
+    assert.match(agent.prompts[1] ?? '', /Completed steps must be kept.*step-1/);
+    assert.deepEqual(
+      diff.removed.map((s) => s.id),
+      ['step-2']
+    );
+  });
+
+  it('asks for a repair when a completed step is rewritten', async () => {
+    const agent = new FakeAgent({
+      responses: [
+        {
+          stdout: planJson([
+            step('step-1', { description: 'Scaffold with another framework', kind: 'analysis' }),
+            step('step-3', { dependencies: ['step-1'] }),
+          ]),
+        },
+        { stdout: planJson([step('step-1'), step('step-3', { dependencies: ['step-1'] })]) },
+      ],
+    });
+    const { plan, diff } = await new Planner({ agent }).revisePlan(current, { outcomes });
+
+    assert.equal(agent.prompts.length, 2);
+    assert.match(agent.prompts[1] ?? '', /must not be changed: step-1 \(description, kind\)/);
+    assert.equal(plan.steps[0]?.description, 'Do step-1');
+    assert.deepEqual(diff.unchanged, ['step-1']);
+  });
+
+  it('keeps the original error as the cause of an unexpected failure', async () => {
+    const failure = new TypeError('responder broke');
+    const agent = new FakeAgent({
+      responses: () => {
+        throw failure;
+      },
+    });
+
+    const error = await new Planner({ agent })
+      .revisePlan(current, { outcomes })
+      .catch((e: unknown) => e);
+    assert.ok(error instanceof Error);
+    assert.match(error.message, /Failed to revise plan: responder broke/);
+    assert.equal(error.cause, failure);
+  });
+
+  it('rejects feedback about steps that are not in the plan', async () => {
+    const agent = new FakeAgent({ responses: { stdout: PLAN } });
+    const feedback = { outcomes: [{ stepId: 'step-9' as TaskID, status: 'completed' as const }] };
+
+    await assert.rejects(new Planner({ agent }).revisePlan(current, feedback), /step-9/);
+    assert.equal(agent.prompts.length, 0);
+  });
+});
@@ -1,37 +1,67 @@
-import { ClaudeCode } from '../../model/claude/main.js';
-import { CLIAgent } from '../../model/agent.js';
 import { type ILogObj, Logger } from 'tslog';
-import { type TaskKind, type TaskID } from '../types.js';
+import type { CLIAgent, ExecuteOptions } from '../../model/agent.js';
+import { AgentError, AgentParseError, isAbortError } from '../../model/errors.js';
+import { extractJson } from '../../model/extract.js';
+import { type AgentName, type AgentSpec, createAgentFromSpec } from '../../model/registry.js';
+import type { RetryPolicy } from '../../model/retry.js';
+import { assertSchema, type Infer, schema } from '../../model/schema.js';
+import { defineOutputContract, formatOutputSection, toOutputSchema } from '../output.js';
+import { DEFAULT_REPAIR_ATTEMPTS, executeWithRepair } from '../repair.js';
+import { TASK_KIND, type TaskID } from '../types.js';
+import { findPlanIssues, PlanGraphError } from './graph.js';
+import { changedStepFields, diffPlans, type PlanFeedback, type PlanRevision } from './revision.js';
 
 /**
  * Configuration options for the Planner
  */
 export type PlannerConfig = {
   readonly timeoutMs?: number;
+  readonly idleTimeoutMs?: number;
+  /** Use the backend's native JSON schema mode, if it has one, in addition to the prompt */
   readonly enableStructuredOutput?: boolean;
+  readonly retry?: RetryPolicy;
+  /** Times an invalid plan is sent back to the model for correction; defaults to 2 */
+  readonly repairAttempts?: number;
+  /** Registered backend to plan with; defaults to 'claude' */
+  readonly backend?: AgentName | AgentSpec;
+  /** Ready-made agent to plan with instead of `backend` (e.g., a FakeAgent) */
+  readonly agent?: CLIAgent;
 };
 
+/**
+ * Schema of a task step
+ */
+export const TASK_STEP_SCHEMA = schema.object({
+  id: schema.string<TaskID>({ example: 'step-1' }),
+  description: schema.string({ example: 'Specific action to take' }),
+  priority: schema.enum(['high', 'medium', 'low']),
+  estimatedTime: schema.string({ example: '30 minutes' }),
+  dependencies: schema.optional(schema.array(schema.string<TaskID>({ example: 'step-id-if-any' }))),
+  kind: schema.enum(TASK_KIND),
+});
+
+/**
+ * Output contract of the Planner
+ */
+export const PLANNING_RESULT_CONTRACT = defineOutputContract(
+  'planning_result',
+  schema.object({
+    summary: schema.string({ example: 'Brief description of what will be accomplished' }),
+    totalSteps: schema.number({ integer: true, minimum: 0, example: 5 }),
+    estimatedDuration: schema.string({ example: '2-3 hours' }),
+    steps: schema.array(TASK_STEP_SCHEMA),
+  })
+);
+
 /**
  * Task step structure for decomposed tasks
  */
-export type TaskStep = {
-  readonly id: TaskID;
-  readonly description: string;
-  readonly priority: 'high' | 'medium' | 'low';
-  readonly estimatedTime: string;
-  readonly dependencies?: TaskID[];
-  readonly kind: TaskKind;
-};
+export type TaskStep = Infer<typeof TASK_STEP_SCHEMA>;
 
 /**
  * Planning result structure
  */
-export type PlanningResult = {
-  readonly summary: string;
-  readonly totalSteps: number;
-  readonly estimatedDuration: string;
-  readonly steps: TaskStep[];
-};
+export type PlanningResult = Infer<typeof PLANNING_RESULT_CONTRACT.schema>;
 
 /**
  * Planner subagent that uses Claude Code to decompose user commands into detailed steps
@@ -44,11 +74,16 @@ export type PlanningResult = {
  * const planner = new Planner();
  * const plan = await planner.createPlan("Build a REST API with authentication");
  * console.log(plan.steps);
+ *
+ * // Later, after some steps have run
+ * const { plan: revised, diff } = await planner.revisePlan(plan, { outcomes, findings });
  * ```
  */
 export class Planner {
   private readonly log: Logger<ILogObj>;
   private readonly agent: CLIAgent;
+  private readonly repairAttempts: number;
+  private readonly enableStructuredOutput: boolean;
 
   /**
    * Creates a new Planner instance
@@ -64,19 +99,26 @@ export class Planner {
         '{{yyyy}}.{{mm}}.{{dd}} {{hh}}:{{MM}}:{{ss}}\t{{logLevelName}}\t{{name}}\t',
     });
 
-    // Initialize Claude Code with extended timeout for complex planning
-    this.agent = new ClaudeCode({
-      timeoutMs: config.timeoutMs ?? 300000, // Default: 5 minutes
-    });
+    // Initialize the backend (Claude Code by default) with extended timeout for complex planning
+    this.agent =
+      config.agent ??
+      createAgentFromSpec(config.backend ?? 'claude', {
+        timeoutMs: config.timeoutMs ?? 300000, // Default: 5 minutes
+        ...(config.idleTimeoutMs !== undefined && { idleTimeoutMs: config.idleTimeoutMs }),
+        retry: config.retry ?? { maxAttempts: 3 }, // Default: retry transient failures twice
+      });
+    this.repairAttempts = config.repairAttempts ?? DEFAULT_REPAIR_ATTEMPTS;
+    this.enableStructuredOutput = config.enableStructuredOutput ?? false;
   }
 
   /**
    * Creates a detailed plan from a user command by decomposing it into actionable steps
    *
    * @param userCommand - The command or requirement from the user
+   * @param options - Per-call options such as an AbortSignal
    * @returns Promise that resolves with the detailed planning result
    */
-  async createPlan(userCommand: string): Promise<PlanningResult> {
+  async createPlan(userCommand: string, options: ExecuteOptions = {}): Promise<PlanningResult> {
     if (!userCommand || userCommand.trim() === '') {
       const error = new Error('User command cannot be empty');
       this.log.error('Invalid user command', { error: error.message });
@@ -92,17 +134,19 @@ export class Planner {
 
     try {
       const startTime = Date.now();
-      const rawResult = await this.agent.execute(planningPrompt);
-      const duration = Date.now() - startTime;
 
-      this.log.debug('Planning completed', {
-        rawResult,
-        duration,
-        resultLength: rawResult.length,
+      // Invalid plans are sent back to the model together with the validation errors
+      const planningResult = await executeWithRepair({
+        agent: this.agent,
+        prompt: planningPrompt,
+        executeOptions: this.enableStructuredOutput
+          ? { ...options, outputSchema: toOutputSchema(PLANNING_RESULT_CONTRACT) }
+          : options,
+        parse: (rawResult) => this.parsePlanningResult(rawResult),
+        maxRepairs: this.repairAttempts,
+        log: this.log,
       });
-      
-      // Parse the structured result from Claude
-      const planningResult = this.parsePlanningResult(rawResult);
+      const duration = Date.now() - startTime;
 
       this.log.info('Task planning completed successfully', {
         userCommand: userCommand,
@@ -113,12 +157,107 @@ export class Planner {
 
       return planningResult;
     } catch (error) {
+      if (isAbortError(error)) {
+        this.log.info('Task planning aborted', { userCommand: userCommand });
+        throw error;
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.log.error('Task planning failed', {
         userCommand: userCommand,
         error: errorMessage,
       });
-      throw new Error(`Failed to create plan: ${errorMessage}`);
+
+      // Typed agent errors are passed through so callers can tell failure kinds apart
+      if (error instanceof AgentError) {
+        throw error;
+      }
+      throw new Error(`Failed to create plan: ${errorMessage}`, { cause: error });
+    }
+  }
+
+  /**
+   * Revises a plan in the light of executed steps and new findings
+   *
+   * Completed steps are kept unchanged with their ids, so progress tracked by
+   * id stays valid; a revision that drops or rewrites one is sent back to the
+   * model for repair.
+   *
+   * @param plan - The current plan
+   * @param feedback - Step outcomes, findings and notes since the plan was made
+   * @param options - Per-call options such as an AbortSignal
+   * @returns The revised plan and its step-level diff against the current one
+   */
+  async revisePlan(
+    plan: PlanningResult,
+    feedback: PlanFeedback,
+    options: ExecuteOptions = {}
+  ): Promise<PlanRevision> {
+    const stepIds = new Set(plan.steps.map((step) => step.id));
+    const unknownIds = (feedback.outcomes ?? [])
+      .map((outcome) => outcome.stepId)
+      .filter((id) => !stepIds.has(id));
+    if (unknownIds.length > 0) {
+      const error = new Error(`Feedback refers to unknown steps: ${unknownIds.join(', ')}`);
+      this.log.error('Invalid plan feedback', { error: error.message });
+      throw error;
+    }
+
+    const completedIds = new Set(
+      (feedback.outcomes ?? [])
+        .filter((outcome) => outcome.status === 'completed')
+        .map((outcome) => outcome.stepId)
+    );
+    const completedSteps = plan.steps.filter((step) => completedIds.has(step.id));
+
+    this.log.info('Starting plan revision', {
+      totalSteps: plan.totalSteps,
+      completedSteps: completedSteps.length,
+      failedSteps: (feedback.outcomes ?? []).length - completedIds.size,
+      findings: feedback.findings?.length ?? 0,
+    });
+
+    const revisionPrompt = this.buildRevisionPrompt(plan, feedback);
+
+    try {
+      const startTime = Date.now();
+
+      const revisedPlan = await executeWithRepair({
+        agent: this.agent,
+        prompt: revisionPrompt,
+        executeOptions: this.enableStructuredOutput
+          ? { ...options, outputSchema: toOutputSchema(PLANNING_RESULT_CONTRACT) }
+          : options,
+        parse: (rawResult) => this.parsePlanningResult(rawResult, completedSteps),
+        maxRepairs: this.repairAttempts,
+        log: this.log,
+      });
+      const duration = Date.now() - startTime;
+      const diff = diffPlans(plan, revisedPlan);
+
+      this.log.info('Plan revision completed successfully', {
+        totalSteps: revisedPlan.totalSteps,
+        addedSteps: diff.added.length,
+        removedSteps: diff.removed.length,
+        changedSteps: diff.changed.length,
+        duration,
+      });
+
+      return { plan: revisedPlan, diff };
+    } catch (error) {
+      if (isAbortError(error)) {
+        this.log.info('Plan revision aborted');
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log.error('Plan revision failed', { error: errorMessage });
+
+      // Typed agent errors are passed through so callers can tell failure kinds apart
+      if (error instanceof AgentError) {
+        throw error;
+      }
+      throw new Error(`Failed to revise plan: ${errorMessage}`, { cause: error });
     }
   }
 
@@ -152,72 +291,80 @@ Break down the following user command into detailed, actionable steps:
 4. Identify dependencies between steps
 </requirements>
 
-<output_format>
-Return ONLY a JSON object with this exact structure:
-
-{
-  "summary": "Brief description of what will be accomplished",
-  "totalSteps": 5,
-  "estimatedDuration": "2-3 hours",
-  "steps": [
-    {
-      "id": "step-1",
-      "description": "Specific action to take",
-      "priority": "high|medium|low",
-      "estimatedTime": "30 minutes",
-      "dependencies": ["step-id-if-any"],
-      "kind": "web_research|implementation|testing|documentation|analysis"
-    }
-  ]
-}
-</output_format>
+${formatOutputSection(PLANNING_RESULT_CONTRACT)}
 
 <important>
 Return ONLY the JSON object, no additional text or explanations.
 </important>`;
   }
 
+  /**
+   * Builds the prompt for revising a plan with execution feedback
+   *
+   * @param plan - The current plan
+   * @param feedback - Step outcomes, findings and notes
+   * @returns Formatted prompt string for Claude Code
+   */
+  private buildRevisionPrompt(plan: PlanningResult, feedback: PlanFeedback): string {
+    const outcomes = (feedback.outcomes ?? []).map((outcome) => {
+      const detail =
+        outcome.status === 'failed' ? (outcome.error ?? outcome.summary) : outcome.summary;
+      return `- ${outcome.stepId}: ${outcome.status}${detail ? ` - ${detail}` : ''}`;
+    });
+    const findings = (feedback.findings ?? []).map((finding) => `- ${finding}`);
+
+    return `<role>
+You are a technical project planner specializing in software development task decomposition.
+</role>
+
+<task>
+Revise the current plan using the execution feedback below, so that the remaining work still achieves the plan's goal.
+</task>
+
+<current_plan>
+${JSON.stringify(plan, null, 2)}
+</current_plan>
+
+<step_outcomes>
+${outcomes.length > 0 ? outcomes.join('\n') : 'No steps have been executed yet.'}
+</step_outcomes>
+
+<new_findings>
+${findings.length > 0 ? findings.join('\n') : 'None.'}
+</new_findings>
+${feedback.notes ? `\n<notes>\n${feedback.notes}\n</notes>\n` : ''}
+<requirements>
+1. Keep every completed step in the plan, unchanged and with its id
+2. Replace or adjust failed steps so that the goal can still be reached
+3. Keep the ids of steps that remain; give new steps ids not used before
+4. Add, remove or change pending steps as the findings require
+5. Update dependencies, totalSteps and estimatedDuration to match the revised steps
+</requirements>
+
+${formatOutputSection(PLANNING_RESULT_CONTRACT)}
+
+<important>
+Return ONLY the JSON object of the complete revised plan, no additional text or explanations.
+</important>`;
+  }
+
   /**
    * Parses the Claude Code result into structured planning data
    *
    * @param rawResult - Raw string result from Claude Code
+   * @param keepSteps - Steps the plan must contain unchanged (completed steps of a revision)
    * @returns Parsed planning result
    */
-  private parsePlanningResult(rawResult: string): PlanningResult {
+  private parsePlanningResult(
+    rawResult: string,
+    keepSteps: readonly TaskStep[] = []
+  ): PlanningResult {
     try {
-      // Clean the result and extract JSON
-      let cleanedResult = rawResult.trim();
-      
-      // Handle code blocks (```json...```) 
-      const codeBlockMatch = cleanedResult.match(/```json\s*([\s\S]*?)\s*```/);
-      if (codeBlockMatch && codeBlockMatch[1]) {
-        cleanedResult = codeBlockMatch[1].trim();
-      }
-      
-      // Handle escaped JSON strings (from Claude's result field)
-      // If the result is an escaped JSON string, unescape it
-      if (cleanedResult.startsWith('\\"') && cleanedResult.endsWith('\\"')) {
-        try {
-          cleanedResult = JSON.parse(cleanedResult);
-        } catch (unescapeError) {
-          this.log.debug('Failed to unescape JSON string, proceeding with original', {
-            error: unescapeError instanceof Error ? unescapeError.message : String(unescapeError),
-          });
-        }
-      }
-      
-      let jsonString = cleanedResult;
+      // Pick the JSON document out of any surrounding text, fences or encoding
+      const parsed = extractJson(rawResult, PLANNING_RESULT_CONTRACT.schema);
 
-      // Handle cases where Claude might include extra text before/after JSON
-      const jsonMatch = cleanedResult.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        jsonString = jsonMatch[0];
-      }
-
-      const parsed = JSON.parse(jsonString) as PlanningResult;
-
-      // Validate the structure
-      this.validatePlanningResult(parsed);
+      // Check the dependency graph
+      this.validatePlanningResult(parsed, keepSteps);
 
       this.log.debug('Successfully parsed planning result', {
         totalSteps: parsed.totalSteps,
@@ -231,50 +378,47 @@ Return ONLY the JSON object, no additional text or explanations.
         error: error instanceof Error ? error.message : String(error),
         resultPreview: rawResult.substring(0, 200),
       });
-      throw new Error(`Failed to parse planning result: ${error instanceof Error ? error.message : String(error)}`);
+      throw new AgentParseError(
+        'Planner',
+        `Failed to parse planning result: ${error instanceof Error ? error.message : String(error)}`,
+        rawResult,
+        { cause: error }
+      );
     }
   }
 
   /**
-   * Validates the structure of the parsed planning result
+   * Validates the structure of the parsed planning result, including its dependency graph
    *
    * @param result - Parsed planning result to validate
-   * @throws Error if validation fails
+   * @param keepSteps - Steps the plan must contain unchanged
+   * @throws SchemaValidationError if a field is invalid
+   * @throws PlanGraphError if the steps do not form a valid DAG
+   * @throws Error if a step that must be kept is missing or changed
    */
-  private validatePlanningResult(result: any): asserts result is PlanningResult {
-    if (typeof result !== 'object' || result === null) {
-      throw new Error('Planning result must be an object');
-    }
-
-    if (typeof result.summary !== 'string') {
-      throw new Error('Planning result must have a summary string');
-    }
-
-    if (typeof result.totalSteps !== 'number') {
-      throw new Error('Planning result must have a totalSteps number');
+  private validatePlanningResult(
+    result: unknown,
+    keepSteps: readonly TaskStep[] = []
+  ): asserts result is PlanningResult {
+    assertSchema(PLANNING_RESULT_CONTRACT.schema, result);
+
+    const issues = findPlanIssues(result);
+    if (issues.length > 0) {
+      throw new PlanGraphError(issues);
     }
 
-    if (typeof result.estimatedDuration !== 'string') {
-      throw new Error('Planning result must have an estimatedDuration string');
+    const stepsById = new Map(result.steps.map((step) => [step.id, step]));
+    const missing = keepSteps.filter((step) => !stepsById.has(step.id)).map((step) => step.id);
+    if (missing.length > 0) {
+      throw new Error(`Completed steps must be kept with their ids: ${missing.join(', ')}`);
     }
 
-    if (!Array.isArray(result.steps)) {
-      throw new Error('Planning result must have a steps array');
-    }
-
-    for (const [index, step] of result.steps.entries()) {
-      if (typeof step.id !== 'string') {
-        throw new Error(`Step ${index} must have an id string`);
-      }
-      if (typeof step.description !== 'string') {
-        throw new Error(`Step ${index} must have a description string`);
-      }
-      if (!['high', 'medium', 'low'].includes(step.priority)) {
-        throw new Error(`Step ${index} must have a valid priority`);
-      }
-      if (!['web_research', 'implementation', 'testing', 'documentation', 'analysis'].includes(step.kind)) {
-        throw new Error(`Step ${index} must have a valid kind`);
-      }
+    const changed = keepSteps.flatMap((step) => {
+      const fields = changedStepFields(step, stepsById.get(step.id) ?? step);
+      return fields.length > 0 ? [`${step.id} (${fields.join(', ')})`] : [];
+    });
+    if (changed.length > 0) {
+      throw new Error(`Completed steps must not be changed: ${changed.join(', ')}`);
     }
   }
 
@@ -301,4 +445,4 @@ Return ONLY the JSON object, no additional text or explanations.
         return 3; // info
     }
   }
-}
\ No newline at end of file
+}
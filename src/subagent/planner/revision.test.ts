@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { TaskID } from '../types.js';
+import type { PlanningResult, TaskStep } from './main.js';
+import { changedStepFields, diffPlans } from './revision.js';
+
+/**
+ * Builds a step with the given overrides
+ */
+function step(id: string, extra: Partial<Omit<TaskStep, 'id'>> = {}): TaskStep {
+  return {
+    id: id as TaskID,
+    description: `Do ${id}`,
+    priority: 'high',
+    estimatedTime: '1 hour',
+    kind: 'implementation',
+    ...extra,
+  };
+}
+
+/**
+ * Builds a plan from steps
+ */
+function plan(steps: TaskStep[]): PlanningResult {
+  return { summary: 'Build it', totalSteps: steps.length, estimatedDuration: '1 day', steps };
+}
+
+describe('diffPlans', () => {
+  it('reports added, removed, changed and unchanged steps in plan order', () => {
+    const before = plan([
+      step('a'),
+      step('b', { dependencies: ['a' as TaskID] }),
+      step('c'),
+      step('d', { priority: 'low' }),
+    ]);
+    const after = plan([
+      step('e'),
+      step('d', { priority: 'medium', estimatedTime: '2 hours' }),
+      step('a'),
+      step('f', { dependencies: ['e' as TaskID] }),
+      step('c', { description: 'Do c differently' }),
+    ]);
+
+    const diff = diffPlans(before, after);
+    assert.deepEqual(
+      diff.added.map((s) => s.id),
+      ['e', 'f']
+    );
+    assert.deepEqual(
+      diff.removed.map((s) => s.id),
+      ['b']
+    );
+    assert.deepEqual(
+      diff.changed.map((change) => [change.id, change.fields]),
+      [
+        ['d', ['priority', 'estimatedTime']],
+        ['c', ['description']],
+      ]
+    );
+    assert.deepEqual(diff.unchanged, ['a']);
+    assert.equal(diff.changed[0]?.before.priority, 'low');
+    assert.equal(diff.changed[0]?.after.priority, 'medium');
+  });
+
+  it('reports no changes between a plan and itself', () => {
+    const same = plan([step('a'), step('b', { dependencies: ['a' as TaskID] })]);
+
+    assert.deepEqual(diffPlans(same, same), {
+      added: [],
+      removed: [],
+      changed: [],
+      unchanged: ['a', 'b'],
+    });
+  });
+});
+
+describe('changedStepFields', () => {
+  it('compares dependencies as sets, with a missing list equal to an empty one', () => {
+    const ids = (...values: string[]): TaskID[] => values as TaskID[];
+
+    assert.deepEqual(
+      changedStepFields(
+        step('a', { dependencies: ids('x', 'y') }),
+        step('a', { dependencies: ids('y', 'x', 'x') })
+      ),
+      []
+    );
+    assert.deepEqual(changedStepFields(step('a'), step('a', { dependencies: [] })), []);
+    assert.deepEqual(
+      changedStepFields(
+        step('a', { dependencies: ids('x') }),
+        step('a', { dependencies: ids('x', 'y') })
+      ),
+      ['dependencies']
+    );
+  });
+
+  it('lists every changed field and ignores the id', () => {
+    assert.deepEqual(
+      changedStepFields(
+        step('a'),
+        step('b', { description: 'Do a', kind: 'testing', priority: 'low' })
+      ),
+      ['priority', 'kind']
+    );
+  });
+});
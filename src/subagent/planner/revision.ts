@@ -0,0 +1,123 @@
+import type { TaskID } from '../types.js';
+import type { PlanningResult, TaskStep } from './main.js';
+
+/**
+ * Outcome of executing a plan step
+ */
+export type StepOutcome = {
+  readonly stepId: TaskID;
+  readonly status: 'completed' | 'failed';
+  /** What the step produced or why it failed, in a few sentences */
+  readonly summary?: string;
+  readonly error?: string;
+};
+
+/**
+ * What has happened since a plan was made, for `Planner.revisePlan()`
+ */
+export type PlanFeedback = {
+  readonly outcomes?: readonly StepOutcome[];
+  /** New information, e.g. from research steps, that may affect the remaining work */
+  readonly findings?: readonly string[];
+  /** Further instructions for the revision */
+  readonly notes?: string;
+};
+
+/**
+ * Step fields compared by `diffPlans()`
+ */
+export type TaskStepField = Exclude<keyof TaskStep, 'id'>;
+
+/**
+ * Step present in both plans with different content
+ */
+export type PlanStepChange = {
+  readonly id: TaskID;
+  readonly fields: readonly TaskStepField[];
+  readonly before: TaskStep;
+  readonly after: TaskStep;
+};
+
+/**
+ * Step-level difference between two plans, matched by step id
+ */
+export type PlanDiff = {
+  readonly added: readonly TaskStep[];
+  readonly removed: readonly TaskStep[];
+  readonly changed: readonly PlanStepChange[];
+  readonly unchanged: readonly TaskID[];
+};
+
+/**
+ * Revised plan together with what changed
+ */
+export type PlanRevision = {
+  readonly plan: PlanningResult;
+  readonly diff: PlanDiff;
+};
+
+const COMPARED_FIELDS: readonly TaskStepField[] = [
+  'description',
+  'priority',
+  'estimatedTime',
+  'dependencies',
+  'kind',
+];
+
+/**
+ * Compares the steps of two plans
+ *
+ * Dependencies are compared as sets; a missing list equals an empty one.
+ *
+ * @param before - Previous plan
+ * @param after - Revised plan
+ * @returns Added, removed and changed steps, each in plan order
+ */
+export function diffPlans(before: PlanningResult, after: PlanningResult): PlanDiff {
+  const previous = new Map(before.steps.map((step) => [step.id, step]));
+  const next = new Map(after.steps.map((step) => [step.id, step]));
+
+  const changed: PlanStepChange[] = [];
+  const unchanged: TaskID[] = [];
+  for (const step of after.steps) {
+    const old = previous.get(step.id);
+    if (!old) continue;
+
+    const fields = changedStepFields(old, step);
+    if (fields.length > 0) {
+      changed.push({ id: step.id, fields, before: old, after: step });
+    } else {
+      unchanged.push(step.id);
+    }
+  }
+
+  return {
+    added: after.steps.filter((step) => !previous.has(step.id)),
+    removed: before.steps.filter((step) => !next.has(step.id)),
+    changed,
+    unchanged,
+  };
+}
+
+/**
+ * Lists the fields that differ between two versions of a step
+ *
+ * @param before - Previous version of the step
+ * @param after - Revised version of the step
+ * @returns Changed fields; empty if the step is unchanged
+ */
+export function changedStepFields(before: TaskStep, after: TaskStep): TaskStepField[] {
+  return COMPARED_FIELDS.filter((field) => !sameField(field, before, after));
+}
+
+/**
+ * Whether a field has the same value in two versions of a step
+ */
+function sameField(field: TaskStepField, a: TaskStep, b: TaskStep): boolean {
+  if (field === 'dependencies') {
+    const left = new Set(a.dependencies ?? []);
+    const right = new Set(b.dependencies ?? []);
+    return left.size === right.size && [...left].every((id) => right.has(id));
+  }
+  return a[field] === b[field];
+}
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { type ILogObj, Logger } from 'tslog';
+import { AgentParseError } from '../model/errors.js';
+import { FakeAgent } from '../model/fake/main.js';
+import { describeValidationErrors, executeWithRepair } from './repair.js';
+
+const log = new Logger<ILogObj>({ type: 'hidden' });
+
+/**
+ * Accepts only `{"ok": true}`, like a result parser
+ */
+function parseOk(rawOutput: string): { ok: true } {
+  try {
+    const value = JSON.parse(rawOutput) as { ok?: unknown };
+    if (value.ok !== true) {
+      throw new Error('ok must be true');
+    }
+    return { ok: true };
+  } catch (error) {
+    throw new AgentParseError('Test', 'Invalid answer', rawOutput, { cause: error });
+  }
+}
+
+describe('executeWithRepair', () => {
+  it('returns the first valid answer without repair', async () => {
+    const agent = new FakeAgent({ responses: { stdout: '{"ok": true}' } });
+
+    assert.deepEqual(
+      await executeWithRepair({ agent, prompt: 'Answer', parse: parseOk, maxRepairs: 2, log }),
+      { ok: true }
+    );
+    assert.equal(agent.prompts.length, 1);
+  });
+
+  it('sends the request, the invalid output and the errors back for repair', async () => {
+    const agent = new FakeAgent({
+      responses: [{ stdout: '{"ok": false}' }, { stdout: '{"ok": true}' }],
+    });
+
+    await executeWithRepair({ agent, prompt: 'Answer', parse: parseOk, maxRepairs: 2, log });
+
+    const repairPrompt = agent.prompts[1] ?? '';
+    assert.match(repairPrompt, /<original_request>\nAnswer\n<\/original_request>/);
+    assert.match(repairPrompt, /<previous_output>\n\{"ok": false\}\n<\/previous_output>/);
+    assert.match(repairPrompt, /- ok must be true/);
+  });
+
+  it('gives up after maxRepairs repairs with the last parse error', async () => {
+    const agent = new FakeAgent({
+      responses: (_prompt, index) => ({ stdout: `attempt ${index}` }),
+    });
+
+    const error = await executeWithRepair({
+      agent,
+      prompt: 'Answer',
+      parse: parseOk,
+      maxRepairs: 2,
+      log,
+    }).catch((e: unknown) => e);
+    assert.ok(error instanceof AgentParseError);
+    assert.equal(error.outputPreview, 'attempt 2');
+    assert.equal(agent.prompts.length, 3);
+  });
+
+  it('does not repair when maxRepairs is 0', async () => {
+    const agent = new FakeAgent({ responses: { stdout: 'nope' } });
+
+    await assert.rejects(
+      executeWithRepair({ agent, prompt: 'Answer', parse: parseOk, maxRepairs: 0, log }),
+      AgentParseError
+    );
+    assert.equal(agent.prompts.length, 1);
+  });
+
+  it('passes errors other than AgentParseError through without repair', async () => {
+    const agent = new FakeAgent({ responses: { stdout: '{}' } });
+    const parse = (): never => {
+      throw new TypeError('bug in the parser');
+    };
+
+    await assert.rejects(
+      executeWithRepair({ agent, prompt: 'Answer', parse, maxRepairs: 2, log }),
+      TypeError
+    );
+    assert.equal(agent.prompts.length, 1);
+  });
+});
+
+describe('describeValidationErrors', () => {
+  it('reports the innermost cause', () => {
+    const error = new AgentParseError('Test', 'outer', '', {
+      cause: new Error('middle', { cause: new Error('innermost') }),
+    });
+
+    assert.deepEqual(describeValidationErrors(error), ['innermost']);
+  });
+
+  it('reports one message per issue of an error with issues', () => {
+    const issues = Object.assign(new Error('2 issues'), {
+      issues: [{ message: 'steps[0].id: expected string' }, { message: 'totalSteps: required' }],
+    });
+    const error = new AgentParseError('Test', 'outer', '', { cause: issues });
+
+    assert.deepEqual(describeValidationErrors(error), [
+      'steps[0].id: expected string',
+      'totalSteps: required',
+    ]);
+  });
+
+  it('reports values that are not errors as text', () => {
+    assert.deepEqual(describeValidationErrors('plain failure'), ['plain failure']);
+  });
+});
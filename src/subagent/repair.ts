@@ -0,0 +1,125 @@
+import type { ILogObj, Logger } from 'tslog';
+import type { CLIAgent, ExecuteOptions } from '../model/agent.js';
+import { AgentParseError } from '../model/errors.js';
+
+/**
+ * Default number of repair attempts after the first answer fails validation
+ */
+export const DEFAULT_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Options of a self-repairing structured execution
+ */
+export type RepairOptions<T> = {
+  readonly agent: CLIAgent;
+  readonly prompt: string;
+  readonly executeOptions?: ExecuteOptions;
+  /**
+   * Parses and validates raw output; must throw AgentParseError for output
+   * the model could fix. Other errors are passed through without repair.
+   */
+  readonly parse: (rawOutput: string, durationMs: number) => T;
+  /** Repair attempts after the first answer; 0 disables repair */
+  readonly maxRepairs: number;
+  readonly log: Logger<ILogObj>;
+};
+
+/**
+ * Runs a prompt whose answer must be valid JSON, asking the model to repair
+ * invalid answers
+ *
+ * Each repair prompt contains the original request, the invalid output and
+ * the exact validation errors. Every attempt's raw output is logged.
+ *
+ * @param options - Agent, prompt, parser and repair limit
+ * @returns Parsed value of the first valid answer
+ * @throws AgentParseError of the last attempt once all repairs have failed
+ */
+export async function executeWithRepair<T>(options: RepairOptions<T>): Promise<T> {
+  const { agent, prompt, parse, maxRepairs, log } = options;
+  const startTime = Date.now();
+  let currentPrompt = prompt;
+
+  for (let attempt = 1; ; attempt++) {
+    const rawOutput = await agent.execute(currentPrompt, options.executeOptions);
+    log.debug('Structured output received', { attempt, rawOutput });
+
+    try {
+      return parse(rawOutput, Date.now() - startTime);
+    } catch (error) {
+      if (!(error instanceof AgentParseError)) throw error;
+
+      const validationErrors = describeValidationErrors(error);
+      if (attempt > maxRepairs) {
+        log.error('Output still invalid after repair attempts', {
+          attempts: attempt,
+          validationErrors,
+        });
+        throw error;
+      }
+
+      log.warn('Output failed validation, asking the model to repair it', {
+        attempt,
+        validationErrors,
+        rawOutput,
+      });
+      currentPrompt = buildRepairPrompt(prompt, rawOutput, validationErrors);
+    }
+  }
+}
+
+/**
+ * Collects the validation messages behind a parse error
+ *
+ * Errors that carry a list of `issues` (e.g., PlanGraphError) contribute one
+ * message per issue.
+ *
+ * @param error - Error thrown by a result parser
+ * @returns Messages, innermost cause first
+ */
+export function describeValidationErrors(error: unknown): string[] {
+  let innermost: unknown = error;
+  while (innermost instanceof Error && innermost.cause instanceof Error) {
+    innermost = innermost.cause;
+  }
+
+  if (innermost instanceof Error && 'issues' in innermost && Array.isArray(innermost.issues)) {
+    return innermost.issues.map((issue: { message?: unknown }) => String(issue.message));
+  }
+  return [innermost instanceof Error ? innermost.message : String(innermost)];
+}
+
+/**
+ * Builds the prompt asking the model to correct its previous answer
+ *
+ * @param originalPrompt - Prompt of the first attempt, with the expected format
+ * @param rawOutput - Invalid output of the previous attempt
+ * @param validationErrors - Why the output was rejected
+ * @returns Repair prompt
+ */
+function buildRepairPrompt(
+  originalPrompt: string,
+  rawOutput: string,
+  validationErrors: readonly string[]
+): string {
+  return `<task>
+Your previous answer to the request below could not be used because it failed validation.
+Correct it so that it satisfies the requested output format and fixes every error listed.
+</task>
+
+<original_request>
+${originalPrompt}
+</original_request>
+
+<previous_output>
+${rawOutput}
+</previous_output>
+
+<validation_errors>
+${validationErrors.map((message) => `- ${message}`).join('\n')}
+</validation_errors>
+
+<important>
+Return ONLY the corrected JSON object, no additional text or explanations.
+</important>`;
+}
@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { setTimeout as delay } from 'node:timers/promises';
+import { AbortError, AgentExitError, AgentParseError } from '../../model/errors.js';
+import { FakeAgent } from '../../model/fake/main.js';
+import { TemplateAgent } from '../../model/template/main.js';
+import { Researcher } from './main.js';
+
+const FINDING = {
+  id: 'finding-1',
+  category: 'Security',
+  summary: 'Tokens expire after an hour',
+  details: 'Refresh tokens are rotated on every use.',
+  implications: ['Clients must refresh proactively'],
+  sources: [{ type: 'documentation', title: 'Auth guide', relevance: 'high' }],
+};
+
+const OUTPUT = {
+  investigationSummary: { query: 'OAuth', scope: 'detailed', totalFindings: 1 },
+  findings: [FINDING],
+  recommendations: ['Use short-lived tokens'],
+  relatedQueries: ['PKCE'],
+};
+
+/**
+ * Agent whose CLI prints its pid and then runs until it is killed
+ */
+function hangingAgent(): TemplateAgent {
+  return new TemplateAgent({
+    command: process.execPath,
+    args: ['-e', 'console.log(process.pid); setInterval(() => {}, 1000);'],
+  });
+}
+
+/**
+ * Waits up to two seconds for a process to exit
+ *
+ * @returns Whether the process has exited
+ */
+async function waitForExit(pid: number): Promise<boolean> {
+  for (let i = 0; i < 40; i++) {
+    try {
+      process.kill(pid, 0);
+    } catch {
+      return true;
+    }
+    await delay(50);
+  }
+  return false;
+}
+
+/**
+ * Aborts the execution once the hanging CLI has started, and reports its pid
+ */
+function abortWhenStarted(agent: TemplateAgent, controller: AbortController): () => number {
+  let pid = 0;
+  agent.subscribe((event) => {
+    if (event.type === 'text_delta' && pid === 0) {
+      pid = Number.parseInt(event.text, 10);
+      controller.abort();
+    }
+  });
+  return () => pid;
+}
+
+describe('Researcher.investigate', () => {
+  it('parses findings and includes the topic in the prompt', async () => {
+    const agent = new FakeAgent({ responses: { stdout: JSON.stringify(OUTPUT) } });
+    const result = await new Researcher({ agent }).investigate({
+      query: 'How does OAuth token refresh work?',
+      scope: 'detailed',
+      focus: ['refresh tokens'],
+    });
+
+    assert.equal(result.query, 'How does OAuth token refresh work?');
+    assert.equal(result.scope, 'detailed');
+    assert.equal(result.totalFindings, 1);
+    assert.equal(result.findings[0]?.sources[0]?.title, 'Auth guide');
+    assert.deepEqual(result.recommendations, ['Use short-lived tokens']);
+    assert.match(result.investigationId, /^investigation-/);
+    assert.match(agent.prompts[0] ?? '', /refresh tokens/);
+  });
+
+  it('asks the model to repair findings that do not match the schema', async () => {
+    const invalid = { ...OUTPUT, findings: [{ ...FINDING, sources: [{ title: 'Auth guide' }] }] };
+    const agent = new FakeAgent({
+      responses: [
+        { stdout: `\`\`\`json\n${JSON.stringify(invalid)}\n\`\`\`` },
+        { stdout: JSON.stringify(OUTPUT) },
+      ],
+    });
+    const result = await new Researcher({ agent }).investigate({ query: 'OAuth' });
+
+    assert.equal(result.totalFindings, 1);
+    assert.match(agent.prompts[1] ?? '', /\$\.findings\[0\]\.sources\[0\]\.type is required/);
+  });
+
+  it('fails with AgentParseError when no valid result is returned', async () => {
+    const agent = new FakeAgent({ responses: { stdout: 'No findings.' } });
+
+    await assert.rejects(
+      new Researcher({ agent, repairAttempts: 0 }).investigate({ query: 'OAuth' }),
+      AgentParseError
+    );
+    assert.equal(agent.prompts.length, 1);
+  });
+
+  it('passes agent failures through without repair', async () => {
+    const agent = new FakeAgent({ responses: { stderr: 'boom', exitCode: 2 } });
+
+    await assert.rejects(
+      new Researcher({ agent }).investigate({ query: 'OAuth' }),
+      (error: unknown) => error instanceof AgentExitError && error.exitCode === 2
+    );
+    assert.equal(agent.prompts.length, 1);
+  });
+
+  it('keeps the original error as the cause of an unexpected failure', async () => {
+    const failure = new TypeError('responder broke');
+    const agent = new FakeAgent({
+      responses: () => {
+        throw failure;
+      },
+    });
+
+    const error = await new Researcher({ agent })
+      .investigate({ query: 'OAuth' })
+      .catch((e: unknown) => e);
+    assert.ok(error instanceof Error);
+    assert.match(error.message, /Failed to complete research investigation: responder broke/);
+    assert.equal(error.cause, failure);
+  });
+
+  it(
+    'rejects with AbortError and kills the CLI when aborted',
+    {
+      skip: process.platform === 'win32',
+    },
+    async () => {
+      const agent = hangingAgent();
+      const controller = new AbortController();
+      const startedPid = abortWhenStarted(agent, controller);
+
+      await assert.rejects(
+        new Researcher({ agent }).investigate({ query: 'OAuth' }, { signal: controller.signal }),
+        AbortError
+      );
+      assert.ok(startedPid() > 0);
+      assert.equal(await waitForExit(startedPid()), true);
+    }
+  );
+});
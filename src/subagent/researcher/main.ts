@@ -1,15 +1,31 @@
-import { Gemini } from '../../model/gemini/main.js';
-import { CLIAgent } from '../../model/agent.js';
 import { type ILogObj, Logger } from 'tslog';
-import { type TaskID } from '../types.js';
+import type { CLIAgent, ExecuteOptions } from '../../model/agent.js';
+import { AgentError, AgentParseError, isAbortError } from '../../model/errors.js';
+import { extractJson } from '../../model/extract.js';
+import { type AgentName, type AgentSpec, createAgentFromSpec } from '../../model/registry.js';
+import type { RetryPolicy } from '../../model/retry.js';
+import { type Infer, schema } from '../../model/schema.js';
+import { defineOutputContract, formatOutputSection, toOutputSchema } from '../output.js';
+import { DEFAULT_REPAIR_ATTEMPTS, executeWithRepair } from '../repair.js';
+import type { TaskID } from '../types.js';
 
 /**
  * Configuration options for the Researcher
  */
 export type ResearcherConfig = {
   readonly timeoutMs?: number;
+  readonly idleTimeoutMs?: number;
   readonly maxDepth?: number;
   readonly includeSources?: boolean;
+  /** Use the backend's native JSON schema mode, if it has one, in addition to the prompt */
+  readonly enableStructuredOutput?: boolean;
+  readonly retry?: RetryPolicy;
+  /** Times an invalid result is sent back to the model for correction; defaults to 2 */
+  readonly repairAttempts?: number;
+  /** Registered backend to research with; defaults to 'gemini' */
+  readonly backend?: AgentName | AgentSpec;
+  /** Ready-made agent to research with instead of `backend` (e.g., a FakeAgent) */
+  readonly agent?: CLIAgent;
 };
 
 /**
@@ -22,28 +38,56 @@ export type ResearchTopic = {
   readonly constraints?: string[];
 };
 
+/**
+ * Schema of a research source
+ */
+export const RESEARCH_SOURCE_SCHEMA = schema.object({
+  type: schema.enum(['documentation', 'codebase', 'specification', 'external', 'analysis']),
+  title: schema.string({ example: 'Source Title' }),
+  relevance: schema.enum(['high', 'medium', 'low']),
+  url: schema.optional(schema.string({ example: 'URL if available' })),
+  section: schema.optional(schema.string({ example: 'Section if applicable' })),
+});
+
+/**
+ * Schema of a research finding
+ */
+export const RESEARCH_FINDING_SCHEMA = schema.object({
+  id: schema.string<TaskID>({ example: 'finding-1' }),
+  category: schema.string({ example: 'Category Name' }),
+  summary: schema.string({ example: 'Brief summary of the finding' }),
+  details: schema.string({ example: 'Detailed explanation with technical specifics' }),
+  implications: schema.array(schema.string({ example: 'Practical implication' })),
+  sources: schema.array(RESEARCH_SOURCE_SCHEMA),
+});
+
+/**
+ * Output contract of the Researcher; the model's answer, before the
+ * Researcher adds its own bookkeeping fields
+ */
+export const RESEARCH_OUTPUT_CONTRACT = defineOutputContract(
+  'research_output',
+  schema.object({
+    investigationSummary: schema.object({
+      query: schema.string({ example: 'The research query' }),
+      scope: schema.enum(['overview', 'detailed', 'comprehensive']),
+      totalFindings: schema.number({ integer: true, minimum: 0 }),
+    }),
+    findings: schema.array(RESEARCH_FINDING_SCHEMA),
+    recommendations: schema.array(schema.string({ example: 'Actionable recommendation' })),
+    relatedQueries: schema.array(schema.string({ example: 'Related investigation topic' })),
+  })
+);
+
 /**
  * Research source structure for tracking information sources
  */
-export type ResearchSource = {
-  readonly type: 'documentation' | 'codebase' | 'specification' | 'external' | 'analysis';
-  readonly title: string;
-  readonly relevance: 'high' | 'medium' | 'low';
-  readonly url?: string;
-  readonly section?: string;
-};
+export type ResearchSource = Infer<typeof RESEARCH_SOURCE_SCHEMA>;
 
 /**
  * Research finding structure for individual discoveries
  */
-export type ResearchFinding = {
-  readonly id: TaskID;
-  readonly category: string;
-  readonly summary: string;
-  readonly details: string;
-  readonly implications: string[];
-  readonly sources: ResearchSource[];
-};
+export type ResearchFinding = Infer<typeof RESEARCH_FINDING_SCHEMA>;
 
 /**
  * Research result structure for AI-readable output
@@ -78,7 +122,7 @@ export type ResearchResult = {
 export class Researcher {
   private readonly log: Logger<ILogObj>;
   private readonly agent: CLIAgent;
-  private readonly config: Required<ResearcherConfig>;
+  private readonly config: Required<Omit<ResearcherConfig, 'agent' | 'backend' | 'idleTimeoutMs'>>;
 
   /**
    * Creates a new Researcher instance
@@ -90,6 +134,9 @@ export class Researcher {
       timeoutMs: config.timeoutMs ?? 600000, // Default: 10 minutes
       maxDepth: config.maxDepth ?? 5,
       includeSources: config.includeSources ?? true,
+      enableStructuredOutput: config.enableStructuredOutput ?? false,
+      retry: config.retry ?? { maxAttempts: 3 }, // Default: retry transient failures twice
+      repairAttempts: config.repairAttempts ?? DEFAULT_REPAIR_ATTEMPTS,
     };
 
     this.log = new Logger({
@@ -100,19 +147,24 @@ export class Researcher {
         '{{yyyy}}.{{mm}}.{{dd}} {{hh}}:{{MM}}:{{ss}}\t{{logLevelName}}\t{{name}}\t',
     });
 
-    // Initialize Gemini with extended timeout for research tasks
-    this.agent = new Gemini({
-      timeoutMs: this.config.timeoutMs,
-    });
+    // Initialize the backend (Gemini by default) with extended timeout for research tasks
+    this.agent =
+      config.agent ??
+      createAgentFromSpec(config.backend ?? 'gemini', {
+        timeoutMs: this.config.timeoutMs,
+        ...(config.idleTimeoutMs !== undefined && { idleTimeoutMs: config.idleTimeoutMs }),
+        retry: this.config.retry,
+      });
   }
 
   /**
    * Investigates a research topic and returns structured findings
    *
    * @param topic - The research topic to investigate
+   * @param options - Per-call options such as an AbortSignal
    * @returns Promise that resolves with structured research results
    */
-  async investigate(topic: ResearchTopic): Promise<ResearchResult> {
+  async investigate(topic: ResearchTopic, options: ExecuteOptions = {}): Promise<ResearchResult> {
     if (!topic.query || topic.query.trim() === '') {
       const error = new Error('Research query cannot be empty');
       this.log.error('Invalid research query', { error: error.message });
@@ -120,7 +172,7 @@ export class Researcher {
     }
 
     const investigationId = this.generateInvestigationId();
-    
+
     this.log.info('Starting research investigation', {
       investigationId,
       query: topic.query,
@@ -133,17 +185,20 @@ export class Researcher {
 
     try {
       const startTime = Date.now();
-      const rawResult = await this.agent.execute(researchPrompt);
-      const duration = Date.now() - startTime;
 
-      this.log.debug('Research completed', {
-        investigationId,
-        duration,
-        resultLength: rawResult.length,
+      // Invalid results are sent back to the model together with the validation errors
+      const researchResult = await executeWithRepair({
+        agent: this.agent,
+        prompt: researchPrompt,
+        executeOptions: this.config.enableStructuredOutput
+          ? { ...options, outputSchema: toOutputSchema(RESEARCH_OUTPUT_CONTRACT) }
+          : options,
+        parse: (rawResult, elapsed) =>
+          this.parseResearchResult(rawResult, topic, investigationId, elapsed),
+        maxRepairs: this.config.repairAttempts,
+        log: this.log,
       });
-      
-      // Parse the structured result from Gemini
-      const researchResult = this.parseResearchResult(rawResult, topic, investigationId, duration);
+      const duration = Date.now() - startTime;
 
       this.log.info('Research investigation completed successfully', {
         investigationId,
@@ -154,13 +209,25 @@ export class Researcher {
 
       return researchResult;
     } catch (error) {
+      if (isAbortError(error)) {
+        this.log.info('Research investigation aborted', { investigationId, query: topic.query });
+        throw error;
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.log.error('Research investigation failed', {
         investigationId,
         query: topic.query,
         error: errorMessage,
       });
-      throw new Error(`Failed to complete research investigation: ${errorMessage}`);
+
+      // Typed agent errors are passed through so callers can tell failure kinds apart
+      if (error instanceof AgentError) {
+        throw error;
+      }
+      throw new Error(`Failed to complete research investigation: ${errorMessage}`, {
+        cause: error,
+      });
     }
   }
 
@@ -172,13 +239,15 @@ export class Researcher {
    */
   private buildResearchPrompt(topic: ResearchTopic): string {
     const scope = topic.scope || 'overview';
-    const focusSection = topic.focus && topic.focus.length > 0 
-      ? `\n\nFocus specifically on these areas:\n${topic.focus.map(f => `- ${f}`).join('\n')}`
-      : '';
-    
-    const constraintsSection = topic.constraints && topic.constraints.length > 0
-      ? `\n\nConstraints and limitations:\n${topic.constraints.map(c => `- ${c}`).join('\n')}`
-      : '';
+    const focusSection =
+      topic.focus && topic.focus.length > 0
+        ? `\n\nFocus specifically on these areas:\n${topic.focus.map((f) => `- ${f}`).join('\n')}`
+        : '';
+
+    const constraintsSection =
+      topic.constraints && topic.constraints.length > 0
+        ? `\n\nConstraints and limitations:\n${topic.constraints.map((c) => `- ${c}`).join('\n')}`
+        : '';
 
     return `<role>
 You are a technical researcher with expertise in software development, architecture, and technology analysis. Your role is to investigate topics thoroughly, identify key insights, and provide structured findings that help development teams make informed decisions.
@@ -186,44 +255,16 @@ You are a technical researcher with expertise in software development, architect
 
 <task>
 Research: ${topic.query}
+Scope: ${scope}
 </task>
 
 <requirements>
 Find key information and provide practical findings.
+Report the query and scope above in investigationSummary.
 ${focusSection}${constraintsSection}
 </requirements>
 
-<output_format>
-Return ONLY a JSON object with this exact structure:
-
-{
-  "investigationSummary": {
-    "query": "${topic.query}",
-    "scope": "${scope}",
-    "totalFindings": 0
-  },
-  "findings": [
-    {
-      "id": "finding-1",
-      "category": "Category Name",
-      "summary": "Brief summary of the finding",
-      "details": "Detailed explanation with technical specifics",
-      "implications": ["Practical implication 1", "Practical implication 2"],
-      "sources": [
-        {
-          "type": "documentation|codebase|specification|external|analysis",
-          "title": "Source Title", 
-          "relevance": "high|medium|low",
-          "url": "URL if available",
-          "section": "Section if applicable"
-        }
-      ]
-    }
-  ],
-  "recommendations": ["Actionable recommendation 1", "Actionable recommendation 2"],
-  "relatedQueries": ["Related investigation topic 1", "Related investigation topic 2"]
-}
-</output_format>
+${formatOutputSection(RESEARCH_OUTPUT_CONTRACT)}
 
 <important>
 Return ONLY the JSON object, no additional text or explanations.
@@ -241,57 +282,26 @@ Do not mention saving files, writing to disk, or file operations.
    * @returns Parsed research result
    */
   private parseResearchResult(
-    rawResult: string, 
-    topic: ResearchTopic, 
-    investigationId: string, 
+    rawResult: string,
+    topic: ResearchTopic,
+    investigationId: string,
     duration: number
   ): ResearchResult {
     try {
-      // Clean the result and extract JSON content
-      let cleanedResult = rawResult.trim();
-      
-      // Handle code blocks (```json...```) 
-      const codeBlockMatch = cleanedResult.match(/```json\s*([\s\S]*?)\s*```/);
-      if (codeBlockMatch && codeBlockMatch[1]) {
-        cleanedResult = codeBlockMatch[1].trim();
-      }
-      
-      // Handle escaped JSON strings (from Gemini's result field)
-      if (cleanedResult.startsWith('\\"') && cleanedResult.endsWith('\\"')) {
-        try {
-          cleanedResult = JSON.parse(cleanedResult);
-        } catch (unescapeError) {
-          this.log.debug('Failed to unescape JSON string, proceeding with original', {
-            error: unescapeError instanceof Error ? unescapeError.message : String(unescapeError),
-          });
-        }
-      }
-      
-      let jsonString = cleanedResult;
-
-      // Handle cases where Gemini might include extra text before/after JSON
-      const jsonMatch = cleanedResult.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        jsonString = jsonMatch[0];
-      }
+      // Pick the JSON document out of any surrounding text, fences or encoding
+      const parsed = extractJson(rawResult, RESEARCH_OUTPUT_CONTRACT.schema);
 
-      // Parse the JSON structure
-      const result = this.parseJsonStructure(jsonString);
-      
-      // Validate and construct the research result
       const researchResult: ResearchResult = {
         investigationId: investigationId as TaskID,
         query: topic.query,
         scope: topic.scope || 'overview',
         executionTime: `${duration}ms`,
-        totalFindings: result.findings?.length || 0,
-        findings: result.findings || [],
-        recommendations: result.recommendations || [],
-        relatedQueries: result.relatedQueries || [],
+        totalFindings: parsed.findings.length,
+        findings: parsed.findings,
+        recommendations: parsed.recommendations,
+        relatedQueries: parsed.relatedQueries,
       };
 
-      this.validateResearchResult(researchResult);
-
       this.log.debug('Successfully parsed research result', {
         investigationId,
         totalFindings: researchResult.totalFindings,
@@ -306,99 +316,12 @@ Do not mention saving files, writing to disk, or file operations.
         error: error instanceof Error ? error.message : String(error),
         resultPreview: rawResult.substring(0, 300),
       });
-      throw new Error(`Failed to parse research result: ${error instanceof Error ? error.message : String(error)}`);
-    }
-  }
-
-  /**
-   * JSON structure parser for research results
-   * 
-   * @param jsonContent - JSON content to parse
-   * @returns Parsed structure object
-   */
-  private parseJsonStructure(jsonContent: string): any {
-    const parsed = JSON.parse(jsonContent);
-    
-    // Validate the structure matches expected format
-    if (!parsed.investigationSummary || !Array.isArray(parsed.findings)) {
-      throw new Error('Invalid JSON structure: missing required fields');
-    }
-
-    // Convert to internal format
-    const result: any = {
-      findings: [],
-      recommendations: parsed.recommendations || [],
-      relatedQueries: parsed.relatedQueries || []
-    };
-
-    // Process findings
-    if (parsed.findings && Array.isArray(parsed.findings)) {
-      result.findings = parsed.findings.map((finding: any, index: number) => {
-        const processedFinding: ResearchFinding = {
-          id: (finding.id || `finding-${index + 1}`) as TaskID,
-          category: finding.category || 'General',
-          summary: finding.summary || '',
-          details: finding.details || '',
-          implications: Array.isArray(finding.implications) ? finding.implications : [],
-          sources: Array.isArray(finding.sources) ? finding.sources.map((source: any) => ({
-            type: source.type || 'analysis',
-            title: source.title || 'Unknown Source',
-            relevance: source.relevance || 'medium',
-            ...(source.url && { url: source.url }),
-            ...(source.section && { section: source.section })
-          })) : [],
-        };
-
-        return processedFinding;
-      });
-    }
-
-    return result;
-  }
-
-
-  /**
-   * Validates the structure of the parsed research result
-   *
-   * @param result - Parsed research result to validate
-   * @throws Error if validation fails
-   */
-  private validateResearchResult(result: any): asserts result is ResearchResult {
-    if (typeof result !== 'object' || result === null) {
-      throw new Error('Research result must be an object');
-    }
-
-    if (typeof result.investigationId !== 'string') {
-      throw new Error('Research result must have an investigationId string');
-    }
-
-    if (typeof result.query !== 'string') {
-      throw new Error('Research result must have a query string');
-    }
-
-    if (typeof result.totalFindings !== 'number') {
-      throw new Error('Research result must have a totalFindings number');
-    }
-
-    if (!Array.isArray(result.findings)) {
-      throw new Error('Research result must have a findings array');
-    }
-
-    if (!Array.isArray(result.recommendations)) {
-      throw new Error('Research result must have a recommendations array');
-    }
-
-    if (!Array.isArray(result.relatedQueries)) {
-      throw new Error('Research result must have a relatedQueries array');
-    }
-
-    for (const [index, finding] of result.findings.entries()) {
-      if (typeof finding.id !== 'string') {
-        throw new Error(`Finding ${index} must have an id string`);
-      }
-      if (typeof finding.summary !== 'string') {
-        throw new Error(`Finding ${index} must have a summary string`);
-      }
+      throw new AgentParseError(
+        'Researcher',
+        `Failed to parse research result: ${error instanceof Error ? error.message : String(error)}`,
+        rawResult,
+        { cause: error }
+      );
     }
   }
 
@@ -434,4 +357,4 @@ Do not mention saving files, writing to disk, or file operations.
         return 3; // info
     }
   }
-}
\ No newline at end of file
+}